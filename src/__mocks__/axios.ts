@@ -1,2 +1,14 @@
 // Hook into jest mocking, but re-export from core
-export * from "andculturecode-javascript-testing/dist/mocks/axios";
+import MockAxios from "andculturecode-javascript-testing/dist/mocks/axios";
+
+// Cancellation helpers are not mocked so cancel tokens behave as they do at runtime
+const { Cancel, CancelToken, isCancel } = jest.requireActual("axios");
+
+export default {
+    ...MockAxios,
+    Cancel,
+    CancelToken,
+    isCancel,
+    // Not yet mocked by andculturecode-javascript-testing
+    patch: jest.fn(() => Promise.resolve({ data: {} })),
+};
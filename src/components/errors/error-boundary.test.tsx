@@ -0,0 +1,119 @@
+import React from "react";
+import { act, render } from "@testing-library/react";
+import { ErrorBoundary } from "./error-boundary";
+import { useErrorHandler } from "../../hooks/use-error-handler";
+
+describe("ErrorBoundary", () => {
+    const ThrowingComponent = () => {
+        throw new Error("Render Error");
+    };
+
+    beforeEach(() => {
+        // React logs caught render errors, which would otherwise clutter the test output
+        jest.spyOn(console, "error").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        (console.error as jest.Mock).mockRestore();
+    });
+
+    test("when children render, renders children", () => {
+        // Arrange & Act
+        const { getByText } = render(
+            <ErrorBoundary fallback={<p>Fallback</p>}>
+                <p>Content</p>
+            </ErrorBoundary>
+        );
+
+        // Assert
+        expect(getByText("Content")).not.toBeNull();
+    });
+
+    test("when child throws, renders fallback and reports error", () => {
+        // Arrange
+        const onError = jest.fn();
+
+        // Act
+        const { getByText } = render(
+            <ErrorBoundary fallback={<p>Fallback</p>} onError={onError}>
+                <ThrowingComponent />
+            </ErrorBoundary>
+        );
+
+        // Assert
+        expect(getByText("Fallback")).not.toBeNull();
+        expect(onError).toHaveBeenCalledWith(
+            expect.objectContaining({ message: "Render Error" }),
+            expect.objectContaining({ componentStack: expect.any(String) })
+        );
+    });
+
+    test("when fallback is function, calls it with error", () => {
+        // Arrange & Act
+        const { getByText } = render(
+            <ErrorBoundary
+                fallback={({ error }) => <p>{error.message}</p>}
+                onError={jest.fn()}>
+                <ThrowingComponent />
+            </ErrorBoundary>
+        );
+
+        // Assert
+        expect(getByText("Render Error")).not.toBeNull();
+    });
+
+    test("when resetKey changes, renders children again", () => {
+        // Arrange
+        const Page = (props: { shouldThrow: boolean }) => {
+            if (props.shouldThrow) {
+                throw new Error("Render Error");
+            }
+
+            return <p>Content</p>;
+        };
+        const { getByText, rerender } = render(
+            <ErrorBoundary
+                fallback={<p>Fallback</p>}
+                onError={jest.fn()}
+                resetKey="/broken">
+                <Page shouldThrow={true} />
+            </ErrorBoundary>
+        );
+
+        // Act
+        rerender(
+            <ErrorBoundary
+                fallback={<p>Fallback</p>}
+                onError={jest.fn()}
+                resetKey="/working">
+                <Page shouldThrow={false} />
+            </ErrorBoundary>
+        );
+
+        // Assert
+        expect(getByText("Content")).not.toBeNull();
+    });
+
+    test("when useErrorHandler is called by a child, renders fallback and reports error", () => {
+        // Arrange
+        const error = new Error("Rejected");
+        const onError = jest.fn();
+        let handleError: (error: any) => void;
+        const Page = () => {
+            handleError = useErrorHandler();
+            return <p>Content</p>;
+        };
+        const { getByText } = render(
+            <ErrorBoundary fallback={<p>Fallback</p>} onError={onError}>
+                <Page />
+            </ErrorBoundary>
+        );
+
+        // Act
+        act(() => handleError(error));
+
+        // Assert
+        expect(getByText("Fallback")).not.toBeNull();
+        expect(onError).toHaveBeenCalledWith(error, undefined);
+    });
+});
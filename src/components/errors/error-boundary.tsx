@@ -0,0 +1,139 @@
+import { EnvironmentUtils } from "andculturecode-javascript-core";
+import React, { ErrorInfo, PropsWithChildren } from "react";
+import { ErrorBoundaryContext } from "../../contexts/error-boundary-context";
+import { ErrorReporter } from "../../types/error-reporter-type";
+
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+interface ErrorBoundaryFallbackProps {
+    error: any;
+
+    /**
+     * Clears the error and renders the children again
+     */
+    resetErrorBoundary: () => void;
+}
+
+interface ErrorBoundaryProps {
+    /**
+     * Rendered in place of the children once an error is caught
+     */
+    fallback?:
+        | React.ReactNode
+        | ((props: ErrorBoundaryFallbackProps) => React.ReactNode);
+
+    /**
+     * Reports each caught error. Defaults to logging to the console in development.
+     */
+    onError?: ErrorReporter;
+
+    /**
+     * When this value changes, the error is cleared and the children are rendered again (ie.
+     * the current location, so navigating away from a broken page recovers)
+     */
+    resetKey?: any;
+}
+
+interface ErrorBoundaryState {
+    error?: any;
+    hasError: boolean;
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Component
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Catches errors thrown while rendering its children and renders `fallback` instead. Errors
+ * thrown outside of rendering (ie. a rejected service hook call) can be passed to the nearest
+ * boundary with `useErrorHandler`.
+ *
+ * @example
+ * const { handlePageLoadError } = usePageErrors();
+ *
+ * <ErrorBoundary
+ *     fallback={({ resetErrorBoundary }) => <ErrorPage onRetry={resetErrorBoundary} />}
+ *     onError={(error) => handlePageLoadError(error)}
+ *     resetKey={location.pathname}>
+ *     <Page />
+ * </ErrorBoundary>
+ */
+class ErrorBoundary extends React.Component<
+    PropsWithChildren<ErrorBoundaryProps>,
+    ErrorBoundaryState
+> {
+    state: ErrorBoundaryState = { hasError: false };
+
+    static getDerivedStateFromError(error: any): ErrorBoundaryState {
+        return { error, hasError: true };
+    }
+
+    componentDidCatch(error: any, errorInfo: ErrorInfo) {
+        this.reportError(error, errorInfo);
+    }
+
+    componentDidUpdate(previousProps: ErrorBoundaryProps) {
+        if (
+            this.state.hasError &&
+            previousProps.resetKey !== this.props.resetKey
+        ) {
+            this.resetErrorBoundary();
+        }
+    }
+
+    reportError(error: any, errorInfo?: ErrorInfo) {
+        const { onError } = this.props;
+        if (onError != null) {
+            onError(error, errorInfo);
+            return;
+        }
+
+        EnvironmentUtils.runIfDevelopment(() => {
+            console.error("No error reporter defined.");
+            console.error(error, errorInfo);
+        });
+    }
+
+    resetErrorBoundary = () => {
+        this.setState({ error: undefined, hasError: false });
+    };
+
+    showError = (error: any) => {
+        this.reportError(error);
+        this.setState({ error, hasError: true });
+    };
+
+    render() {
+        const { children, fallback = null } = this.props;
+        const { error, hasError } = this.state;
+
+        if (!hasError) {
+            return (
+                <ErrorBoundaryContext.Provider value={this.showError}>
+                    {children}
+                </ErrorBoundaryContext.Provider>
+            );
+        }
+
+        return typeof fallback === "function"
+            ? fallback({
+                  error,
+                  resetErrorBoundary: this.resetErrorBoundary,
+              })
+            : fallback;
+    }
+}
+
+// #endregion Component
+
+// -----------------------------------------------------------------------------------------
+// #region Exports
+// -----------------------------------------------------------------------------------------
+
+export { ErrorBoundary, ErrorBoundaryFallbackProps, ErrorBoundaryProps };
+
+// #endregion Exports
@@ -0,0 +1,55 @@
+import React, { PropsWithChildren, useState } from "react";
+import { QueryCacheContext } from "../../contexts/query-cache-context";
+import { QueryCache } from "../../interfaces/query-cache";
+import { QueryCacheOptions } from "../../interfaces/query-cache-options";
+import { QueryCacheFactory } from "../../services/query-cache-factory";
+
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+interface QueryCacheProviderProps {
+    /**
+     * Cache to provide. When not supplied, a new cache is created for this provider.
+     */
+    cache?: QueryCache;
+
+    /**
+     * Default options for the cache created by this provider. Ignored when `cache` is supplied.
+     */
+    options?: QueryCacheOptions;
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Component
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Scopes the query cache used by service hooks rendered beneath it
+ */
+const QueryCacheProvider: React.FC<QueryCacheProviderProps> = (
+    props: PropsWithChildren<QueryCacheProviderProps>
+) => {
+    const { cache, children, options } = props;
+    const [providedCache] = useState(
+        () => cache ?? QueryCacheFactory.create(options)
+    );
+
+    return (
+        <QueryCacheContext.Provider value={cache ?? providedCache}>
+            {children}
+        </QueryCacheContext.Provider>
+    );
+};
+
+// #endregion Component
+
+// -----------------------------------------------------------------------------------------
+// #region Exports
+// -----------------------------------------------------------------------------------------
+
+export { QueryCacheProvider, QueryCacheProviderProps };
+
+// #endregion Exports
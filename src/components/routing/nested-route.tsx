@@ -4,12 +4,18 @@ import { CoreUtils } from "andculturecode-javascript-core";
 import { Route } from "react-router-dom";
 import { AuthenticatedRoute as AuthenticatedRouteComponent } from "./authenticated-route";
 import { AuthenticatedRoute } from "../../interfaces/authenticated-route";
+import { ErrorBoundary, ErrorBoundaryProps } from "../errors/error-boundary";
 
 // -----------------------------------------------------------------------------------------
 // #region NestedRouteProps
 // -----------------------------------------------------------------------------------------
 
 interface NestedRouteProps extends AuthenticatedRoute {
+    /**
+     * When supplied, the route component is rendered within an `ErrorBoundary` which is reset
+     * whenever the location changes
+     */
+    errorBoundary?: Omit<ErrorBoundaryProps, "resetKey">;
     route: RouteDefinition;
 }
 
@@ -24,7 +30,12 @@ interface NestedRouteProps extends AuthenticatedRoute {
  * for additional custom properties on RouteDefinition
  */
 const NestedRoute: React.FC<NestedRouteProps> = (props: NestedRouteProps) => {
-    const { isAuthenticated, redirectToIfUnauthenticated, route } = props;
+    const {
+        errorBoundary,
+        isAuthenticated,
+        redirectToIfUnauthenticated,
+        route,
+    } = props;
     const RouteComponent: any = route.authRequired
         ? AuthenticatedRouteComponent
         : Route;
@@ -37,10 +48,24 @@ const NestedRoute: React.FC<NestedRouteProps> = (props: NestedRouteProps) => {
             path={route.path}
             redirectToIfUnauthenticated={redirectToIfUnauthenticated}
             route={route}
-            render={(props: any) => (
+            render={(props: any) => {
                 // pass the sub-routes down to keep nesting
-                <route.component {...props} routes={childRoutes} />
-            )}
+                const component = (
+                    <route.component {...props} routes={childRoutes} />
+                );
+
+                if (errorBoundary == null) {
+                    return component;
+                }
+
+                return (
+                    <ErrorBoundary
+                        {...errorBoundary}
+                        resetKey={props.location.pathname}>
+                        {component}
+                    </ErrorBoundary>
+                );
+            }}
         />
     );
 };
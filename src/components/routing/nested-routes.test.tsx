@@ -1,7 +1,7 @@
 import React from "react";
 import { NestedRoutes } from "./nested-routes";
 import { createMemoryHistory } from "history";
-import { render } from "@testing-library/react";
+import { act, render } from "@testing-library/react";
 import { Router } from "react-router-dom";
 import { RouteDefinition } from "../../interfaces/route-definition";
 import { Factory } from "rosie";
@@ -110,4 +110,56 @@ describe("NestedRoutes", () => {
     });
 
     // #endregion redirectToIfNotFound
+
+    // -----------------------------------------------------------------------------------------
+    // #region errorBoundary
+    // -----------------------------------------------------------------------------------------
+
+    describe("when route component throws", () => {
+        describe("given errorBoundary has a value", () => {
+            test("it renders the fallback until the location changes", () => {
+                // Arrange
+                // React logs caught render errors, which would otherwise clutter the test output
+                const consoleError = jest
+                    .spyOn(console, "error")
+                    .mockImplementation(() => {});
+                const history = createMemoryHistory();
+                const BrokenPage = () => {
+                    throw new Error("Render Error");
+                };
+                const brokenRoute = Factory.build<RouteDefinition>(
+                    FactoryType.RouteDefinition.Default,
+                    { component: BrokenPage }
+                );
+                const onError = jest.fn();
+
+                const App = () => (
+                    <Router history={history}>
+                        <NestedRoutes
+                            errorBoundary={{
+                                fallback: <h1>Error</h1>,
+                                onError,
+                            }}
+                            isAuthenticated={true}
+                            routes={[...routes, brokenRoute]}
+                        />
+                    </Router>
+                );
+
+                history.push(brokenRoute.path);
+                const { getByRole } = render(<App />);
+                expect(getByRole("heading")).toHaveTextContent("Error");
+
+                // Act
+                act(() => history.push(homeRoute.path));
+
+                // Assert
+                expect(getByRole("heading")).toHaveTextContent("Home");
+                expect(onError).toHaveBeenCalledTimes(1);
+                consoleError.mockRestore();
+            });
+        });
+    });
+
+    // #endregion errorBoundary
 });
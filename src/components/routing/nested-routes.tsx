@@ -5,12 +5,18 @@ import React from "react";
 import { RouteDefinition } from "../../interfaces/route-definition";
 import { UnmatchedRoute } from "../../interfaces/unmatched-route";
 import { AuthenticatedRoute } from "../../interfaces/authenticated-route";
+import { ErrorBoundaryProps } from "../errors/error-boundary";
 
 // -----------------------------------------------------------------------------------------
 // #region Interfaces
 // -----------------------------------------------------------------------------------------
 
 interface NestedRoutesProps extends UnmatchedRoute, AuthenticatedRoute {
+    /**
+     * When supplied, each route component is rendered within an `ErrorBoundary` which is
+     * reset whenever the location changes
+     */
+    errorBoundary?: Omit<ErrorBoundaryProps, "resetKey">;
     routes: RouteDefinition[];
 }
 
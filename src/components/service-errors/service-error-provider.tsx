@@ -0,0 +1,76 @@
+import React, { PropsWithChildren, useMemo } from "react";
+import { ServiceErrorContext } from "../../contexts/service-error-context";
+import { ServiceErrorHandlers } from "../../interfaces/service-error-handlers";
+
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+interface ServiceErrorProviderProps extends ServiceErrorHandlers {}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Component
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Supplies the handlers service hooks rendered beneath it call when a request fails, so common
+ * failures are handled in one place
+ *
+ * @example
+ * <ServiceErrorProvider
+ *     onNetworkError={() => handlePageLoadError("Unable to reach the server")}
+ *     onUnauthorized={() => history.push(siteMap.login)}>
+ *     <App />
+ * </ServiceErrorProvider>
+ */
+const ServiceErrorProvider: React.FC<ServiceErrorProviderProps> = (
+    props: PropsWithChildren<ServiceErrorProviderProps>
+) => {
+    const {
+        children,
+        onError,
+        onForbidden,
+        onNetworkError,
+        onNotFound,
+        onServerError,
+        onUnauthorized,
+    } = props;
+
+    // Memoized so hooks reading the context don't re-render whenever the provider does
+    const handlers = useMemo(
+        () => ({
+            onError,
+            onForbidden,
+            onNetworkError,
+            onNotFound,
+            onServerError,
+            onUnauthorized,
+        }),
+        [
+            onError,
+            onForbidden,
+            onNetworkError,
+            onNotFound,
+            onServerError,
+            onUnauthorized,
+        ]
+    );
+
+    return (
+        <ServiceErrorContext.Provider value={handlers}>
+            {children}
+        </ServiceErrorContext.Provider>
+    );
+};
+
+// #endregion Component
+
+// -----------------------------------------------------------------------------------------
+// #region Exports
+// -----------------------------------------------------------------------------------------
+
+export { ServiceErrorProvider, ServiceErrorProviderProps };
+
+// #endregion Exports
@@ -0,0 +1,23 @@
+import React from "react";
+
+// -----------------------------------------------------------------------------------------
+// #region Context
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Displays an error in the nearest `ErrorBoundary`. Undefined when there is no boundary above
+ * the consuming component.
+ */
+const ErrorBoundaryContext = React.createContext<
+    ((error: any) => void) | undefined
+>(undefined);
+
+// #endregion Context
+
+// -----------------------------------------------------------------------------------------
+// #region Exports
+// -----------------------------------------------------------------------------------------
+
+export { ErrorBoundaryContext };
+
+// #endregion Exports
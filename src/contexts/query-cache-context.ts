@@ -0,0 +1,25 @@
+import React from "react";
+import { QueryCache } from "../interfaces/query-cache";
+import { QueryCacheFactory } from "../services/query-cache-factory";
+
+// -----------------------------------------------------------------------------------------
+// #region Context
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Query cache used by service hooks. Defaults to a single cache shared by the whole app,
+ * which can be replaced for part of the tree with a `QueryCacheProvider`
+ */
+const QueryCacheContext = React.createContext<QueryCache>(
+    QueryCacheFactory.create()
+);
+
+// #endregion Context
+
+// -----------------------------------------------------------------------------------------
+// #region Exports
+// -----------------------------------------------------------------------------------------
+
+export { QueryCacheContext };
+
+// #endregion Exports
@@ -0,0 +1,22 @@
+import React from "react";
+import { ServiceErrorHandlers } from "../interfaces/service-error-handlers";
+
+// -----------------------------------------------------------------------------------------
+// #region Context
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Handlers consulted by service hooks when a request fails. Defaults to no handlers, which can
+ * be supplied for the app (or part of the tree) with a `ServiceErrorProvider`
+ */
+const ServiceErrorContext = React.createContext<ServiceErrorHandlers>({});
+
+// #endregion Context
+
+// -----------------------------------------------------------------------------------------
+// #region Exports
+// -----------------------------------------------------------------------------------------
+
+export { ServiceErrorContext };
+
+// #endregion Exports
@@ -0,0 +1,19 @@
+/**
+ * Strategy used to calculate the delay between retry attempts
+ */
+export enum BackoffStrategy {
+    /**
+     * Waits the base delay between every attempt
+     */
+    Constant = "constant",
+
+    /**
+     * Doubles the base delay after every attempt
+     */
+    Exponential = "exponential",
+
+    /**
+     * Increases the delay by the base delay after every attempt
+     */
+    Linear = "linear",
+}
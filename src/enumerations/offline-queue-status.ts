@@ -0,0 +1,14 @@
+/**
+ * Current activity of an offline mutation queue
+ */
+export enum OfflineQueueStatus {
+    /**
+     * Waiting for mutations to be queued or replayed
+     */
+    Idle = "idle",
+
+    /**
+     * Sending queued mutations, in the order they were queued
+     */
+    Replaying = "replaying",
+}
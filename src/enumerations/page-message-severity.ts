@@ -0,0 +1,8 @@
+/**
+ * Severity of a message displayed on the page
+ */
+export enum PageMessageSeverity {
+    Error = "error",
+    Info = "info",
+    Warning = "warning",
+}
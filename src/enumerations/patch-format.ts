@@ -0,0 +1,15 @@
+/**
+ * Format of the request body sent by a patch service
+ */
+export enum PatchFormat {
+    /**
+     * Array of operations, as described by RFC 6902 (`application/json-patch+json`)
+     */
+    JsonPatch = "application/json-patch+json",
+
+    /**
+     * Object containing only the changed properties, as described by RFC 7396
+     * (`application/merge-patch+json`)
+     */
+    JsonMergePatch = "application/merge-patch+json",
+}
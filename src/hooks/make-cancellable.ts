@@ -1,29 +1,64 @@
-import { PromiseFactory } from "andculturecode-javascript-core";
+import axios, { CancelTokenSource } from "axios";
+
+// ---------------------------------------------------------
+// #region Constants
+// ---------------------------------------------------------
+
+const DEFAULT_CANCELLATION_MESSAGE = "Request cancelled";
+
+// #endregion Constants
 
 // ---------------------------------------------------------
 // #region Public Methods
 // ---------------------------------------------------------
 
 /**
- * Wrap the provided promise in a promise that intercepts cancellation requests
+ * Wrap the provided promise in a promise that intercepts cancellation requests.
+ *
+ * When cancelled, the wrapped promise never settles unless `rejectOnCancel` is set, in which
+ * case it rejects with an `axios.Cancel` (check via `axios.isCancel(error)`). If supplied, the
+ * cancel token source is cancelled so the underlying network request is aborted as well.
+ * @param promise
+ * @param cancelTokenSource Source of the cancel token supplied to the underlying request
+ * @param rejectOnCancel Reject the wrapped promise with an `axios.Cancel` when cancelled
  */
-const makeCancellable = (promise: Promise<any>) => {
+const makeCancellable = <T = any>(
+    promise: Promise<T>,
+    cancelTokenSource?: CancelTokenSource,
+    rejectOnCancel: boolean = false
+) => {
     let isCanceled = false;
+    let rejectWrappedPromise: (reason?: any) => void;
+
+    const wrappedPromise = new Promise<T>((resolve, reject) => {
+        rejectWrappedPromise = reject;
 
-    const wrappedPromise = new Promise((resolve, reject) =>
         promise
-            .then((value: any) =>
-                isCanceled ? PromiseFactory.pending() : resolve(value)
-            )
-            .catch((error: any) =>
-                isCanceled ? PromiseFactory.pending() : reject(error)
-            )
-    );
+            .then((value: T) => {
+                if (!isCanceled) {
+                    resolve(value);
+                }
+            })
+            .catch((error: any) => {
+                if (!isCanceled) {
+                    reject(error);
+                }
+            });
+    });
 
     return {
         promise: wrappedPromise,
-        cancel() {
+        cancel(message: string = DEFAULT_CANCELLATION_MESSAGE) {
+            if (isCanceled) {
+                return;
+            }
+
             isCanceled = true;
+            cancelTokenSource?.cancel(message);
+
+            if (rejectOnCancel) {
+                rejectWrappedPromise(new axios.Cancel(message));
+            }
         },
     };
 };
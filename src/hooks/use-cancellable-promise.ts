@@ -1,7 +1,13 @@
 import { useRef, useEffect } from "react";
-import { PromiseFactory } from "andculturecode-javascript-core";
+import { CancelTokenSource } from "axios";
+import { makeCancellable } from "./make-cancellable";
 
-const useCancellablePromise = () => {
+/**
+ * Tracks cancellable promises for the calling component, cancelling any still pending on unmount
+ * @param rejectOnCancel Reject cancelled promises with an `axios.Cancel` rather than leaving them
+ * pending
+ */
+const useCancellablePromise = (rejectOnCancel: boolean = false) => {
     // -----------------------------------------------------------------------------------------
     // #region Member Variables
     // -----------------------------------------------------------------------------------------
@@ -25,8 +31,7 @@ const useCancellablePromise = () => {
         promises.current = promises.current || [];
 
         return function cancel() {
-            promises.current.forEach((p: any) => p.cancel());
-            promises.current = [];
+            cancelAll();
         };
     }, []);
 
@@ -36,18 +41,46 @@ const useCancellablePromise = () => {
     // #region Public Methods
     // -----------------------------------------------------------------------------------------
 
+    /**
+     * Cancels every tracked promise which has not yet settled
+     */
+    function cancelAll() {
+        const pending = promises.current || [];
+        promises.current = [];
+        pending.forEach((p: any) => p.cancel());
+    }
+
     /**
      * Wraps the supplied promise and tracks its existance for cleanup later on
+     * @param promise
+     * @param cancelTokenSource Source of the cancel token supplied to the underlying request,
+     * cancelled along with the promise to abort the network call
      */
-    function cancellablePromise<T = any>(promise: Promise<T>): Promise<T> {
-        const wrappedPromise = PromiseFactory.cancellable(promise);
+    function cancellablePromise<T = any>(
+        promise: Promise<T>,
+        cancelTokenSource?: CancelTokenSource
+    ): Promise<T> {
+        const wrappedPromise = makeCancellable(
+            promise,
+            cancelTokenSource,
+            rejectOnCancel
+        );
+        const untrack = () => {
+            promises.current = (promises.current || []).filter(
+                (p: any) => p !== wrappedPromise
+            );
+        };
+
+        promises.current = promises.current || [];
         promises.current.push(wrappedPromise);
+        wrappedPromise.promise.then(untrack, untrack);
+
         return wrappedPromise.promise;
     }
 
     // #endregion Public Methods
 
-    return { cancellablePromise };
+    return { cancelAll, cancellablePromise };
 };
 
 // -----------------------------------------------------------------------------------------
@@ -0,0 +1,52 @@
+import React from "react";
+import axios from "axios";
+import { act, render } from "@testing-library/react";
+import { ErrorBoundary } from "../components/errors/error-boundary";
+import { useErrorHandler } from "./use-error-handler";
+
+describe("useErrorHandler", () => {
+    let handleError: (error: any) => void;
+
+    const Page = (props: { name: string }) => {
+        handleError = useErrorHandler();
+        return <p>{props.name}</p>;
+    };
+
+    test("when error is a cancellation, does not render fallback", () => {
+        // Arrange
+        const onError = jest.fn();
+        const { getByText } = render(
+            <ErrorBoundary fallback={<p>Fallback</p>} onError={onError}>
+                <Page name="Content" />
+            </ErrorBoundary>
+        );
+
+        // Act
+        act(() => handleError(new axios.Cancel("Request cancelled")));
+
+        // Assert
+        expect(getByText("Content")).not.toBeNull();
+        expect(onError).not.toHaveBeenCalled();
+    });
+
+    test("when boundaries are nested, renders fallback of the nearest boundary only", () => {
+        // Arrange
+        const { getByText } = render(
+            <ErrorBoundary fallback={<p>Outer Fallback</p>} onError={jest.fn()}>
+                <p>Layout</p>
+                <ErrorBoundary
+                    fallback={<p>Inner Fallback</p>}
+                    onError={jest.fn()}>
+                    <Page name="Content" />
+                </ErrorBoundary>
+            </ErrorBoundary>
+        );
+
+        // Act
+        act(() => handleError(new Error("Rejected")));
+
+        // Assert
+        expect(getByText("Layout")).not.toBeNull();
+        expect(getByText("Inner Fallback")).not.toBeNull();
+    });
+});
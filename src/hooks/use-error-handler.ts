@@ -0,0 +1,52 @@
+import { EnvironmentUtils } from "andculturecode-javascript-core";
+import axios from "axios";
+import { useCallback, useContext, useRef } from "react";
+import { ErrorBoundaryContext } from "../contexts/error-boundary-context";
+
+// -----------------------------------------------------------------------------------------
+// #region Hook
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Returns a function which displays an error in the nearest `ErrorBoundary`, for errors thrown
+ * outside of rendering (ie. a rejected service hook call). Cancelled requests are ignored.
+ *
+ * @example
+ * const handleError = useErrorHandler();
+ *
+ * useEffect(() => {
+ *     get({ id }).then(setRecord).catch(handleError);
+ * }, [get, handleError, id]);
+ */
+const useErrorHandler = () => {
+    // The boundary is read through a ref so the returned function never changes
+    const context = useContext(ErrorBoundaryContext);
+    const showError = useRef(context);
+    showError.current = context;
+
+    return useCallback((error: any) => {
+        if (error == null || axios.isCancel(error)) {
+            return;
+        }
+
+        if (showError.current != null) {
+            showError.current(error);
+            return;
+        }
+
+        EnvironmentUtils.runIfDevelopment(() => {
+            console.error("No error boundary defined.");
+            console.error(error);
+        });
+    }, []);
+};
+
+// #endregion Hook
+
+// -----------------------------------------------------------------------------------------
+// #region Exports
+// -----------------------------------------------------------------------------------------
+
+export { useErrorHandler };
+
+// #endregion Exports
@@ -0,0 +1,244 @@
+import {
+    ResultErrorRecord,
+    ResultRecord,
+} from "andculturecode-javascript-core";
+import { renderHook, act } from "@testing-library/react-hooks";
+import { List, Record } from "immutable";
+import { useFormErrors } from "./use-form-errors";
+
+describe("useFormErrors", () => {
+    const buildResult = (...errors: Array<{ key?: string; message: string }>) =>
+        new ResultRecord<any>().with({
+            errors: errors.map((error) => new ResultErrorRecord().with(error)),
+        });
+
+    // -----------------------------------------------------------------------------------------
+    // #region handleResultErrors
+    // -----------------------------------------------------------------------------------------
+
+    describe("handleResultErrors", () => {
+        test.each`
+            key                   | name
+            ${"name"}             | ${"name"}
+            ${"Name"}             | ${"name"}
+            ${"Addresses[0].Zip"} | ${"addresses[0].zip"}
+            ${"addresses.0.zip"}  | ${"addresses[0].zip"}
+        `(
+            "when error key is $key, maps error to $name field",
+            ({ key, name }) => {
+                // Arrange
+                const { result } = renderHook(() => useFormErrors());
+
+                // Act
+                act(() =>
+                    result.current.handleResultErrors(
+                        buildResult({ key, message: "Error Message" })
+                    )
+                );
+
+                // Assert
+                expect(result.current.getFieldErrors(name)).toEqual([
+                    "Error Message",
+                ]);
+                expect(result.current.hasFieldErrors(name)).toBeTrue();
+                expect(result.current.hasErrors).toBeTrue();
+            }
+        );
+
+        test("when error has no key, adds error to formErrors", () => {
+            // Arrange
+            const { result } = renderHook(() => useFormErrors());
+
+            // Act
+            act(() =>
+                result.current.handleResultErrors(
+                    buildResult({ message: "Error Message" })
+                )
+            );
+
+            // Assert
+            expect(result.current.formErrors).toEqual(["Error Message"]);
+            expect(result.current.fieldErrors).toEqual({});
+        });
+
+        test("when result is string, adds it to formErrors", () => {
+            // Arrange
+            const { result } = renderHook(() => useFormErrors());
+
+            // Act
+            act(() => result.current.handleResultErrors("Error Message"));
+
+            // Assert
+            expect(result.current.formErrors).toEqual(["Error Message"]);
+        });
+    });
+
+    // #endregion handleResultErrors
+
+    // -----------------------------------------------------------------------------------------
+    // #region clearFieldErrors
+    // -----------------------------------------------------------------------------------------
+
+    describe("clearFieldErrors", () => {
+        test("clears errors for field and its children only", () => {
+            // Arrange
+            const { result } = renderHook(() => useFormErrors());
+            act(() =>
+                result.current.handleResultErrors(
+                    buildResult(
+                        { key: "addresses[0].zip", message: "Zip" },
+                        { key: "addresses[1].zip", message: "Zip" },
+                        { key: "name", message: "Name" }
+                    )
+                )
+            );
+
+            // Act
+            act(() => result.current.clearFieldErrors("addresses[0]"));
+
+            // Assert
+            expect(Object.keys(result.current.fieldErrors)).toEqual([
+                "addresses[1].zip",
+                "name",
+            ]);
+        });
+    });
+
+    // #endregion clearFieldErrors
+
+    // -----------------------------------------------------------------------------------------
+    // #region values
+    // -----------------------------------------------------------------------------------------
+
+    describe("values", () => {
+        test("when field value changes, clears its errors", () => {
+            // Arrange
+            const { result, rerender } = renderHook(
+                ({ values }) => useFormErrors(values),
+                {
+                    initialProps: {
+                        values: { addresses: [{ zip: "" }], name: "" },
+                    },
+                }
+            );
+            act(() =>
+                result.current.handleResultErrors(
+                    buildResult(
+                        { key: "Addresses[0].Zip", message: "Zip" },
+                        { key: "Name", message: "Name" }
+                    )
+                )
+            );
+
+            // Act
+            rerender({ values: { addresses: [{ zip: "12345" }], name: "" } });
+
+            // Assert
+            expect(result.current.getFieldErrors("addresses[0].zip")).toEqual(
+                []
+            );
+            expect(result.current.getFieldErrors("name")).toEqual(["Name"]);
+        });
+
+        test("when field value within an Immutable List changes, clears its errors", () => {
+            // Arrange
+            const Address = Record({ street: "" });
+            const Values = Record({ addresses: List<any>() });
+            const { result, rerender } = renderHook(
+                ({ values }) => useFormErrors(values),
+                {
+                    initialProps: {
+                        values: Values({
+                            addresses: List([Address({ street: "" })]),
+                        }),
+                    },
+                }
+            );
+            act(() =>
+                result.current.handleResultErrors(
+                    buildResult({
+                        key: "Addresses[0].Street",
+                        message: "Street",
+                    })
+                )
+            );
+
+            // Act
+            rerender({
+                values: Values({
+                    addresses: List([Address({ street: "Main St" })]),
+                }),
+            });
+
+            // Assert
+            expect(
+                result.current.getFieldErrors("addresses[0].street")
+            ).toEqual([]);
+        });
+
+        test("when Immutable values change elsewhere, keeps field errors", () => {
+            // Arrange
+            const Address = Record({ street: "", zip: "" });
+            const Values = Record({ addresses: List<any>() });
+            const { result, rerender } = renderHook(
+                ({ values }) => useFormErrors(values),
+                {
+                    initialProps: {
+                        values: Values({
+                            addresses: List([Address({ street: "" })]),
+                        }),
+                    },
+                }
+            );
+            act(() =>
+                result.current.handleResultErrors(
+                    buildResult({
+                        key: "Addresses[0].Street",
+                        message: "Street",
+                    })
+                )
+            );
+
+            // Act
+            rerender({
+                values: Values({
+                    addresses: List([Address({ street: "", zip: "12345" })]),
+                }),
+            });
+
+            // Assert
+            expect(
+                result.current.getFieldErrors("addresses[0].street")
+            ).toEqual(["Street"]);
+        });
+    });
+
+    // #endregion values
+
+    // -----------------------------------------------------------------------------------------
+    // #region resetErrors
+    // -----------------------------------------------------------------------------------------
+
+    describe("resetErrors", () => {
+        test("clears all errors", () => {
+            // Arrange
+            const { result } = renderHook(() => useFormErrors());
+            act(() =>
+                result.current.handleResultErrors(
+                    buildResult(
+                        { key: "name", message: "Name" },
+                        { message: "Form" }
+                    )
+                )
+            );
+
+            // Act
+            act(() => result.current.resetErrors());
+
+            // Assert
+            expect(result.current.hasErrors).toBeFalse();
+        });
+    });
+
+    // #endregion resetErrors
+});
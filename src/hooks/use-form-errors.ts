@@ -0,0 +1,208 @@
+import {
+    ResultErrorRecord,
+    ResultRecord,
+    StringUtils,
+} from "andculturecode-javascript-core";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+// -----------------------------------------------------------------------------------------
+// #region Hook
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Hook to map `ResultRecord` errors onto the form fields named by their keys
+ *
+ * Field names may be nested or index into arrays (ie. `addresses[0].zip`), and are matched
+ * regardless of the casing of the first letter of each segment, so a server error keyed
+ * `Addresses[0].Zip` belongs to the `addresses[0].zip` field.
+ *
+ * @param values Optional current form values. When the value of a field with errors changes,
+ * its errors are cleared.
+ */
+export function useFormErrors<TValues = any>(values?: TValues) {
+    const [fieldErrors, setFieldErrors] = useState<Record<string, string[]>>(
+        {}
+    );
+    const [formErrors, setFormErrors] = useState<Array<string>>([]);
+
+    const previousValues = useRef(values);
+
+    const hasErrors = useMemo(
+        () => formErrors.length > 0 || Object.keys(fieldErrors).length > 0,
+        [fieldErrors, formErrors]
+    );
+
+    const clearFieldErrors = useCallback((name: string) => {
+        const fieldName = _normalizeFieldName(name);
+
+        setFieldErrors((fieldErrors: Record<string, string[]>) =>
+            _omitFields(fieldErrors, (key: string) =>
+                _isFieldOrChild(key, fieldName)
+            )
+        );
+    }, []);
+
+    const getFieldErrors = useCallback(
+        (name: string): Array<string> =>
+            fieldErrors[_normalizeFieldName(name)] ?? [],
+        [fieldErrors]
+    );
+
+    /**
+     * Replaces the current errors with those from the supplied result. Errors without a key,
+     * or that are not a `ResultRecord`, are added to `formErrors`.
+     */
+    const handleResultErrors = useCallback((result: any) => {
+        if (!(result instanceof ResultRecord)) {
+            setFieldErrors({});
+            setFormErrors([
+                typeof result === "string" ? result : result.toString(),
+            ]);
+            return;
+        }
+
+        const nextFieldErrors: Record<string, string[]> = {};
+        const nextFormErrors: Array<string> = [];
+
+        (result.errors ?? []).forEach((error: ResultErrorRecord) => {
+            const message = error.message ?? "";
+
+            if (StringUtils.isEmpty(error.key)) {
+                nextFormErrors.push(message);
+                return;
+            }
+
+            const fieldName = _normalizeFieldName(error.key);
+            nextFieldErrors[fieldName] = [
+                ...(nextFieldErrors[fieldName] ?? []),
+                message,
+            ];
+        });
+
+        setFieldErrors(nextFieldErrors);
+        setFormErrors(nextFormErrors);
+    }, []);
+
+    const hasFieldErrors = useCallback(
+        (name: string): boolean => getFieldErrors(name).length > 0,
+        [getFieldErrors]
+    );
+
+    const resetErrors = useCallback(() => {
+        setFieldErrors({});
+        setFormErrors([]);
+    }, []);
+
+    useEffect(() => {
+        const previous = previousValues.current;
+        previousValues.current = values;
+
+        if (previous === values) {
+            return;
+        }
+
+        setFieldErrors((fieldErrors: Record<string, string[]>) => {
+            const changedFields = Object.keys(fieldErrors).filter(
+                (key: string) =>
+                    _getValueAtPath(previous, key) !==
+                    _getValueAtPath(values, key)
+            );
+
+            if (changedFields.length === 0) {
+                return fieldErrors;
+            }
+
+            return _omitFields(fieldErrors, (key: string) =>
+                changedFields.includes(key)
+            );
+        });
+    }, [values]);
+
+    return {
+        clearFieldErrors,
+        fieldErrors,
+        formErrors,
+        getFieldErrors,
+        handleResultErrors,
+        hasErrors,
+        hasFieldErrors,
+        resetErrors,
+        setFieldErrors,
+        setFormErrors,
+    };
+}
+
+// #endregion Hook
+
+// -----------------------------------------------------------------------------------------
+// #region Private Functions
+// -----------------------------------------------------------------------------------------
+
+const _getPathSegments = (path: string): Array<string> =>
+    path.match(/[^.[\]]+/g) ?? [];
+
+/**
+ * Reads the value at the path, switching to `getIn` once it reaches an Immutable collection or
+ * record, as the items of an Immutable `List` can't be read by index
+ */
+const _getValueAtPath = (values: any, path: string): any => {
+    const segments = _getPathSegments(path);
+    let value = values;
+
+    for (let index = 0; index < segments.length; index++) {
+        if (value == null) {
+            return undefined;
+        }
+
+        if (_isImmutable(value)) {
+            return value.getIn(segments.slice(index));
+        }
+
+        value = value[segments[index]];
+    }
+
+    return value;
+};
+
+const _isImmutable = (value: any): boolean =>
+    typeof value?.getIn === "function";
+
+const _isFieldOrChild = (key: string, fieldName: string): boolean =>
+    key === fieldName ||
+    key.startsWith(`${fieldName}.`) ||
+    key.startsWith(`${fieldName}[`);
+
+/**
+ * Converts the path into the form `addresses[0].zip`, regardless of whether it was supplied as
+ * `Addresses[0].Zip` or `addresses.0.zip`
+ */
+const _normalizeFieldName = (path: string): string =>
+    _getPathSegments(path).reduce(
+        (fieldName: string, segment: string) =>
+            /^\d+$/.test(segment)
+                ? `${fieldName}[${segment}]`
+                : fieldName.length > 0
+                ? `${fieldName}.${StringUtils.lowerFirst(segment)}`
+                : StringUtils.lowerFirst(segment),
+        ""
+    );
+
+const _omitFields = (
+    fieldErrors: Record<string, string[]>,
+    shouldOmit: (key: string) => boolean
+): Record<string, string[]> => {
+    const keys = Object.keys(fieldErrors);
+    if (!keys.some(shouldOmit)) {
+        return fieldErrors;
+    }
+
+    return keys.reduce(
+        (remaining: Record<string, string[]>, key: string) =>
+            shouldOmit(key)
+                ? remaining
+                : { ...remaining, [key]: fieldErrors[key] },
+        {}
+    );
+};
+
+// #endregion Private Functions
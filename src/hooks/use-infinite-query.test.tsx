@@ -0,0 +1,357 @@
+import { renderHook, act } from "@testing-library/react-hooks";
+import { CoreUtils } from "andculturecode-javascript-core";
+import { useInfiniteQuery } from "./use-infinite-query";
+
+describe("useInfiniteQuery", () => {
+    const buildPage = (ids: number[], rowCount: number = ids.length) => ({
+        resultObjects: ids.map((id: number) => ({ id })),
+        rowCount,
+    });
+
+    const setupList = (...pages: Array<ReturnType<typeof buildPage>>) => {
+        const list = jest.fn();
+        pages.forEach((page) => list.mockResolvedValueOnce(page));
+        list.mockResolvedValue(buildPage([]));
+        const serviceHook = () => ({ list });
+
+        return { list, serviceHook };
+    };
+
+    /**
+     * Replaces IntersectionObserver, which jsdom does not implement, returning a function to
+     * report the observed sentinel as visible
+     */
+    const setupIntersectionObserver = () => {
+        let callback: IntersectionObserverCallback;
+        (window as any).IntersectionObserver = jest.fn(
+            (observerCallback: IntersectionObserverCallback) => {
+                callback = observerCallback;
+                return { disconnect: jest.fn(), observe: jest.fn() };
+            }
+        );
+
+        return () => callback([{ isIntersecting: true } as any], {} as any);
+    };
+
+    afterEach(() => {
+        delete (window as any).IntersectionObserver;
+    });
+
+    // -----------------------------------------------------------------------------------------
+    // #region initialization
+    // -----------------------------------------------------------------------------------------
+
+    describe("initialization", () => {
+        test("lists first page using skip and take", async () => {
+            // Arrange
+            const { list, serviceHook } = setupList(buildPage([1, 2], 4));
+
+            // Act
+            const { result, waitForNextUpdate } = renderHook(() =>
+                useInfiniteQuery({
+                    initialQuery: { name: "test" },
+                    pageSize: 2,
+                    serviceHook,
+                })
+            );
+            await waitForNextUpdate();
+
+            // Assert
+            expect(list).toHaveBeenCalledWith({
+                name: "test",
+                skip: 0,
+                take: 2,
+            });
+            expect(result.current.values).toEqual([{ id: 1 }, { id: 2 }]);
+            expect(result.current.hasNextPage).toBeTrue();
+        });
+
+        test("when request fails, sets error and calls onError", async () => {
+            // Arrange
+            const expected = new Error("failed");
+            const list = jest.fn(() => Promise.reject(expected));
+            const onError = jest.fn();
+
+            // Act
+            const { result, waitForNextUpdate } = renderHook(() =>
+                useInfiniteQuery({
+                    initialQuery: {},
+                    onError,
+                    serviceHook: () => ({ list }),
+                })
+            );
+            await waitForNextUpdate();
+
+            // Assert
+            expect(result.current.error).toBe(expected);
+            expect(result.current.loading).toBeFalse();
+            expect(onError).toHaveBeenCalledWith(undefined, expected);
+        });
+    });
+
+    // #endregion initialization
+
+    // -----------------------------------------------------------------------------------------
+    // #region fetchNextPage
+    // -----------------------------------------------------------------------------------------
+
+    describe("fetchNextPage", () => {
+        test("appends next page to values", async () => {
+            // Arrange
+            const { list, serviceHook } = setupList(
+                buildPage([1, 2], 4),
+                buildPage([3, 4], 4)
+            );
+            const { result, waitForNextUpdate } = renderHook(() =>
+                useInfiniteQuery({ initialQuery: {}, pageSize: 2, serviceHook })
+            );
+            await waitForNextUpdate();
+
+            // Act
+            act(() => result.current.fetchNextPage());
+            await waitForNextUpdate();
+
+            // Assert
+            expect(list).toHaveBeenLastCalledWith({ skip: 2, take: 2 });
+            expect(result.current.values).toHaveLength(4);
+            expect(result.current.hasNextPage).toBeFalse();
+        });
+
+        test("when pages overlap, de-duplicates records by id", async () => {
+            // Arrange
+            const { serviceHook } = setupList(
+                buildPage([1, 2]),
+                buildPage([2, 3], 1)
+            );
+            const { result, waitForNextUpdate } = renderHook(() =>
+                useInfiniteQuery({ initialQuery: {}, pageSize: 2, serviceHook })
+            );
+            await waitForNextUpdate();
+
+            // Act
+            act(() => result.current.fetchNextPage());
+            await waitForNextUpdate();
+
+            // Assert
+            expect(result.current.values).toEqual([
+                { id: 1 },
+                { id: 2 },
+                { id: 3 },
+            ]);
+        });
+
+        test("when last page is shorter than pageSize, hasNextPage is false", async () => {
+            // Arrange
+            const { list, serviceHook } = setupList(buildPage([1]));
+            const { result, waitForNextUpdate } = renderHook(() =>
+                useInfiniteQuery({ initialQuery: {}, pageSize: 2, serviceHook })
+            );
+            await waitForNextUpdate();
+
+            // Act
+            act(() => result.current.fetchNextPage());
+
+            // Assert
+            expect(result.current.hasNextPage).toBeFalse();
+            expect(list).toHaveBeenCalledTimes(1);
+        });
+
+        test("when getNextPageParam supplied, requests next page by cursor", async () => {
+            // Arrange
+            const { list, serviceHook } = setupList(
+                buildPage([1, 2]),
+                buildPage([3])
+            );
+            const { result, waitForNextUpdate } = renderHook(() =>
+                useInfiniteQuery({
+                    getNextPageParam: (lastPage) =>
+                        lastPage.resultObjects.length > 1
+                            ? lastPage.resultObjects[1].id
+                            : undefined,
+                    initialQuery: {},
+                    serviceHook,
+                    toQueryParams: (query: any, after) => ({ ...query, after }),
+                })
+            );
+            await waitForNextUpdate();
+
+            // Act
+            act(() => result.current.fetchNextPage());
+            await waitForNextUpdate();
+
+            // Assert
+            expect(list).toHaveBeenNthCalledWith(1, { after: undefined });
+            expect(list).toHaveBeenNthCalledWith(2, { after: 2 });
+            expect(result.current.hasNextPage).toBeFalse();
+        });
+
+        test("when records have no id, keeps every record", async () => {
+            // Arrange
+            const list = jest.fn(() =>
+                Promise.resolve({
+                    resultObjects: [{ name: "a" }, { name: "b" }, { id: 1 }],
+                    rowCount: 3,
+                })
+            );
+            const { result, waitForNextUpdate } = renderHook(() =>
+                useInfiniteQuery({
+                    initialQuery: {},
+                    serviceHook: () => ({ list }),
+                })
+            );
+
+            // Act
+            await waitForNextUpdate();
+
+            // Assert
+            expect(result.current.values).toEqual([
+                { name: "a" },
+                { name: "b" },
+                { id: 1 },
+            ]);
+        });
+    });
+
+    // #endregion fetchNextPage
+
+    // -----------------------------------------------------------------------------------------
+    // #region sentinelRef
+    // -----------------------------------------------------------------------------------------
+
+    describe("sentinelRef", () => {
+        test("when sentinel is visible, loads pages until there is no next page", async () => {
+            // Arrange
+            const intersect = setupIntersectionObserver();
+            const { list, serviceHook } = setupList(
+                buildPage([1, 2], 6),
+                buildPage([3, 4], 6),
+                buildPage([5, 6], 6)
+            );
+            const { result, waitFor, waitForNextUpdate } = renderHook(() =>
+                useInfiniteQuery({ initialQuery: {}, pageSize: 2, serviceHook })
+            );
+            await waitForNextUpdate();
+
+            // Act
+            act(() => {
+                result.current.sentinelRef(document.createElement("div"));
+                intersect();
+            });
+            await waitFor(() => !result.current.hasNextPage);
+
+            // Assert
+            expect(result.current.values).toHaveLength(6);
+            expect(list).toHaveBeenCalledTimes(3);
+        });
+
+        test("when a page fails to load, stops loading until fetchNextPage is called", async () => {
+            // Arrange
+            const intersect = setupIntersectionObserver();
+            const onError = jest.fn();
+            const list = jest
+                .fn()
+                .mockResolvedValueOnce(buildPage([1, 2], 4))
+                .mockRejectedValueOnce(new Error("failed"))
+                .mockResolvedValueOnce(buildPage([3, 4], 4));
+            const { result, waitFor, waitForNextUpdate } = renderHook(() =>
+                useInfiniteQuery({
+                    initialQuery: {},
+                    onError,
+                    pageSize: 2,
+                    serviceHook: () => ({ list }),
+                })
+            );
+            await waitForNextUpdate();
+
+            // Act
+            await act(async () => {
+                result.current.sentinelRef(document.createElement("div"));
+                intersect();
+                await CoreUtils.sleep(50);
+            });
+
+            // Assert
+            expect(onError).toHaveBeenCalledTimes(1);
+            expect(list).toHaveBeenCalledTimes(2);
+
+            // Act
+            act(() => result.current.fetchNextPage());
+            await waitFor(() => !result.current.hasNextPage);
+
+            // Assert
+            expect(result.current.values).toHaveLength(4);
+            expect(list).toHaveBeenCalledTimes(3);
+        });
+    });
+
+    // #endregion sentinelRef
+
+    // -----------------------------------------------------------------------------------------
+    // #region setQuery
+    // -----------------------------------------------------------------------------------------
+
+    describe("setQuery", () => {
+        test("discards loaded pages and lists first page", async () => {
+            // Arrange
+            const { list, serviceHook } = setupList(
+                buildPage([1, 2], 4),
+                buildPage([5])
+            );
+            const { result, waitForNextUpdate } = renderHook(() =>
+                useInfiniteQuery({
+                    initialQuery: { name: "a" },
+                    pageSize: 2,
+                    serviceHook,
+                })
+            );
+            await waitForNextUpdate();
+
+            // Act
+            act(() => result.current.setQuery({ name: "b" }));
+            await waitForNextUpdate();
+
+            // Assert
+            expect(list).toHaveBeenLastCalledWith({
+                name: "b",
+                skip: 0,
+                take: 2,
+            });
+            expect(result.current.values).toEqual([{ id: 5 }]);
+        });
+
+        test("when discarded request fails, ignores the error", async () => {
+            // Arrange
+            let rejectFirst: (error: any) => void = () => {};
+            const list = jest
+                .fn()
+                .mockReturnValueOnce(
+                    new Promise((resolve, reject) => (rejectFirst = reject))
+                )
+                .mockResolvedValue(buildPage([5]));
+            const onError = jest.fn();
+            const { result, waitForNextUpdate } = renderHook(() =>
+                useInfiniteQuery({
+                    initialQuery: { name: "a" },
+                    onError,
+                    pageSize: 2,
+                    serviceHook: () => ({ list }),
+                })
+            );
+
+            // Act
+            act(() => result.current.setQuery({ name: "b" }));
+            await waitForNextUpdate();
+            await act(async () => {
+                rejectFirst(new Error("failed"));
+                await CoreUtils.sleep(10);
+            });
+
+            // Assert
+            expect(onError).not.toHaveBeenCalled();
+            expect(result.current.error).toBeUndefined();
+            expect(result.current.values).toEqual([{ id: 5 }]);
+        });
+    });
+
+    // #endregion setQuery
+});
@@ -0,0 +1,297 @@
+import {
+    Do,
+    PagedQuery,
+    ResultRecord,
+    ServiceResponse,
+} from "andculturecode-javascript-core";
+import axios from "axios";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { UseInfiniteQueryOptions } from "../interfaces/use-infinite-query-options";
+import { ListService } from "../types/list-service-type";
+import { NestedListService } from "../types/nested-list-service-type";
+import { useLatestRequest } from "./use-latest-request";
+import { useServiceErrorCallback } from "./use-service-error-callback";
+
+// -----------------------------------------------------------------------------------------
+// #region Constants
+// -----------------------------------------------------------------------------------------
+
+const DEFAULT_PAGE_SIZE = 20;
+
+// #endregion Constants
+
+// -----------------------------------------------------------------------------------------
+// #region Hook
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Hook to list records one page at a time, accumulating every loaded page into `values`.
+ * Attach `sentinelRef` to an element after the list to load the next page automatically
+ * when it scrolls into view.
+ */
+export function useInfiniteQuery<
+    TRecord,
+    TQueryParams,
+    TPathParams = undefined
+>(options: UseInfiniteQueryOptions<TRecord, TQueryParams, TPathParams>) {
+    const {
+        enabled = true,
+        getNextPageParam = _getNextSkip,
+        idProperty = "id",
+        initialPathParams,
+        initialQuery,
+        keepPreviousData = false,
+        pageSize = DEFAULT_PAGE_SIZE,
+        rootMargin,
+        serviceHook,
+        toQueryParams = _toSkipTakeQuery,
+    } = options;
+
+    const { list: listApi } = serviceHook();
+
+    const { handlers, startRequest } = useLatestRequest(options);
+
+    /**
+     * Set when a page fails to load, so it is not automatically retried while the sentinel
+     * stays visible. Cleared once `fetchNextPage` or `refetch` loads another page.
+     */
+    const hasFailed = useRef(false);
+    const isLoading = useRef(false);
+    const isSentinelVisible = useRef(false);
+    const observer = useRef<IntersectionObserver>();
+
+    const [error, setError] = useState<any>();
+    const [loading, setLoading] = useState(enabled);
+    const [pages, setPages] = useState<Array<ServiceResponse<TRecord>>>([]);
+    const [pathParams, setPathParams] = useState(initialPathParams);
+    const [query, setQuery] = useState(initialQuery);
+
+    const nextPageParam =
+        pages.length > 0
+            ? getNextPageParam(pages[pages.length - 1], pages, pageSize)
+            : undefined;
+    const hasNextPage = nextPageParam !== undefined;
+
+    const values = useMemo(() => _distinctById(pages, idProperty), [
+        idProperty,
+        pages,
+    ]);
+
+    const handleError = useServiceErrorCallback(
+        handlers,
+        (result?: ResultRecord<TRecord>, error?: any) =>
+            setError(result ?? error)
+    );
+
+    const loadPage = useCallback(
+        (pageParam: any, previousPages: Array<ServiceResponse<TRecord>>) => {
+            const isCurrent = startRequest();
+            const queryParams = toQueryParams(query, pageParam, pageSize);
+
+            hasFailed.current = false;
+            isLoading.current = true;
+            setError(undefined);
+            setLoading(true);
+
+            Do.try(async () => {
+                const response =
+                    pathParams == null
+                        ? await (listApi as ListService<TRecord, TQueryParams>)(
+                              queryParams
+                          )
+                        : await (listApi as NestedListService<
+                              TRecord,
+                              TPathParams,
+                              TQueryParams
+                          >)(pathParams, queryParams);
+
+                if (!isCurrent()) {
+                    return;
+                }
+
+                setPages([...previousPages, response]);
+                handlers.current.onSuccess?.(response.resultObjects);
+            })
+                .catch((result?: ResultRecord<TRecord>, error?: any) => {
+                    if (!isCurrent()) {
+                        return;
+                    }
+
+                    if (!axios.isCancel(error)) {
+                        hasFailed.current = true;
+                    }
+
+                    handleError(result, error);
+                })
+                .finally(() => {
+                    if (isCurrent()) {
+                        isLoading.current = false;
+                        setLoading(false);
+                    }
+                });
+        },
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+        [handleError, listApi, pageSize, pathParams, query]
+    );
+
+    // Starting from the first page discards any page still loading
+    const refetch = useCallback(() => loadPage(undefined, []), [loadPage]);
+
+    useEffect(() => {
+        if (!enabled) {
+            return;
+        }
+
+        if (!keepPreviousData) {
+            setPages([]);
+        }
+
+        refetch();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [enabled, refetch]);
+
+    const fetchNextPage = useCallback(() => {
+        if (isLoading.current || !hasNextPage) {
+            return;
+        }
+
+        loadPage(nextPageParam, pages);
+    }, [hasNextPage, loadPage, nextPageParam, pages]);
+
+    const fetchNextPageRef = useRef(fetchNextPage);
+    fetchNextPageRef.current = fetchNextPage;
+
+    /**
+     * Loads the next page while the sentinel is visible, unless the last page failed to load
+     */
+    const autoFetchNextPage = useCallback(() => {
+        if (isSentinelVisible.current && !hasFailed.current) {
+            fetchNextPageRef.current();
+        }
+    }, []);
+
+    // Keep loading while the sentinel is still visible after a page is appended
+    useEffect(() => {
+        if (!loading) {
+            autoFetchNextPage();
+        }
+    }, [autoFetchNextPage, loading]);
+
+    const sentinelRef = useCallback(
+        (element: Element | null) => {
+            observer.current?.disconnect();
+            isSentinelVisible.current = false;
+
+            if (
+                element == null ||
+                typeof IntersectionObserver === "undefined"
+            ) {
+                return;
+            }
+
+            observer.current = new IntersectionObserver(
+                (entries: IntersectionObserverEntry[]) => {
+                    isSentinelVisible.current = entries.some(
+                        (entry: IntersectionObserverEntry) =>
+                            entry.isIntersecting
+                    );
+
+                    autoFetchNextPage();
+                },
+                { rootMargin }
+            );
+            observer.current.observe(element);
+        },
+        [autoFetchNextPage, rootMargin]
+    );
+
+    useEffect(() => () => observer.current?.disconnect(), []);
+
+    return {
+        error,
+        fetchNextPage,
+        hasNextPage,
+        loading,
+        pathParams,
+        query,
+        refetch,
+        sentinelRef,
+        setPathParams,
+        setQuery,
+        values,
+    };
+}
+
+// #endregion Hook
+
+// -----------------------------------------------------------------------------------------
+// #region Private Functions
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Flattens the pages into a single array, keeping only the first record with each id and
+ * every record without one
+ */
+const _distinctById = <TRecord>(
+    pages: Array<ServiceResponse<TRecord>>,
+    idProperty: string
+): Array<TRecord> => {
+    const ids = new Set<any>();
+    const records: Array<TRecord> = [];
+
+    pages.forEach((page: ServiceResponse<TRecord>) =>
+        page.resultObjects.forEach((record: TRecord) => {
+            const id = (record as any)?.[idProperty];
+
+            // Records without an id can't be matched, so are always kept
+            if (id != null) {
+                if (ids.has(id)) {
+                    return;
+                }
+
+                ids.add(id);
+            }
+
+            records.push(record);
+        })
+    );
+
+    return records;
+};
+
+/**
+ * Returns the number of records loaded so far, or `undefined` once the last page is loaded.
+ * A `rowCount` greater than the page length is treated as the total number of records,
+ * otherwise a page shorter than `pageSize` is the last.
+ */
+const _getNextSkip = <TRecord>(
+    lastPage: ServiceResponse<TRecord>,
+    pages: Array<ServiceResponse<TRecord>>,
+    pageSize: number
+) => {
+    const loadedCount = pages.reduce(
+        (count: number, page: ServiceResponse<TRecord>) =>
+            count + page.resultObjects.length,
+        0
+    );
+
+    const hasMore =
+        lastPage.rowCount > lastPage.resultObjects.length
+            ? loadedCount < lastPage.rowCount
+            : lastPage.resultObjects.length >= pageSize;
+
+    return hasMore ? loadedCount : undefined;
+};
+
+const _toSkipTakeQuery = <TQueryParams>(
+    query: TQueryParams,
+    skip: any,
+    pageSize: number
+): TQueryParams =>
+    ({
+        ...query,
+        skip: skip ?? 0,
+        take: pageSize,
+    } as TQueryParams & PagedQuery);
+
+// #endregion Private Functions
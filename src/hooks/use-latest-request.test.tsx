@@ -0,0 +1,43 @@
+import { renderHook } from "@testing-library/react-hooks";
+import { useLatestRequest } from "./use-latest-request";
+
+describe("useLatestRequest", () => {
+    test("returns the latest options through handlers", () => {
+        // Arrange
+        const { rerender, result } = renderHook(
+            (props: { name: string }) => useLatestRequest(props),
+            { initialProps: { name: "first" } }
+        );
+
+        // Act
+        rerender({ name: "second" });
+
+        // Assert
+        expect(result.current.handlers.current.name).toBe("second");
+    });
+
+    test("when another request starts, previous request is no longer current", () => {
+        // Arrange
+        const { result } = renderHook(() => useLatestRequest({}));
+
+        // Act
+        const isFirstCurrent = result.current.startRequest();
+        const isSecondCurrent = result.current.startRequest();
+
+        // Assert
+        expect(isFirstCurrent()).toBeFalse();
+        expect(isSecondCurrent()).toBeTrue();
+    });
+
+    test("when unmounted, request is no longer current", () => {
+        // Arrange
+        const { result, unmount } = renderHook(() => useLatestRequest({}));
+        const isCurrent = result.current.startRequest();
+
+        // Act
+        unmount();
+
+        // Assert
+        expect(isCurrent()).toBeFalse();
+    });
+});
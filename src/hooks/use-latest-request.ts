@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useRef } from "react";
+
+// -----------------------------------------------------------------------------------------
+// #region Hook
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Shared request tracking for the query hooks (ie. `useQuery`, `useRecord`)
+ *
+ * - `handlers` holds the latest options, so inline callbacks (ie. `onSuccess`) are read when a
+ *   request settles rather than triggering a new request whenever they change
+ * - `startRequest` is called at the start of each request, returning a function which is `true`
+ *   until another request starts or the calling component unmounts, so responses to superseded
+ *   requests are ignored
+ * @param options Options of the calling hook
+ */
+const useLatestRequest = <TOptions>(options: TOptions) => {
+    const handlers = useRef(options);
+    handlers.current = options;
+
+    const requestCount = useRef(0);
+
+    const startRequest = useCallback(() => {
+        const currentRequest = ++requestCount.current;
+
+        return () => currentRequest === requestCount.current;
+    }, []);
+
+    useEffect(
+        () => () => {
+            requestCount.current++;
+        },
+        []
+    );
+
+    return { handlers, startRequest };
+};
+
+// #endregion Hook
+
+// -----------------------------------------------------------------------------------------
+// #region Exports
+// -----------------------------------------------------------------------------------------
+
+export { useLatestRequest };
+
+// #endregion Exports
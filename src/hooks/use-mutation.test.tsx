@@ -0,0 +1,183 @@
+import {
+    ResultErrorRecord,
+    ResultRecord,
+} from "andculturecode-javascript-core";
+import { renderHook, act } from "@testing-library/react-hooks";
+import { useMutation } from "./use-mutation";
+
+describe("useMutation", () => {
+    // -----------------------------------------------------------------------------------------
+    // #region mutate
+    // -----------------------------------------------------------------------------------------
+
+    describe("mutate", () => {
+        test("calls mutation with params and sets result", async () => {
+            // Arrange
+            const response = { resultObject: { id: 1 } };
+            const create = jest.fn((record: any) => Promise.resolve(response));
+            const onSettled = jest.fn();
+            const onSuccess = jest.fn();
+            const { result } = renderHook(() =>
+                useMutation(create as any, { onSettled, onSuccess })
+            );
+
+            // Act
+            let returned: any;
+            await act(async () => {
+                returned = await result.current.mutate({ name: "test" });
+            });
+
+            // Assert
+            expect(create).toHaveBeenCalledWith({ name: "test" });
+            expect(returned).toBe(response);
+            expect(result.current.result).toBe(response);
+            expect(result.current.isSuccess).toBeTrue();
+            expect(result.current.isLoading).toBeFalse();
+            expect(onSuccess).toHaveBeenCalledWith(response, { name: "test" });
+            expect(onSettled).toHaveBeenCalledTimes(1);
+        });
+
+        test("sets isLoading while in flight", async () => {
+            // Arrange
+            let resolve: (value: any) => void = () => {};
+            const update = jest.fn(
+                () => new Promise((resolver) => (resolve = resolver))
+            );
+            const { result, waitForNextUpdate } = renderHook(() =>
+                useMutation(update as any)
+            );
+
+            // Act
+            act(() => {
+                result.current.mutate();
+            });
+            const isLoading = result.current.isLoading;
+            resolve({});
+            await waitForNextUpdate();
+
+            // Assert
+            expect(isLoading).toBeTrue();
+            expect(result.current.isLoading).toBeFalse();
+        });
+
+        test("when mutation fails with ResultRecord, sets error and errors", async () => {
+            // Arrange
+            const resultRecord = new ResultRecord<any>().with({
+                errors: [
+                    new ResultErrorRecord().with({ message: "Error Message" }),
+                ],
+            });
+            const onError = jest.fn();
+            const onSettled = jest.fn();
+            const deleteFn = jest.fn(() => Promise.reject(resultRecord));
+            const { result } = renderHook(() =>
+                useMutation(deleteFn as any, { onError, onSettled })
+            );
+
+            // Act
+            let returned: any;
+            await act(async () => {
+                returned = await result.current.mutate(1);
+            });
+
+            // Assert
+            expect(returned).toBeUndefined();
+            expect(result.current.error).toBe(resultRecord);
+            expect(result.current.errors).toEqual(
+                resultRecord.listErrorMessages()
+            );
+            expect(result.current.isSuccess).toBeFalse();
+            expect(onError).toHaveBeenCalledWith(resultRecord, undefined);
+            expect(onSettled).toHaveBeenCalledTimes(1);
+        });
+
+        test("when request fails with errors in the response, sets their messages as errors", async () => {
+            // Arrange
+            const axiosError = {
+                isAxiosError: true,
+                response: {
+                    data: {
+                        errors: [
+                            { key: "Name", message: "Name is required" },
+                            { key: "Email", message: "" },
+                        ],
+                    },
+                    status: 400,
+                },
+            };
+            const onError = jest.fn();
+            const createFn = jest.fn(() => Promise.reject(axiosError));
+            const { result } = renderHook(() =>
+                useMutation(createFn as any, { onError })
+            );
+
+            // Act
+            await act(async () => {
+                await result.current.mutate({});
+            });
+
+            // Assert
+            expect(result.current.error).toBe(axiosError);
+            expect(result.current.errors).toEqual(["Name is required"]);
+        });
+
+        test("when response result contains errors, treats it as a failure", async () => {
+            // Arrange
+            const resultRecord = new ResultRecord<any>().with({
+                errors: [
+                    new ResultErrorRecord().with({ message: "Error Message" }),
+                ],
+            });
+            const onError = jest.fn();
+            const onSuccess = jest.fn();
+            const updateFn = jest.fn(() =>
+                Promise.resolve({ result: resultRecord })
+            );
+            const { result } = renderHook(() =>
+                useMutation(updateFn as any, { onError, onSuccess })
+            );
+
+            // Act
+            let returned: any;
+            await act(async () => {
+                returned = await result.current.mutate({});
+            });
+
+            // Assert
+            expect(returned).toBeUndefined();
+            expect(result.current.isSuccess).toBeFalse();
+            expect(result.current.errors).toEqual(["Error Message"]);
+            expect(onError).toHaveBeenCalledWith(resultRecord, undefined);
+            expect(onSuccess).not.toHaveBeenCalled();
+        });
+    });
+
+    // #endregion mutate
+
+    // -----------------------------------------------------------------------------------------
+    // #region reset
+    // -----------------------------------------------------------------------------------------
+
+    describe("reset", () => {
+        test("clears result and error state", async () => {
+            // Arrange
+            const create = jest.fn(() => Promise.reject("Error Message"));
+            const { result } = renderHook(() =>
+                useMutation(create as any, { onError: jest.fn() })
+            );
+            await act(async () => {
+                await result.current.mutate();
+            });
+
+            // Act
+            act(() => result.current.reset());
+
+            // Assert
+            expect(result.current.error).toBeUndefined();
+            expect(result.current.errors).toHaveLength(0);
+            expect(result.current.result).toBeUndefined();
+        });
+    });
+
+    // #endregion reset
+});
@@ -0,0 +1,161 @@
+import {
+    Do,
+    ResultRecord,
+    ServiceResponse,
+} from "andculturecode-javascript-core";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { UseMutationOptions } from "../interfaces/use-mutation-options";
+import { useServiceErrorCallback } from "./use-service-error-callback";
+
+// -----------------------------------------------------------------------------------------
+// #region Hook
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Hook to track the lifecycle of a mutation service function, such as the `create`, `delete`
+ * or `update` function returned from a `ServiceHookFactory` hook
+ *
+ * @example
+ * const { create } = UserService.useCreate();
+ * const { errors, isLoading, mutate } = useMutation(create, {
+ *     onSuccess: () => history.push(siteMap.users.index),
+ * });
+ */
+export function useMutation<TParams extends any[], TRecord>(
+    mutationFn: (...params: TParams) => Promise<ServiceResponse<TRecord>>,
+    options: UseMutationOptions<TParams, TRecord> = {}
+) {
+    // Handlers are read through a ref so inline callbacks do not change `mutate`
+    const handlers = useRef(options);
+    handlers.current = options;
+
+    const isMounted = useRef(true);
+
+    const [error, setError] = useState<any>();
+    const [errors, setErrors] = useState<Array<string>>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSuccess, setIsSuccess] = useState(false);
+    const [result, setResult] = useState<ServiceResponse<TRecord>>();
+
+    const handleError = useServiceErrorCallback(
+        handlers,
+        (result?: ResultRecord<TRecord>, error?: any) => {
+            if (isMounted.current) {
+                setError(result ?? error);
+                setErrors(_toErrorMessages(result ?? error));
+            }
+        }
+    );
+
+    /**
+     * Calls the mutation service function, resolving with its response or `undefined` when
+     * it fails. A response whose result contains errors is treated as a failure.
+     */
+    const mutate = useCallback(
+        async (
+            ...params: TParams
+        ): Promise<ServiceResponse<TRecord> | undefined> => {
+            let response: ServiceResponse<TRecord> | undefined;
+
+            setError(undefined);
+            setErrors([]);
+            setIsLoading(true);
+            setIsSuccess(false);
+
+            await Do.try(async () => {
+                const mutationResponse = await mutationFn(...params);
+
+                const resultWithErrors = _getResultWithErrors(mutationResponse);
+                if (resultWithErrors != null) {
+                    throw resultWithErrors;
+                }
+
+                response = mutationResponse;
+
+                if (isMounted.current) {
+                    setResult(response);
+                    setIsSuccess(true);
+                }
+
+                handlers.current.onSuccess?.(response, ...params);
+            })
+                .catch(handleError)
+                .finally(() => {
+                    if (isMounted.current) {
+                        setIsLoading(false);
+                    }
+
+                    handlers.current.onSettled?.();
+                })
+                .getAwaiter();
+
+            return response;
+        },
+        [handleError, mutationFn]
+    );
+
+    const reset = useCallback(() => {
+        setError(undefined);
+        setErrors([]);
+        setIsLoading(false);
+        setIsSuccess(false);
+        setResult(undefined);
+    }, []);
+
+    useEffect(
+        () => () => {
+            isMounted.current = false;
+        },
+        []
+    );
+
+    return {
+        error,
+        errors,
+        isLoading,
+        isSuccess,
+        mutate,
+        reset,
+        result,
+    };
+}
+
+// #endregion Hook
+
+// -----------------------------------------------------------------------------------------
+// #region Private Functions
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Returns the result of the response when it contains errors
+ */
+const _getResultWithErrors = <TRecord>(
+    response?: ServiceResponse<TRecord>
+): ResultRecord<any> | undefined => {
+    const result = response?.result ?? response?.results;
+
+    return result?.hasErrors() === true ? result : undefined;
+};
+
+/**
+ * Maps the error into messages the same way as `usePageErrors`, reading the `ResultRecord`
+ * returned in the body of a failed request when there is one
+ */
+const _toErrorMessages = (error: any): Array<string> => {
+    if (error instanceof ResultRecord) {
+        return error.listErrorMessages();
+    }
+
+    const data = error?.response?.data;
+    if (Array.isArray(data?.errors)) {
+        return new ResultRecord(data).listErrorMessages();
+    }
+
+    if (typeof error === "string") {
+        return [error];
+    }
+
+    return error != null ? [error.toString()] : [];
+};
+
+// #endregion Private Functions
@@ -0,0 +1,55 @@
+import { HttpVerb } from "andculturecode-javascript-core";
+import { renderHook, act } from "@testing-library/react-hooks";
+import { OfflineQueueStatus } from "../enumerations/offline-queue-status";
+import { OfflineQueueFactory } from "../services/offline-queue-factory";
+import { useOfflineQueue } from "./use-offline-queue";
+
+describe("useOfflineQueue", () => {
+    const buildOfflineQueue = (client?: any) =>
+        OfflineQueueFactory.create({
+            client,
+            replayOnReconnect: false,
+            storage: {
+                getItem: () => null,
+                removeItem: () => {},
+                setItem: () => {},
+            },
+        });
+
+    test("when mutation queued, returns pending count", () => {
+        // Arrange
+        const offlineQueue = buildOfflineQueue();
+        const { result } = renderHook(() => useOfflineQueue(offlineQueue));
+
+        // Act
+        act(() => {
+            offlineQueue.enqueue({ method: HttpVerb.Delete, url: "records/1" });
+        });
+
+        // Assert
+        expect(result.current.pendingCount).toBe(1);
+        expect(result.current.pendingMutations[0].url).toBe("records/1");
+    });
+
+    test("when replaying, returns replaying status until complete", async () => {
+        // Arrange
+        const client = { request: jest.fn(() => Promise.resolve({})) };
+        const offlineQueue = buildOfflineQueue(client);
+        offlineQueue.enqueue({ method: HttpVerb.Delete, url: "records/1" });
+        const { result, waitForNextUpdate } = renderHook(() =>
+            useOfflineQueue(offlineQueue)
+        );
+
+        // Act
+        act(() => {
+            result.current.replay();
+        });
+        const statusWhileReplaying = result.current.status;
+        await waitForNextUpdate();
+
+        // Assert
+        expect(statusWhileReplaying).toBe(OfflineQueueStatus.Replaying);
+        expect(result.current.status).toBe(OfflineQueueStatus.Idle);
+        expect(result.current.pendingCount).toBe(0);
+    });
+});
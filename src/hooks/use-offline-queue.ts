@@ -0,0 +1,66 @@
+import { useEffect, useState } from "react";
+import { OfflineQueueStatus } from "../enumerations/offline-queue-status";
+import { OfflineQueue } from "../interfaces/offline-queue";
+import { QueuedMutation } from "../interfaces/queued-mutation";
+
+// -----------------------------------------------------------------------------------------
+// #region Hook
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Hook to display the mutations waiting in an offline queue and whether the browser is online
+ */
+export function useOfflineQueue(offlineQueue: OfflineQueue) {
+    const [isOnline, setIsOnline] = useState(_isOnline);
+    const [pendingMutations, setPendingMutations] = useState<
+        Array<QueuedMutation>
+    >(offlineQueue.list);
+    const [status, setStatus] = useState<OfflineQueueStatus>(
+        offlineQueue.getStatus
+    );
+
+    useEffect(() => {
+        const update = () => {
+            setPendingMutations(offlineQueue.list());
+            setStatus(offlineQueue.getStatus());
+        };
+
+        // The queue may have changed between rendering and subscribing
+        update();
+
+        return offlineQueue.subscribe(update);
+    }, [offlineQueue]);
+
+    useEffect(() => {
+        const update = () => setIsOnline(_isOnline());
+
+        window.addEventListener("offline", update);
+        window.addEventListener("online", update);
+
+        return () => {
+            window.removeEventListener("offline", update);
+            window.removeEventListener("online", update);
+        };
+    }, []);
+
+    return {
+        clear: offlineQueue.clear,
+        isOnline,
+        pendingCount: pendingMutations.length,
+        pendingMutations,
+        remove: offlineQueue.remove,
+        replay: offlineQueue.replay,
+        status,
+    };
+}
+
+// #endregion Hook
+
+// -----------------------------------------------------------------------------------------
+// #region Private Functions
+// -----------------------------------------------------------------------------------------
+
+const _isOnline = () =>
+    typeof navigator === "undefined" || navigator.onLine !== false;
+
+// #endregion Private Functions
@@ -1,5 +1,6 @@
 import { renderHook, act } from "@testing-library/react-hooks";
 import { usePageErrors } from "./use-page-errors";
+import { PageMessageSeverity } from "../enumerations/page-message-severity";
 import {
     ResultRecord,
     ResultErrorRecord,
@@ -45,6 +46,114 @@ describe("usePageErrors", () => {
 
     // #endregion setPageErrors
 
+    // -----------------------------------------------------------------------------------------
+    // #region addPageMessage
+    // -----------------------------------------------------------------------------------------
+
+    describe("addPageMessage", () => {
+        test("adds message with severity, source and timestamp", () => {
+            // Arrange
+            const { result } = renderHook(() => usePageErrors());
+
+            // Act
+            act(() => {
+                result.current.addPageMessage("Warning Message", {
+                    severity: PageMessageSeverity.Warning,
+                    source: "UserService.list",
+                });
+            });
+
+            // Assert
+            expect(result.current.pageMessages).toHaveLength(1);
+            expect(result.current.pageMessages[0]).toMatchObject({
+                message: "Warning Message",
+                severity: PageMessageSeverity.Warning,
+                source: "UserService.list",
+            });
+            expect(result.current.pageMessages[0].timestamp).toBeNumber();
+        });
+
+        test("when severity is not error, message is not in pageErrors", () => {
+            // Arrange
+            const { result } = renderHook(() => usePageErrors());
+
+            // Act
+            act(() => {
+                result.current.addPageMessage("Info Message", {
+                    severity: PageMessageSeverity.Info,
+                });
+            });
+
+            // Assert
+            expect(result.current.pageErrors).toBeEmpty();
+        });
+
+        test("when identical message already added, does not add it again", () => {
+            // Arrange
+            const { result } = renderHook(() => usePageErrors());
+            let firstId = "";
+            let secondId = "";
+
+            // Act
+            act(() => {
+                firstId = result.current.addPageMessage("Error Message");
+                secondId = result.current.addPageMessage("Error Message");
+            });
+
+            // Assert
+            expect(result.current.pageMessages).toHaveLength(1);
+            expect(secondId).toBe(firstId);
+        });
+
+        test("when expireAfter supplied, dismisses message after it elapses", () => {
+            // Arrange
+            jest.useFakeTimers();
+            const { result } = renderHook(() =>
+                usePageErrors({ expireAfter: 1000 })
+            );
+            act(() => {
+                result.current.addPageMessage("Error Message");
+            });
+
+            // Act
+            act(() => {
+                jest.advanceTimersByTime(1000);
+            });
+
+            // Assert
+            expect(result.current.pageMessages).toBeEmpty();
+            jest.useRealTimers();
+        });
+    });
+
+    // #endregion addPageMessage
+
+    // -----------------------------------------------------------------------------------------
+    // #region dismissPageMessage
+    // -----------------------------------------------------------------------------------------
+
+    describe("dismissPageMessage", () => {
+        test("removes only the supplied message", () => {
+            // Arrange
+            const { result } = renderHook(() => usePageErrors());
+            let id = "";
+            act(() => {
+                id = result.current.addPageMessage("First Message");
+                result.current.addPageMessage("Second Message");
+            });
+
+            // Act
+            act(() => {
+                result.current.dismissPageMessage(id);
+            });
+
+            // Assert
+            expect(result.current.pageErrors).toEqual(["Second Message"]);
+        });
+    });
+
+    // #endregion dismissPageMessage
+
     // -----------------------------------------------------------------------------------------
     // #region handlePageLoadError
     // -----------------------------------------------------------------------------------------
@@ -86,6 +195,62 @@ describe("usePageErrors", () => {
             expect(result.current.pageErrors).toHaveLength(1);
             expect(result.current.pageErrors[0]).toBe(errorMessage);
         });
+
+        test("when ResultRecord has blank or duplicate messages, adds each message once", () => {
+            // Arrange
+            const erroredResultRecord = new ResultRecord<any>().with({
+                errors: [
+                    new ResultErrorRecord().with({ message: "" }),
+                    new ResultErrorRecord().with({ message: "Error Message" }),
+                    new ResultErrorRecord().with({ message: "Error Message" }),
+                ],
+            });
+            const { result } = renderHook(() => usePageErrors());
+
+            // Act
+            act(() => {
+                result.current.handlePageLoadError(erroredResultRecord);
+            });
+
+            // Assert
+            expect(result.current.pageErrors).toEqual(["Error Message"]);
+        });
+
+        test("when translate supplied, translates ResultRecord error keys", () => {
+            // Arrange
+            const erroredResultRecord = new ResultRecord<any>().with({
+                errors: [
+                    new ResultErrorRecord().with({
+                        key: "translated-key",
+                        message: "Error Message",
+                    }),
+                    new ResultErrorRecord().with({
+                        key: "missing-key",
+                        message: "Untranslated Message",
+                    }),
+                ],
+            });
+            const translate = (key: string) =>
+                key === "translated-key" ? "Translated Message" : key;
+            const { result } = renderHook(() => usePageErrors({ translate }));
+
+            // Act
+            act(() => {
+                result.current.handlePageLoadError(
+                    erroredResultRecord,
+                    "UserService.get"
+                );
+            });
+
+            // Assert
+            expect(result.current.pageErrors).toEqual([
+                "Translated Message",
+                "Untranslated Message",
+            ]);
+            expect(result.current.pageMessages[0].source).toBe(
+                "UserService.get"
+            );
+        });
     });
 
     // #endregion handlePageLoadError
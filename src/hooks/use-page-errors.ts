@@ -1,39 +1,230 @@
-import { useState, useCallback } from "react";
-import { CollectionUtils, ResultRecord } from "andculturecode-javascript-core";
+import {
+    SetStateAction,
+    useCallback,
+    useEffect,
+    useMemo,
+    useRef,
+    useState,
+} from "react";
+import {
+    CollectionUtils,
+    ResultErrorRecord,
+    ResultRecord,
+    StringUtils,
+} from "andculturecode-javascript-core";
+import { PageMessageSeverity } from "../enumerations/page-message-severity";
+import { PageMessage } from "../interfaces/page-message";
+import { PageMessageOptions } from "../interfaces/page-message-options";
+import { UsePageErrorsOptions } from "../interfaces/use-page-errors-options";
 
 /**
  * Hook to bundle common page error handling functionality
+ *
+ * Messages are stored with a severity, source and timestamp so they can be dismissed
+ * individually. `pageErrors` returns the text of every message with the `Error` severity.
  */
-export function usePageErrors() {
-    const [pageErrors, setPageErrors] = useState<Array<string>>([]);
-
-    const handlePageLoadError = useCallback((result: any) => {
-        if (result instanceof ResultRecord) {
-            setPageErrors((errors: string[]) => [
-                ...errors,
-                ...result.listErrorMessages(),
-            ]);
-            return;
-        }
-
-        if (typeof result === "string") {
-            setPageErrors((errors: string[]) => [...errors, result]);
-            return;
-        }
-
-        setPageErrors((errors: string[]) => [...errors, result.toString()]);
+export function usePageErrors(options: UsePageErrorsOptions = {}) {
+    const { expireAfter, translate } = options;
+
+    const [pageMessages, setPageMessages] = useState<Array<PageMessage>>([]);
+
+    const expiryTimeouts = useRef<Record<string, number>>({});
+    const nextId = useRef(0);
+
+    // Messages are also kept in a ref so several added at once are de-duplicated against
+    // each other, and the id of an existing message can be returned synchronously
+    const currentMessages = useRef(pageMessages);
+
+    const pageErrors = useMemo(() => _toErrorMessages(pageMessages), [
+        pageMessages,
+    ]);
+
+    const updatePageMessages = useCallback(
+        (update: (pageMessages: PageMessage[]) => PageMessage[]) => {
+            const updated = update(currentMessages.current);
+            if (updated === currentMessages.current) {
+                return;
+            }
+
+            currentMessages.current = updated;
+            setPageMessages(updated);
+        },
+        []
+    );
+
+    const clearExpiry = useCallback((id: string) => {
+        window.clearTimeout(expiryTimeouts.current[id]);
+        delete expiryTimeouts.current[id];
     }, []);
 
+    const dismissPageMessage = useCallback(
+        (id: string) => {
+            clearExpiry(id);
+            updatePageMessages((pageMessages: PageMessage[]) =>
+                pageMessages.filter(
+                    (pageMessage: PageMessage) => pageMessage.id !== id
+                )
+            );
+        },
+        [clearExpiry, updatePageMessages]
+    );
+
+    /**
+     * Adds the message, or when an identical message from the same source is already on the
+     * page, refreshes its timestamp and expiry instead. Returns the id of the message.
+     */
+    const addPageMessage = useCallback(
+        (message: string, messageOptions: PageMessageOptions = {}): string => {
+            const {
+                key,
+                severity = PageMessageSeverity.Error,
+                source,
+            } = messageOptions;
+            const timeout = messageOptions.expireAfter ?? expireAfter;
+            const timestamp = Date.now();
+            const existing = currentMessages.current.find(
+                (pageMessage: PageMessage) =>
+                    pageMessage.message === message &&
+                    pageMessage.severity === severity &&
+                    pageMessage.source === source
+            );
+            const id = existing?.id ?? `${nextId.current++}`;
+
+            updatePageMessages((pageMessages: PageMessage[]) =>
+                existing == null
+                    ? [
+                          ...pageMessages,
+                          { id, key, message, severity, source, timestamp },
+                      ]
+                    : pageMessages.map((pageMessage: PageMessage) =>
+                          pageMessage.id === id
+                              ? { ...pageMessage, timestamp }
+                              : pageMessage
+                      )
+            );
+
+            if (timeout != null) {
+                clearExpiry(id);
+                expiryTimeouts.current[id] = window.setTimeout(
+                    () => dismissPageMessage(id),
+                    timeout
+                );
+            }
+
+            return id;
+        },
+        [clearExpiry, dismissPageMessage, expireAfter, updatePageMessages]
+    );
+
+    const handlePageLoadError = useCallback(
+        (result: any, source?: string) => {
+            if (result instanceof ResultRecord) {
+                _distinct(result.listErrorMessages()).forEach(
+                    (message: string) => {
+                        const error = result.errors!.find(
+                            (error: ResultErrorRecord) =>
+                                String(error.message) === message
+                        )!;
+
+                        addPageMessage(_translateError(error, translate), {
+                            key: error.key,
+                            source,
+                        });
+                    }
+                );
+                return;
+            }
+
+            if (typeof result === "string") {
+                addPageMessage(result, { source });
+                return;
+            }
+
+            addPageMessage(result.toString(), { source });
+        },
+        [addPageMessage, translate]
+    );
+
     const resetPageErrors = useCallback(() => {
-        setPageErrors((prevState) =>
+        Object.keys(expiryTimeouts.current).forEach(clearExpiry);
+        updatePageMessages((prevState) =>
             CollectionUtils.hasValues(prevState) ? [] : prevState
         );
-    }, []);
+    }, [clearExpiry, updatePageMessages]);
+
+    /**
+     * Replaces every message on the page with errors containing the supplied text
+     */
+    const setPageErrors = useCallback(
+        (value: SetStateAction<Array<string>>) => {
+            Object.keys(expiryTimeouts.current).forEach(clearExpiry);
+            updatePageMessages((pageMessages: PageMessage[]) => {
+                const errors =
+                    typeof value === "function"
+                        ? value(_toErrorMessages(pageMessages))
+                        : value;
+
+                return errors.map((message: string) => ({
+                    id: `${nextId.current++}`,
+                    message,
+                    severity: PageMessageSeverity.Error,
+                    timestamp: Date.now(),
+                }));
+            });
+        },
+        [clearExpiry, updatePageMessages]
+    );
+
+    useEffect(
+        () => () => {
+            Object.keys(expiryTimeouts.current).forEach((id: string) =>
+                window.clearTimeout(expiryTimeouts.current[id])
+            );
+        },
+        []
+    );
 
     return {
+        addPageMessage,
+        dismissPageMessage,
         handlePageLoadError,
         pageErrors,
+        pageMessages,
         resetPageErrors,
         setPageErrors,
     };
 }
+
+// -----------------------------------------------------------------------------------------
+// #region Private Functions
+// -----------------------------------------------------------------------------------------
+
+const _distinct = (messages: string[]): string[] =>
+    messages.filter(
+        (message: string, index: number) => messages.indexOf(message) === index
+    );
+
+const _toErrorMessages = (pageMessages: PageMessage[]): Array<string> =>
+    pageMessages
+        .filter(
+            (pageMessage: PageMessage) =>
+                pageMessage.severity === PageMessageSeverity.Error
+        )
+        .map((pageMessage: PageMessage) => pageMessage.message);
+
+const _translateError = (
+    error: ResultErrorRecord,
+    translate?: (key: string) => string
+): string => {
+    const message = String(error.message);
+
+    if (translate == null || StringUtils.isEmpty(error.key)) {
+        return message;
+    }
+
+    const translation = translate(error.key);
+
+    return translation !== error.key ? translation : message;
+};
+
+// #endregion Private Functions
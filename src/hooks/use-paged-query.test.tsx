@@ -0,0 +1,251 @@
+import { renderHook, act } from "@testing-library/react-hooks";
+import { usePagedQuery } from "./use-paged-query";
+
+describe("usePagedQuery", () => {
+    const setupList = (rowCount: number) => {
+        const list = jest.fn(() =>
+            Promise.resolve({ resultObjects: [], rowCount })
+        );
+        const serviceHook = () => ({ list });
+
+        return { list, serviceHook };
+    };
+
+    // -----------------------------------------------------------------------------------------
+    // #region initialization
+    // -----------------------------------------------------------------------------------------
+
+    describe("initialization", () => {
+        test("lists first page and returns paging metadata", async () => {
+            // Arrange
+            const { list, serviceHook } = setupList(45);
+
+            // Act
+            const { result, waitForNextUpdate } = renderHook(() =>
+                usePagedQuery({
+                    initialPageSize: 10,
+                    initialQuery: { name: "test" },
+                    serviceHook,
+                })
+            );
+            await waitForNextUpdate();
+
+            // Assert
+            expect(list).toHaveBeenCalledWith({
+                name: "test",
+                skip: 0,
+                take: 10,
+            });
+            expect(result.current.page).toBe(1);
+            expect(result.current.totalCount).toBe(45);
+            expect(result.current.totalPages).toBe(5);
+            expect(result.current.hasNextPage).toBeTrue();
+            expect(result.current.hasPreviousPage).toBeFalse();
+        });
+
+        test("when initialPathParams supplied, lists nested records", async () => {
+            // Arrange
+            const { list, serviceHook } = setupList(0);
+
+            // Act
+            const { waitForNextUpdate } = renderHook(() =>
+                usePagedQuery({
+                    initialPathParams: { nestedId: 5 },
+                    initialQuery: {},
+                    serviceHook,
+                })
+            );
+            await waitForNextUpdate();
+
+            // Assert
+            expect(list).toHaveBeenCalledWith(
+                { nestedId: 5 },
+                { skip: 0, take: 20 }
+            );
+        });
+
+        test("when toQueryParams supplied, uses it to build query params", async () => {
+            // Arrange
+            const { list, serviceHook } = setupList(0);
+
+            // Act
+            const { waitForNextUpdate } = renderHook(() =>
+                usePagedQuery({
+                    initialQuery: {},
+                    serviceHook,
+                    toQueryParams: (query: any, page, pageSize) => ({
+                        ...query,
+                        page,
+                        perPage: pageSize,
+                    }),
+                })
+            );
+            await waitForNextUpdate();
+
+            // Assert
+            expect(list).toHaveBeenCalledWith({ page: 1, perPage: 20 });
+        });
+
+        test("when request fails, sets error and calls onError", async () => {
+            // Arrange
+            const expected = new Error("failed");
+            const list = jest.fn(() => Promise.reject(expected));
+            const onError = jest.fn();
+
+            // Act
+            const { result, waitForNextUpdate } = renderHook(() =>
+                usePagedQuery({
+                    initialQuery: {},
+                    onError,
+                    serviceHook: () => ({ list }),
+                })
+            );
+            await waitForNextUpdate();
+
+            // Assert
+            expect(result.current.error).toBe(expected);
+            expect(result.current.loading).toBeFalse();
+            expect(onError).toHaveBeenCalledWith(undefined, expected);
+        });
+    });
+
+    // #endregion initialization
+
+    // -----------------------------------------------------------------------------------------
+    // #region navigation
+    // -----------------------------------------------------------------------------------------
+
+    describe("navigation", () => {
+        test("when next called, lists next page", async () => {
+            // Arrange
+            const { list, serviceHook } = setupList(45);
+            const { result, waitForNextUpdate } = renderHook(() =>
+                usePagedQuery({
+                    initialPageSize: 10,
+                    initialQuery: {},
+                    serviceHook,
+                })
+            );
+            await waitForNextUpdate();
+
+            // Act
+            act(() => result.current.next());
+            await waitForNextUpdate();
+
+            // Assert
+            expect(result.current.page).toBe(2);
+            expect(list).toHaveBeenLastCalledWith({ skip: 10, take: 10 });
+        });
+
+        test("when goTo called beyond last page, goes to last page", async () => {
+            // Arrange
+            const { list, serviceHook } = setupList(45);
+            const { result, waitForNextUpdate } = renderHook(() =>
+                usePagedQuery({
+                    initialPageSize: 10,
+                    initialQuery: {},
+                    serviceHook,
+                })
+            );
+            await waitForNextUpdate();
+
+            // Act
+            act(() => result.current.goTo(12));
+            await waitForNextUpdate();
+
+            // Assert
+            expect(result.current.page).toBe(5);
+            expect(result.current.hasNextPage).toBeFalse();
+            expect(list).toHaveBeenLastCalledWith({ skip: 40, take: 10 });
+        });
+
+        test("when setQuery called, returns to first page", async () => {
+            // Arrange
+            const { list, serviceHook } = setupList(45);
+            const { result, waitForNextUpdate } = renderHook(() =>
+                usePagedQuery<any, { name?: string }>({
+                    initialPage: 3,
+                    initialPageSize: 10,
+                    initialQuery: {},
+                    serviceHook,
+                })
+            );
+            await waitForNextUpdate();
+
+            // Act
+            act(() => result.current.setQuery({ name: "test" }));
+            await waitForNextUpdate();
+
+            // Assert
+            expect(result.current.page).toBe(1);
+            expect(list).toHaveBeenLastCalledWith({
+                name: "test",
+                skip: 0,
+                take: 10,
+            });
+        });
+
+        test("when total count shrinks below the current page, goes to last page", async () => {
+            // Arrange
+            const list = jest
+                .fn()
+                .mockResolvedValueOnce({ resultObjects: [], rowCount: 45 })
+                .mockResolvedValueOnce({ resultObjects: [], rowCount: 25 })
+                .mockResolvedValue({
+                    resultObjects: [{ id: 21 }],
+                    rowCount: 25,
+                });
+            const { result, waitFor } = renderHook(() =>
+                usePagedQuery({
+                    initialPageSize: 10,
+                    initialQuery: {},
+                    serviceHook: () => ({ list }),
+                })
+            );
+            await waitFor(() => result.current.totalCount === 45);
+
+            // Act
+            act(() => result.current.goTo(5));
+            await waitFor(() => result.current.values.length === 1);
+
+            // Assert
+            expect(result.current.page).toBe(3);
+            expect(result.current.totalPages).toBe(3);
+            expect(list).toHaveBeenLastCalledWith({ skip: 20, take: 10 });
+        });
+    });
+
+    // #endregion navigation
+
+    // -----------------------------------------------------------------------------------------
+    // #region refetch
+    // -----------------------------------------------------------------------------------------
+
+    describe("refetch", () => {
+        test("when enabled is false, lists current page only once called", async () => {
+            // Arrange
+            const { list, serviceHook } = setupList(45);
+            const { result, waitForNextUpdate } = renderHook(() =>
+                usePagedQuery({
+                    enabled: false,
+                    initialPage: 2,
+                    initialPageSize: 10,
+                    initialQuery: {},
+                    serviceHook,
+                })
+            );
+            const callsBeforeRefetch = list.mock.calls.length;
+
+            // Act
+            act(() => result.current.refetch());
+            await waitForNextUpdate();
+
+            // Assert
+            expect(callsBeforeRefetch).toBe(0);
+            expect(list).toHaveBeenCalledWith({ skip: 10, take: 10 });
+            expect(result.current.totalCount).toBe(45);
+        });
+    });
+
+    // #endregion refetch
+});
@@ -0,0 +1,191 @@
+import { Do, PagedQuery, ResultRecord } from "andculturecode-javascript-core";
+import { useCallback, useEffect, useState } from "react";
+import { UsePagedQueryOptions } from "../interfaces/use-paged-query-options";
+import { ListService } from "../types/list-service-type";
+import { NestedListService } from "../types/nested-list-service-type";
+import { useLatestRequest } from "./use-latest-request";
+import { useServiceErrorCallback } from "./use-service-error-callback";
+
+// -----------------------------------------------------------------------------------------
+// #region Constants
+// -----------------------------------------------------------------------------------------
+
+const DEFAULT_PAGE_SIZE = 20;
+
+// #endregion Constants
+
+// -----------------------------------------------------------------------------------------
+// #region Hook
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Hook to list one page of records at a time, tracking the total number of records and pages
+ * from the `rowCount` of each response. Moves back to the last page when the current one no
+ * longer exists (ie. after records were deleted).
+ */
+export function usePagedQuery<TRecord, TQueryParams, TPathParams = undefined>(
+    options: UsePagedQueryOptions<TRecord, TQueryParams, TPathParams>
+) {
+    const {
+        enabled = true,
+        initialPage = 1,
+        initialPageSize = DEFAULT_PAGE_SIZE,
+        initialPathParams,
+        initialQuery,
+        keepPreviousData = false,
+        serviceHook,
+        toQueryParams = _toPagedQuery,
+    } = options;
+
+    const { list: listApi } = serviceHook();
+
+    const { handlers, startRequest } = useLatestRequest(options);
+
+    const [error, setError] = useState<any>();
+    const [loading, setLoading] = useState(enabled);
+    const [page, setPage] = useState(initialPage);
+    const [pageSize, setPageSize] = useState(initialPageSize);
+    const [pathParams, setPathParams] = useState(initialPathParams);
+    const [query, setQuery] = useState(initialQuery);
+    const [totalCount, setTotalCount] = useState(0);
+    const [values, setValues] = useState<Array<TRecord>>([]);
+
+    const totalPages = Math.ceil(totalCount / pageSize);
+    const hasNextPage = page < totalPages;
+    const hasPreviousPage = page > 1;
+
+    const handleError = useServiceErrorCallback(
+        handlers,
+        (result?: ResultRecord<TRecord>, error?: any) =>
+            setError(result ?? error)
+    );
+
+    const refetch = useCallback(() => {
+        const isCurrent = startRequest();
+        const pagedQuery = toQueryParams(query, page, pageSize);
+
+        setError(undefined);
+        setLoading(true);
+
+        Do.try(async () => {
+            const result =
+                pathParams == null
+                    ? await (listApi as ListService<TRecord, TQueryParams>)(
+                          pagedQuery
+                      )
+                    : await (listApi as NestedListService<
+                          TRecord,
+                          TPathParams,
+                          TQueryParams
+                      >)(pathParams, pagedQuery);
+
+            if (!isCurrent()) {
+                return;
+            }
+
+            setTotalCount(result.rowCount);
+
+            // Records were removed since the page was chosen, so load the new last page instead
+            const lastPage = Math.max(Math.ceil(result.rowCount / pageSize), 1);
+            if (page > lastPage) {
+                setPage(lastPage);
+                return;
+            }
+
+            setValues(result.resultObjects);
+            handlers.current.onSuccess?.(result.resultObjects);
+        })
+            .catch((result?: ResultRecord<TRecord>, error?: any) => {
+                if (isCurrent()) {
+                    handleError(result, error);
+                }
+            })
+            .finally(() => {
+                if (isCurrent()) {
+                    setLoading(false);
+                }
+            });
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [handleError, listApi, page, pageSize, pathParams, query]);
+
+    useEffect(() => {
+        if (!enabled) {
+            return;
+        }
+
+        if (!keepPreviousData) {
+            setValues([]);
+        }
+
+        refetch();
+        // keepPreviousData only affects how the next request is displayed, not when it is made
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [enabled, refetch]);
+
+    const goTo = useCallback(
+        (page: number) =>
+            setPage(Math.min(Math.max(page, 1), Math.max(totalPages, 1))),
+        [totalPages]
+    );
+
+    const next = useCallback(() => goTo(page + 1), [goTo, page]);
+
+    const previous = useCallback(() => goTo(page - 1), [goTo, page]);
+
+    // Changing the query or page size starts again from the first page
+    const updatePageSize = useCallback((pageSize: number) => {
+        setPage(1);
+        setPageSize(pageSize);
+    }, []);
+
+    const updatePathParams = useCallback((pathParams?: TPathParams) => {
+        setPage(1);
+        setPathParams(pathParams);
+    }, []);
+
+    const updateQuery = useCallback((query: TQueryParams) => {
+        setPage(1);
+        setQuery(query);
+    }, []);
+
+    return {
+        error,
+        goTo,
+        hasNextPage,
+        hasPreviousPage,
+        loading,
+        next,
+        page,
+        pageSize,
+        pathParams,
+        previous,
+        query,
+        refetch,
+        setPageSize: updatePageSize,
+        setPathParams: updatePathParams,
+        setQuery: updateQuery,
+        setValues,
+        totalCount,
+        totalPages,
+        values,
+    };
+}
+
+// #endregion Hook
+
+// -----------------------------------------------------------------------------------------
+// #region Private Functions
+// -----------------------------------------------------------------------------------------
+
+const _toPagedQuery = <TQueryParams>(
+    query: TQueryParams,
+    page: number,
+    pageSize: number
+): TQueryParams =>
+    ({
+        ...query,
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+    } as TQueryParams & PagedQuery);
+
+// #endregion Private Functions
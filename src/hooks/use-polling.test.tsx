@@ -0,0 +1,213 @@
+import { renderHook, act } from "@testing-library/react-hooks";
+import { usePolling } from "./use-polling";
+
+describe("usePolling", () => {
+    let isHidden = false;
+
+    beforeAll(() => {
+        Object.defineProperty(document, "hidden", {
+            configurable: true,
+            get: () => isHidden,
+        });
+    });
+
+    beforeEach(() => {
+        isHidden = false;
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    const setVisibility = (hidden: boolean) => {
+        isHidden = hidden;
+        document.dispatchEvent(new Event("visibilitychange"));
+    };
+
+    // -----------------------------------------------------------------------------------------
+    // #region scheduling
+    // -----------------------------------------------------------------------------------------
+
+    describe("scheduling", () => {
+        test("when interval is not supplied, does not poll", () => {
+            // Arrange
+            const poll = jest.fn();
+            const { result } = renderHook(() => usePolling({ poll }));
+
+            // Act
+            result.current.onPollSuccess(undefined);
+            jest.advanceTimersByTime(60000);
+
+            // Assert
+            expect(poll).not.toHaveBeenCalled();
+        });
+
+        test("when request succeeds, polls again after interval", () => {
+            // Arrange
+            const poll = jest.fn();
+            const { result } = renderHook(() =>
+                usePolling({ interval: 1000, poll })
+            );
+
+            // Act
+            result.current.onPollSuccess(undefined);
+            jest.advanceTimersByTime(999);
+            const callsBeforeInterval = poll.mock.calls.length;
+            jest.advanceTimersByTime(1);
+
+            // Assert
+            expect(callsBeforeInterval).toBe(0);
+            expect(poll).toHaveBeenCalledTimes(1);
+        });
+
+        test("when enabled is false, does not poll", () => {
+            // Arrange
+            const poll = jest.fn();
+            const { result } = renderHook(() =>
+                usePolling({ enabled: false, interval: 1000, poll })
+            );
+
+            // Act
+            result.current.onPollSuccess(undefined);
+            jest.advanceTimersByTime(60000);
+
+            // Assert
+            expect(poll).not.toHaveBeenCalled();
+        });
+
+        test("when loading, does not poll until the request settles", () => {
+            // Arrange
+            const poll = jest.fn();
+            const { rerender, result } = renderHook(
+                (props: { loading: boolean }) =>
+                    usePolling({
+                        interval: 1000,
+                        loading: props.loading,
+                        poll,
+                    }),
+                { initialProps: { loading: true } }
+            );
+
+            // Act
+            jest.advanceTimersByTime(60000);
+            const callsWhileLoading = poll.mock.calls.length;
+            result.current.onPollSuccess(undefined);
+            rerender({ loading: false });
+            jest.advanceTimersByTime(1000);
+
+            // Assert
+            expect(callsWhileLoading).toBe(0);
+            expect(poll).toHaveBeenCalledTimes(1);
+        });
+
+        test("when consecutive requests fail, doubles the interval until one succeeds", () => {
+            // Arrange
+            const poll = jest.fn();
+            const { result } = renderHook(() =>
+                usePolling({ interval: 1000, poll })
+            );
+
+            // Act & Assert
+            result.current.onPollError();
+            jest.advanceTimersByTime(1999);
+            expect(poll).not.toHaveBeenCalled();
+            jest.advanceTimersByTime(1);
+            expect(poll).toHaveBeenCalledTimes(1);
+
+            result.current.onPollError();
+            jest.advanceTimersByTime(3999);
+            expect(poll).toHaveBeenCalledTimes(1);
+            jest.advanceTimersByTime(1);
+            expect(poll).toHaveBeenCalledTimes(2);
+
+            result.current.onPollSuccess(undefined);
+            jest.advanceTimersByTime(1000);
+            expect(poll).toHaveBeenCalledTimes(3);
+        });
+
+        test("when until returns true, stops polling", () => {
+            // Arrange
+            const poll = jest.fn();
+            const { result } = renderHook(() =>
+                usePolling({
+                    interval: 1000,
+                    poll,
+                    until: (status: string) => status === "Complete",
+                })
+            );
+
+            // Act
+            result.current.onPollSuccess("Running");
+            jest.advanceTimersByTime(1000);
+            result.current.onPollSuccess("Complete");
+            jest.advanceTimersByTime(60000);
+
+            // Assert
+            expect(poll).toHaveBeenCalledTimes(1);
+        });
+
+        test("when unmounted, stops polling", () => {
+            // Arrange
+            const poll = jest.fn();
+            const { result, unmount } = renderHook(() =>
+                usePolling({ interval: 1000, poll })
+            );
+            result.current.onPollSuccess(undefined);
+
+            // Act
+            unmount();
+            jest.advanceTimersByTime(60000);
+
+            // Assert
+            expect(poll).not.toHaveBeenCalled();
+        });
+    });
+
+    // #endregion scheduling
+
+    // -----------------------------------------------------------------------------------------
+    // #region visibility
+    // -----------------------------------------------------------------------------------------
+
+    describe("visibility", () => {
+        test("when poll is due while document is hidden, polls once it is visible", () => {
+            // Arrange
+            const poll = jest.fn();
+            const { result } = renderHook(() =>
+                usePolling({ interval: 1000, poll })
+            );
+            result.current.onPollSuccess(undefined);
+
+            // Act
+            act(() => setVisibility(true));
+            jest.advanceTimersByTime(60000);
+            const callsWhileHidden = poll.mock.calls.length;
+            act(() => setVisibility(false));
+
+            // Assert
+            expect(callsWhileHidden).toBe(0);
+            expect(poll).toHaveBeenCalledTimes(1);
+        });
+
+        test("when document becomes visible before poll is due, waits for interval", () => {
+            // Arrange
+            const poll = jest.fn();
+            const { result } = renderHook(() =>
+                usePolling({ interval: 1000, poll })
+            );
+            result.current.onPollSuccess(undefined);
+
+            // Act
+            act(() => setVisibility(true));
+            act(() => setVisibility(false));
+
+            // Assert
+            expect(poll).not.toHaveBeenCalled();
+            jest.advanceTimersByTime(1000);
+            expect(poll).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    // #endregion visibility
+});
@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useRef } from "react";
+import { UsePollingOptions } from "../interfaces/use-polling-options";
+
+// -----------------------------------------------------------------------------------------
+// #region Constants
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Largest power of two the interval is multiplied by after consecutive errors
+ */
+const MAX_BACKOFF_EXPONENT = 5;
+
+// #endregion Constants
+
+// -----------------------------------------------------------------------------------------
+// #region Hook
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Hook to repeatedly call `poll`, waiting `interval` milliseconds after each request completes.
+ * Polls due while the document is hidden are deferred until it is visible again, and polling
+ * stops on unmount. `onPollSuccess` and `onPollError` never change, so `poll` can report back
+ * through them even when declared before this hook.
+ */
+export function usePolling<TValue>(options: UsePollingOptions<TValue>) {
+    const { enabled = true, interval, loading = false } = options;
+    const isActive = enabled && interval != null && interval > 0;
+
+    // Read through a ref so inline callbacks do not restart polling
+    const latest = useRef(options);
+    latest.current = options;
+
+    const errorCount = useRef(0);
+    const isDue = useRef(false);
+    const isStopped = useRef(false);
+    const timeout = useRef<number>();
+
+    const clear = useCallback(() => {
+        window.clearTimeout(timeout.current);
+        timeout.current = undefined;
+        isDue.current = false;
+    }, []);
+
+    const schedule = useCallback(() => {
+        clear();
+
+        const { enabled = true, interval } = latest.current;
+        if (
+            !enabled ||
+            interval == null ||
+            interval <= 0 ||
+            isStopped.current
+        ) {
+            return;
+        }
+
+        const backoff = 2 ** Math.min(errorCount.current, MAX_BACKOFF_EXPONENT);
+
+        timeout.current = window.setTimeout(() => {
+            timeout.current = undefined;
+
+            if (document.hidden) {
+                isDue.current = true;
+                return;
+            }
+
+            latest.current.poll();
+        }, interval * backoff);
+    }, [clear]);
+
+    /**
+     * Schedules the next poll after a failed request, backing off on consecutive errors
+     */
+    const onPollError = useCallback(() => {
+        errorCount.current++;
+        schedule();
+    }, [schedule]);
+
+    /**
+     * Schedules the next poll after a successful request, unless `until` says to stop
+     */
+    const onPollSuccess = useCallback(
+        (value: TValue) => {
+            errorCount.current = 0;
+
+            if (latest.current.until?.(value) === true) {
+                isStopped.current = true;
+                clear();
+                return;
+            }
+
+            schedule();
+        },
+        [clear, schedule]
+    );
+
+    // Start again from a clean state whenever something else is being polled
+    useEffect(() => {
+        errorCount.current = 0;
+        isStopped.current = false;
+    }, [options.poll]);
+
+    // A request in flight schedules the next poll itself once it settles
+    useEffect(() => {
+        if (!isActive || loading) {
+            clear();
+            return;
+        }
+
+        schedule();
+    }, [clear, interval, isActive, loading, schedule]);
+
+    useEffect(() => {
+        const handleVisibilityChange = () => {
+            if (document.hidden || !isDue.current) {
+                return;
+            }
+
+            isDue.current = false;
+            latest.current.poll();
+        };
+
+        document.addEventListener("visibilitychange", handleVisibilityChange);
+
+        return () => {
+            document.removeEventListener(
+                "visibilitychange",
+                handleVisibilityChange
+            );
+            clear();
+        };
+    }, [clear]);
+
+    return { onPollError, onPollSuccess };
+}
+
+// #endregion Hook
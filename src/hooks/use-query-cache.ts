@@ -0,0 +1,9 @@
+import { useContext } from "react";
+import { QueryCacheContext } from "../contexts/query-cache-context";
+
+/**
+ * Returns the query cache of the nearest `QueryCacheProvider`, or the shared default cache
+ */
+const useQueryCache = () => useContext(QueryCacheContext);
+
+export { useQueryCache };
@@ -1,3 +1,294 @@
+import { renderHook, act } from "@testing-library/react-hooks";
+import { useQuery } from "./use-query";
+
 describe("useQuery", () => {
-    test.skip("TODO - https://github.com/AndcultureCode/AndcultureCode.JavaScript.React/issues/41", () => {});
+    const setupList = () => {
+        const list = jest.fn((query?: any) =>
+            Promise.resolve({ resultObjects: [query], rowCount: 1 })
+        );
+        const serviceHook = () => ({ list });
+
+        return { list, serviceHook };
+    };
+
+    // -----------------------------------------------------------------------------------------
+    // #region initialization
+    // -----------------------------------------------------------------------------------------
+
+    describe("initialization", () => {
+        test("lists records once and sets loading while in flight", async () => {
+            // Arrange
+            const { list, serviceHook } = setupList();
+
+            // Act
+            const { result, waitForNextUpdate } = renderHook(() =>
+                useQuery({ initialQuery: { name: "test" }, serviceHook })
+            );
+            const loadingBeforeResponse = result.current.loading;
+            await waitForNextUpdate();
+
+            // Assert
+            expect(loadingBeforeResponse).toBeTrue();
+            expect(result.current.loading).toBeFalse();
+            expect(result.current.values).toEqual([{ name: "test" }]);
+            expect(list).toHaveBeenCalledTimes(1);
+        });
+
+        test("when initialPathParams supplied, lists nested records", async () => {
+            // Arrange
+            const { list, serviceHook } = setupList();
+
+            // Act
+            const { waitForNextUpdate } = renderHook(() =>
+                useQuery({
+                    initialPathParams: { nestedId: 5 },
+                    initialQuery: {},
+                    serviceHook,
+                })
+            );
+            await waitForNextUpdate();
+
+            // Assert
+            expect(list).toHaveBeenCalledWith({ nestedId: 5 }, {});
+        });
+
+        test("when enabled is false, does not list records", () => {
+            // Arrange
+            const { list, serviceHook } = setupList();
+
+            // Act
+            const { result } = renderHook(() =>
+                useQuery({ enabled: false, initialQuery: {}, serviceHook })
+            );
+
+            // Assert
+            expect(list).not.toHaveBeenCalled();
+            expect(result.current.loading).toBeFalse();
+        });
+
+        test("when request fails, sets error and calls onError", async () => {
+            // Arrange
+            const expected = new Error("failed");
+            const list = jest.fn(() => Promise.reject(expected));
+            const onError = jest.fn();
+
+            // Act
+            const { result, waitForNextUpdate } = renderHook(() =>
+                useQuery({
+                    initialQuery: {},
+                    onError,
+                    serviceHook: () => ({ list }),
+                })
+            );
+            await waitForNextUpdate();
+
+            // Assert
+            expect(result.current.error).toBe(expected);
+            expect(result.current.loading).toBeFalse();
+            expect(onError).toHaveBeenCalledWith(undefined, expected);
+        });
+    });
+
+    // #endregion initialization
+
+    // -----------------------------------------------------------------------------------------
+    // #region enabled
+    // -----------------------------------------------------------------------------------------
+
+    describe("enabled", () => {
+        test("when changed to true, lists records", async () => {
+            // Arrange
+            const { list, serviceHook } = setupList();
+            const { rerender, waitForNextUpdate } = renderHook(
+                ({ enabled }) =>
+                    useQuery({ enabled, initialQuery: {}, serviceHook }),
+                { initialProps: { enabled: false } }
+            );
+
+            // Act
+            rerender({ enabled: true });
+            await waitForNextUpdate();
+
+            // Assert
+            expect(list).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    // #endregion enabled
+
+    // -----------------------------------------------------------------------------------------
+    // #region refetch
+    // -----------------------------------------------------------------------------------------
+
+    describe("refetch", () => {
+        test("lists records again", async () => {
+            // Arrange
+            const { list, serviceHook } = setupList();
+            const { result, waitForNextUpdate } = renderHook(() =>
+                useQuery({ initialQuery: {}, serviceHook })
+            );
+            await waitForNextUpdate();
+
+            // Act
+            act(() => result.current.refetch());
+            await waitForNextUpdate();
+
+            // Assert
+            expect(list).toHaveBeenCalledTimes(2);
+        });
+
+        test("when enabled is false, lists records", async () => {
+            // Arrange
+            const { list, serviceHook } = setupList();
+            const { result, waitForNextUpdate } = renderHook(() =>
+                useQuery({ enabled: false, initialQuery: {}, serviceHook })
+            );
+
+            // Act
+            act(() => result.current.refetch());
+            await waitForNextUpdate();
+
+            // Assert
+            expect(list).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    // #endregion refetch
+
+    // -----------------------------------------------------------------------------------------
+    // #region refetchInterval
+    // -----------------------------------------------------------------------------------------
+
+    describe("refetchInterval", () => {
+        test("lists records again after each response until refetchUntil returns true", async () => {
+            // Arrange
+            let requestCount = 0;
+            const list = jest.fn(() =>
+                Promise.resolve({
+                    resultObjects: [{ requestCount: ++requestCount }],
+                    rowCount: 1,
+                })
+            );
+
+            // Act
+            const { result, waitFor } = renderHook(() =>
+                useQuery({
+                    initialQuery: {},
+                    refetchInterval: 10,
+                    refetchUntil: (records: Array<any>) =>
+                        records[0].requestCount === 3,
+                    serviceHook: () => ({ list }),
+                })
+            );
+            await waitFor(() => result.current.values[0]?.requestCount === 3);
+            await act(() => new Promise((resolve) => setTimeout(resolve, 50)));
+
+            // Assert
+            expect(list).toHaveBeenCalledTimes(3);
+        });
+
+        test("while initial request is in flight, does not poll", async () => {
+            // Arrange
+            let resolveList: (value: any) => void = () => {};
+            const list = jest.fn(
+                () => new Promise((resolve) => (resolveList = resolve))
+            );
+
+            // Act
+            const { result, waitFor } = renderHook(() =>
+                useQuery({
+                    initialQuery: {},
+                    refetchInterval: 10,
+                    serviceHook: () => ({ list }),
+                })
+            );
+            await act(() => new Promise((resolve) => setTimeout(resolve, 50)));
+            const callsWhileInFlight = list.mock.calls.length;
+            act(() => resolveList({ resultObjects: [{ id: 1 }], rowCount: 1 }));
+            await waitFor(() => list.mock.calls.length === 2);
+
+            // Assert
+            expect(callsWhileInFlight).toBe(1);
+            expect(result.current.values).toEqual([{ id: 1 }]);
+        });
+
+        test("when request fails, continues polling", async () => {
+            // Arrange
+            const list = jest
+                .fn()
+                .mockRejectedValueOnce(new Error("failed"))
+                .mockResolvedValue({ resultObjects: [{ id: 1 }], rowCount: 1 });
+
+            // Act
+            const { result, waitFor } = renderHook(() =>
+                useQuery({
+                    initialQuery: {},
+                    onError: () => {},
+                    refetchInterval: 10,
+                    serviceHook: () => ({ list }),
+                })
+            );
+            await waitFor(() => result.current.values.length === 1);
+
+            // Assert
+            expect(list.mock.calls.length).toBeGreaterThanOrEqual(2);
+            expect(result.current.error).toBeUndefined();
+        });
+    });
+
+    // #endregion refetchInterval
+
+    // -----------------------------------------------------------------------------------------
+    // #region setQuery
+    // -----------------------------------------------------------------------------------------
+
+    describe("setQuery", () => {
+        test("lists records with updated query", async () => {
+            // Arrange
+            const { list, serviceHook } = setupList();
+            const { result, waitForNextUpdate } = renderHook(() =>
+                useQuery({ initialQuery: { name: "a" }, serviceHook })
+            );
+            await waitForNextUpdate();
+
+            // Act
+            act(() => result.current.setQuery({ name: "b" }));
+            await waitForNextUpdate();
+
+            // Assert
+            expect(list).toHaveBeenCalledTimes(2);
+            expect(list).toHaveBeenLastCalledWith({ name: "b" });
+            expect(result.current.values).toEqual([{ name: "b" }]);
+        });
+
+        test.each`
+            keepPreviousData | expected
+            ${false}         | ${[]}
+            ${true}          | ${[{ name: "a" }]}
+        `(
+            "when keepPreviousData is $keepPreviousData, returns expected values while loading",
+            async ({ keepPreviousData, expected }) => {
+                // Arrange
+                const { serviceHook } = setupList();
+                const { result, waitForNextUpdate } = renderHook(() =>
+                    useQuery({
+                        initialQuery: { name: "a" },
+                        keepPreviousData,
+                        serviceHook,
+                    })
+                );
+                await waitForNextUpdate();
+
+                // Act
+                act(() => result.current.setQuery({ name: "b" }));
+                const valuesWhileLoading = result.current.values;
+                await waitForNextUpdate();
+
+                // Assert
+                expect(valuesWhileLoading).toEqual(expected);
+            }
+        );
+    });
+
+    // #endregion setQuery
 });
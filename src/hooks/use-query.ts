@@ -1,88 +1,120 @@
-import {
-    Do,
-    EnvironmentUtils,
-    ResultRecord,
-} from "andculturecode-javascript-core";
+import { Do, ResultRecord } from "andculturecode-javascript-core";
+import axios from "axios";
 import { useCallback, useEffect, useState } from "react";
 import { UseQueryOptions } from "../interfaces/use-query-options";
 import { ListService } from "../types/list-service-type";
 import { NestedListService } from "../types/nested-list-service-type";
+import { useLatestRequest } from "./use-latest-request";
+import { usePolling } from "./use-polling";
+import { useServiceErrorCallback } from "./use-service-error-callback";
 
+/**
+ * Hook to list records, requesting them again whenever `query` or `pathParams` change, and
+ * every `refetchInterval` milliseconds when supplied
+ */
 export function useQuery<TRecord, TQueryParams, TPathParams = undefined>(
     options: UseQueryOptions<TRecord, TQueryParams, TPathParams>
 ) {
     const {
+        enabled = true,
         initialPathParams,
         initialQuery,
-        onError,
-        onSuccess,
+        keepPreviousData = false,
+        refetchInterval,
         serviceHook,
     } = options;
 
     const { list: listApi } = serviceHook();
 
-    const handleSuccess = useCallback(
-        (records: Array<TRecord>) => {
-            if (onSuccess != null) {
-                onSuccess(records);
-                return;
-            }
-        },
-        [onSuccess]
-    );
-
-    const handleError = useCallback(
-        (result?: ResultRecord<TRecord>, error?: any) => {
-            if (onError != null) {
-                onError(result, error);
-                return;
-            }
+    const { handlers, startRequest } = useLatestRequest(options);
 
-            EnvironmentUtils.runIfDevelopment(() => {
-                console.error("No error handler defined.");
-                console.error(result, error);
-            });
-        },
-        [onError]
-    );
-
-    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<any>();
+    const [loading, setLoading] = useState(enabled);
     const [query, setQuery] = useState(initialQuery);
     const [pathParams, setPathParams] = useState(initialPathParams);
     const [values, setValues] = useState<Array<TRecord>>([]);
 
-    useEffect(() => {
+    const handleError = useServiceErrorCallback(
+        handlers,
+        (result?: ResultRecord<TRecord>, error?: any) =>
+            setError(result ?? error)
+    );
+
+    const refetch = useCallback(() => {
+        const isCurrent = startRequest();
+
+        setError(undefined);
+        setLoading(true);
+
         Do.try(async () => {
-            // if regular list, not nested list
-            if (pathParams == null) {
-                const api = listApi as ListService<TRecord, TQueryParams>;
-                const result = await api(query);
-                setValues(result.resultObjects!);
-                handleSuccess(result.resultObjects!);
+            const result =
+                pathParams == null
+                    ? await (listApi as ListService<TRecord, TQueryParams>)(
+                          query
+                      )
+                    : await (listApi as NestedListService<
+                          TRecord,
+                          TPathParams,
+                          TQueryParams
+                      >)(pathParams, query);
+
+            if (!isCurrent()) {
                 return;
             }
 
-            // otherwise, nested list
-            const api = listApi as NestedListService<
-                TRecord,
-                TPathParams,
-                TQueryParams
-            >;
-            const result = await api(pathParams, query);
-            setValues(result.resultObjects!);
-            handleSuccess(result.resultObjects!);
+            setValues(result.resultObjects);
+            handlers.current.onSuccess?.(result.resultObjects);
+            onPollSuccess(result.resultObjects);
         })
-            .catch(handleError)
-            .finally(() => setLoading(false));
+            .catch((result?: ResultRecord<TRecord>, error?: any) => {
+                if (!isCurrent()) {
+                    return;
+                }
+
+                handleError(result, error);
+
+                if (!axios.isCancel(error)) {
+                    onPollError();
+                }
+            })
+            .finally(() => {
+                if (isCurrent()) {
+                    setLoading(false);
+                }
+            });
+    }, [handleError, listApi, pathParams, query]);
+
+    const { onPollError, onPollSuccess } = usePolling({
+        enabled,
+        interval: refetchInterval,
+        loading,
+        poll: refetch,
+        until: options.refetchUntil,
     });
 
+    useEffect(() => {
+        if (!enabled) {
+            return;
+        }
+
+        if (!keepPreviousData) {
+            setValues([]);
+        }
+
+        refetch();
+        // keepPreviousData only affects how the next request is displayed, not when it is made
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [enabled, refetch]);
+
     return {
+        error,
         loading,
-        query,
-        setQuery,
         pathParams,
+        query,
+        refetch,
         setPathParams,
-        values,
+        setQuery,
         setValues,
+        values,
     };
 }
@@ -0,0 +1,215 @@
+import {
+    ResultErrorRecord,
+    ResultRecord,
+} from "andculturecode-javascript-core";
+import { renderHook, act } from "@testing-library/react-hooks";
+import { useRecord } from "./use-record";
+
+describe("useRecord", () => {
+    const setupGet = () => {
+        const get = jest.fn((pathParams: any) =>
+            Promise.resolve({ resultObject: { id: pathParams.id } })
+        );
+        const serviceHook = () => ({ get } as any);
+
+        return { get, serviceHook };
+    };
+
+    // -----------------------------------------------------------------------------------------
+    // #region initialization
+    // -----------------------------------------------------------------------------------------
+
+    describe("initialization", () => {
+        test("gets record and sets loading while in flight", async () => {
+            // Arrange
+            const { get, serviceHook } = setupGet();
+
+            // Act
+            const { result, waitForNextUpdate } = renderHook(() =>
+                useRecord({
+                    pathParams: { id: 1 },
+                    queryParams: { expand: true },
+                    serviceHook,
+                })
+            );
+            const loadingBeforeResponse = result.current.loading;
+            await waitForNextUpdate();
+
+            // Assert
+            expect(loadingBeforeResponse).toBeTrue();
+            expect(result.current.loading).toBeFalse();
+            expect(result.current.value).toEqual({ id: 1 });
+            expect(get).toHaveBeenCalledWith({ id: 1 }, { expand: true });
+        });
+
+        test("when enabled is false, does not get record", () => {
+            // Arrange
+            const { get, serviceHook } = setupGet();
+
+            // Act
+            const { result } = renderHook(() =>
+                useRecord({
+                    enabled: false,
+                    pathParams: { id: 1 },
+                    serviceHook,
+                })
+            );
+
+            // Assert
+            expect(get).not.toHaveBeenCalled();
+            expect(result.current.loading).toBeFalse();
+        });
+
+        test("sets loading from the first render", async () => {
+            // Arrange
+            const { serviceHook } = setupGet();
+            const loadingByRender: Array<boolean> = [];
+
+            // Act
+            const { waitForNextUpdate } = renderHook(() => {
+                const record = useRecord({
+                    pathParams: { id: 1 },
+                    serviceHook,
+                });
+                loadingByRender.push(record.loading);
+                return record;
+            });
+            await waitForNextUpdate();
+
+            // Assert
+            expect(loadingByRender[0]).toBeTrue();
+        });
+
+        test("when request fails with ResultRecord, sets errors to its messages", async () => {
+            // Arrange
+            const resultRecord = new ResultRecord<any>().with({
+                errors: [
+                    new ResultErrorRecord().with({
+                        key: "Key",
+                        message: "Error Message",
+                    }),
+                ],
+            });
+            const get = jest.fn(() => Promise.reject(resultRecord));
+            const onError = jest.fn();
+
+            // Act
+            const { result, waitForNextUpdate } = renderHook(() =>
+                useRecord({
+                    onError,
+                    pathParams: { id: 1 },
+                    serviceHook: () => ({ get } as any),
+                })
+            );
+            await waitForNextUpdate();
+
+            // Assert
+            expect(result.current.errors).toEqual(
+                resultRecord.listErrorMessages()
+            );
+            expect(onError).toHaveBeenCalledWith(resultRecord, undefined);
+        });
+    });
+
+    // #endregion initialization
+
+    // -----------------------------------------------------------------------------------------
+    // #region pathParams
+    // -----------------------------------------------------------------------------------------
+
+    describe("pathParams", () => {
+        test("when values change, gets record again", async () => {
+            // Arrange
+            const { get, serviceHook } = setupGet();
+            const { result, rerender, waitForNextUpdate } = renderHook(
+                ({ id }) => useRecord({ pathParams: { id }, serviceHook }),
+                { initialProps: { id: 1 } }
+            );
+            await waitForNextUpdate();
+
+            // Act
+            rerender({ id: 2 });
+            await waitForNextUpdate();
+
+            // Assert
+            expect(get).toHaveBeenCalledTimes(2);
+            expect(result.current.value).toEqual({ id: 2 });
+        });
+
+        test("when values are unchanged, does not get record again", async () => {
+            // Arrange
+            const { get, serviceHook } = setupGet();
+            const { rerender, waitForNextUpdate } = renderHook(
+                ({ id }) => useRecord({ pathParams: { id }, serviceHook }),
+                { initialProps: { id: 1 } }
+            );
+            await waitForNextUpdate();
+
+            // Act
+            rerender({ id: 1 });
+
+            // Assert
+            expect(get).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    // #endregion pathParams
+
+    // -----------------------------------------------------------------------------------------
+    // #region refetch
+    // -----------------------------------------------------------------------------------------
+
+    describe("refetch", () => {
+        test("gets record again", async () => {
+            // Arrange
+            const { get, serviceHook } = setupGet();
+            const { result, waitForNextUpdate } = renderHook(() =>
+                useRecord({ pathParams: { id: 1 }, serviceHook })
+            );
+            await waitForNextUpdate();
+
+            // Act
+            act(() => result.current.refetch());
+            await waitForNextUpdate();
+
+            // Assert
+            expect(get).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    // #endregion refetch
+
+    // -----------------------------------------------------------------------------------------
+    // #region refetchInterval
+    // -----------------------------------------------------------------------------------------
+
+    describe("refetchInterval", () => {
+        test("gets record again after each response until refetchUntil returns true", async () => {
+            // Arrange
+            const statuses = ["Queued", "Running", "Complete"];
+            let requestCount = 0;
+            const get = jest.fn(() =>
+                Promise.resolve({
+                    resultObject: { status: statuses[requestCount++] },
+                })
+            );
+
+            // Act
+            const { result, waitFor } = renderHook(() =>
+                useRecord({
+                    pathParams: { id: 1 },
+                    refetchInterval: 10,
+                    refetchUntil: (record: any) => record.status === "Complete",
+                    serviceHook: () => ({ get } as any),
+                })
+            );
+            await waitFor(() => result.current.value?.status === "Complete");
+            await act(() => new Promise((resolve) => setTimeout(resolve, 50)));
+
+            // Assert
+            expect(get).toHaveBeenCalledTimes(3);
+        });
+    });
+
+    // #endregion refetchInterval
+});
@@ -0,0 +1,122 @@
+import { Do, ResultRecord } from "andculturecode-javascript-core";
+import axios from "axios";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { UseRecordOptions } from "../interfaces/use-record-options";
+import { useLatestRequest } from "./use-latest-request";
+import { usePolling } from "./use-polling";
+import { useServiceErrorCallback } from "./use-service-error-callback";
+
+// -----------------------------------------------------------------------------------------
+// #region Hook
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Hook to get a single record, requesting it again whenever the values of `pathParams` or
+ * `queryParams` change, and every `refetchInterval` milliseconds when supplied
+ */
+export function useRecord<TRecord, TPathParams, TQueryParams = undefined>(
+    options: UseRecordOptions<TRecord, TPathParams, TQueryParams>
+) {
+    const { enabled = true, refetchInterval, serviceHook } = options;
+
+    const { get: getApi } = serviceHook();
+
+    const { handlers, startRequest } = useLatestRequest(options);
+
+    // Params are compared by value, as they are commonly object literals built while rendering
+    const paramsKey = JSON.stringify([options.pathParams, options.queryParams]);
+    const { pathParams, queryParams } = useMemo(
+        () => ({
+            pathParams: options.pathParams,
+            queryParams: options.queryParams,
+        }),
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+        [paramsKey]
+    );
+
+    const [errors, setErrors] = useState<Array<string>>([]);
+    const [loading, setLoading] = useState(enabled);
+    const [value, setValue] = useState<TRecord>();
+
+    const handleError = useServiceErrorCallback(
+        handlers,
+        (result?: ResultRecord<TRecord>, error?: any) =>
+            setErrors(_toErrorMessages(result, error))
+    );
+
+    const refetch = useCallback(() => {
+        const isCurrent = startRequest();
+
+        setErrors([]);
+        setLoading(true);
+
+        Do.try(async () => {
+            const result = await getApi(pathParams, queryParams);
+
+            if (!isCurrent()) {
+                return;
+            }
+
+            setValue(result.resultObject);
+            handlers.current.onSuccess?.(result.resultObject!);
+            onPollSuccess(result.resultObject!);
+        })
+            .catch((result?: ResultRecord<TRecord>, error?: any) => {
+                if (!isCurrent()) {
+                    return;
+                }
+
+                handleError(result, error);
+
+                if (!axios.isCancel(error)) {
+                    onPollError();
+                }
+            })
+            .finally(() => {
+                if (isCurrent()) {
+                    setLoading(false);
+                }
+            });
+    }, [getApi, handleError, pathParams, queryParams]);
+
+    const { onPollError, onPollSuccess } = usePolling({
+        enabled,
+        interval: refetchInterval,
+        loading,
+        poll: refetch,
+        until: options.refetchUntil,
+    });
+
+    useEffect(() => {
+        if (enabled) {
+            refetch();
+        }
+    }, [enabled, refetch]);
+
+    return {
+        errors,
+        loading,
+        refetch,
+        setValue,
+        value,
+    };
+}
+
+// #endregion Hook
+
+// -----------------------------------------------------------------------------------------
+// #region Private Functions
+// -----------------------------------------------------------------------------------------
+
+const _toErrorMessages = <TRecord>(
+    result?: ResultRecord<TRecord>,
+    error?: any
+): Array<string> => {
+    if (result != null) {
+        return result.listErrorMessages();
+    }
+
+    return error?.message != null ? [error.message] : [];
+};
+
+// #endregion Private Functions
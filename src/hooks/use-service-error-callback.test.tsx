@@ -0,0 +1,38 @@
+import axios from "axios";
+import { renderHook } from "@testing-library/react-hooks";
+import { useServiceErrorCallback } from "./use-service-error-callback";
+
+describe("useServiceErrorCallback", () => {
+    test("when request is cancelled, does not call handlers", () => {
+        // Arrange
+        const onError = jest.fn();
+        const onFailure = jest.fn();
+        const { result } = renderHook(() =>
+            useServiceErrorCallback({ current: { onError } }, onFailure)
+        );
+
+        // Act
+        result.current(undefined, new axios.Cancel("Request cancelled"));
+
+        // Assert
+        expect(onFailure).not.toHaveBeenCalled();
+        expect(onError).not.toHaveBeenCalled();
+    });
+
+    test("when request fails, calls onFailure and onError with the failure", () => {
+        // Arrange
+        const error = new Error("failed");
+        const onError = jest.fn();
+        const onFailure = jest.fn();
+        const { result } = renderHook(() =>
+            useServiceErrorCallback({ current: { onError } }, onFailure)
+        );
+
+        // Act
+        result.current(undefined, error);
+
+        // Assert
+        expect(onFailure).toHaveBeenCalledWith(undefined, error);
+        expect(onError).toHaveBeenCalledWith(undefined, error);
+    });
+});
@@ -0,0 +1,69 @@
+import {
+    CatchResultHandler,
+    EnvironmentUtils,
+    ResultRecord,
+} from "andculturecode-javascript-core";
+import axios from "axios";
+import { RefObject, useCallback, useRef } from "react";
+import { useServiceErrorHandler } from "./use-service-error-handler";
+
+// -----------------------------------------------------------------------------------------
+// #region Hook
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Returns a handler for failed requests, for use with `Do.try(...).catch`. Cancelled requests
+ * are ignored. Otherwise the failure is passed to `onFailure`, the nearest
+ * `ServiceErrorProvider` and the `onError` option, and logged in development when neither
+ * handles it.
+ * @param handlers Ref to the calling hook's options, read when a request fails so inline
+ * callbacks do not change the returned handler
+ * @param onFailure Called with every failure (ie. to keep the error in state)
+ */
+const useServiceErrorCallback = <TRecord>(
+    handlers: RefObject<{ onError?: CatchResultHandler<TRecord> }>,
+    onFailure?: CatchResultHandler<TRecord>
+): CatchResultHandler<TRecord> => {
+    const handleServiceError = useServiceErrorHandler();
+
+    const onFailureRef = useRef(onFailure);
+    onFailureRef.current = onFailure;
+
+    return useCallback(
+        (result?: ResultRecord<TRecord>, error?: any) => {
+            if (axios.isCancel(error)) {
+                return;
+            }
+
+            onFailureRef.current?.(result, error);
+
+            const isHandled = handleServiceError(result ?? error);
+
+            const onError = handlers.current?.onError;
+            if (onError != null) {
+                onError(result, error);
+                return;
+            }
+
+            if (isHandled) {
+                return;
+            }
+
+            EnvironmentUtils.runIfDevelopment(() => {
+                console.error("No error handler defined.");
+                console.error(result, error);
+            });
+        },
+        [handleServiceError, handlers]
+    );
+};
+
+// #endregion Hook
+
+// -----------------------------------------------------------------------------------------
+// #region Exports
+// -----------------------------------------------------------------------------------------
+
+export { useServiceErrorCallback };
+
+// #endregion Exports
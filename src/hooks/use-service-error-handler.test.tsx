@@ -0,0 +1,117 @@
+import React, { PropsWithChildren } from "react";
+import axios from "axios";
+import { renderHook } from "@testing-library/react-hooks";
+import { ServiceErrorProvider } from "../components/service-errors/service-error-provider";
+import { ServiceErrorHandlers } from "../interfaces/service-error-handlers";
+import {
+    ignoreServiceError,
+    useServiceErrorHandler,
+} from "./use-service-error-handler";
+
+describe("useServiceErrorHandler", () => {
+    const buildError = (status?: number) => ({
+        isAxiosError: true,
+        response: status == null ? undefined : { status },
+    });
+
+    const setup = (handlers: ServiceErrorHandlers) =>
+        renderHook(() => useServiceErrorHandler(), {
+            wrapper: (props: PropsWithChildren<{}>) => (
+                <ServiceErrorProvider {...handlers}>
+                    {props.children}
+                </ServiceErrorProvider>
+            ),
+        });
+
+    test.each`
+        status       | handlerName
+        ${401}       | ${"onUnauthorized"}
+        ${403}       | ${"onForbidden"}
+        ${404}       | ${"onNotFound"}
+        ${500}       | ${"onServerError"}
+        ${503}       | ${"onServerError"}
+        ${undefined} | ${"onNetworkError"}
+        ${400}       | ${"onError"}
+    `(
+        "when response status is $status, calls $handlerName",
+        ({ status, handlerName }) => {
+            // Arrange
+            const handler = jest.fn();
+            const error = buildError(status);
+            const { result } = setup({ [handlerName]: handler });
+
+            // Act
+            const isHandled = result.current(error);
+
+            // Assert
+            expect(isHandled).toBeTrue();
+            expect(handler).toHaveBeenCalledWith(error);
+        }
+    );
+
+    test("when no specific handler supplied, calls onError", () => {
+        // Arrange
+        const onError = jest.fn();
+        const { result } = setup({ onError });
+
+        // Act
+        result.current(buildError(401));
+
+        // Assert
+        expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    test("when no handler supplied, returns false", () => {
+        // Arrange
+        const { result } = setup({});
+
+        // Act
+        const isHandled = result.current(buildError(500));
+
+        // Assert
+        expect(isHandled).toBeFalse();
+    });
+
+    test("when error already handled, does not handle it again", () => {
+        // Arrange
+        const onServerError = jest.fn();
+        const error = buildError(500);
+        const { result } = setup({ onServerError });
+
+        // Act
+        result.current(error);
+        const isHandled = result.current(error);
+
+        // Assert
+        expect(isHandled).toBeTrue();
+        expect(onServerError).toHaveBeenCalledTimes(1);
+    });
+
+    test("when error ignored, does not handle it", () => {
+        // Arrange
+        const onError = jest.fn();
+        const error = buildError(400);
+        const { result } = setup({ onError });
+
+        // Act
+        ignoreServiceError(error);
+        const isHandled = result.current(error);
+
+        // Assert
+        expect(isHandled).toBeTrue();
+        expect(onError).not.toHaveBeenCalled();
+    });
+
+    test("when request cancelled, does not handle error", () => {
+        // Arrange
+        const onError = jest.fn();
+        const { result } = setup({ onError });
+
+        // Act
+        const isHandled = result.current(new axios.Cancel("Cancelled"));
+
+        // Assert
+        expect(isHandled).toBeFalse();
+        expect(onError).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,117 @@
+import axios from "axios";
+import { useCallback, useContext, useRef } from "react";
+import { ServiceErrorContext } from "../contexts/service-error-context";
+import { ServiceErrorHandlers } from "../interfaces/service-error-handlers";
+import { ServiceErrorHandler } from "../types/service-error-handler-type";
+
+// -----------------------------------------------------------------------------------------
+// #region Constants
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Errors already passed to a handler. The same error commonly passes through both a service
+ * hook and the hook calling it (ie. `useQuery`), but should only be handled once.
+ */
+const _handledErrors = new WeakSet<object>();
+
+// #endregion Constants
+
+// -----------------------------------------------------------------------------------------
+// #region Hook
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Returns a function which passes a service error to the matching handler of the nearest
+ * `ServiceErrorProvider`. The function returns `true` when the error has been handled.
+ * Cancelled requests are never handled.
+ */
+const useServiceErrorHandler = () => {
+    // Handlers are read through a ref so the returned function never changes
+    const context = useContext(ServiceErrorContext);
+    const handlers = useRef(context);
+    handlers.current = context;
+
+    return useCallback((error: any): boolean => {
+        if (error == null || axios.isCancel(error)) {
+            return false;
+        }
+
+        const isObject = typeof error === "object";
+        if (isObject && _handledErrors.has(error)) {
+            return true;
+        }
+
+        const handler = _getHandler(handlers.current, error);
+        if (handler == null) {
+            return false;
+        }
+
+        if (isObject) {
+            _handledErrors.add(error);
+        }
+
+        handler(error);
+        return true;
+    }, []);
+};
+
+// #endregion Hook
+
+// -----------------------------------------------------------------------------------------
+// #region Functions
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Marks the error as handled without passing it to a handler, so hooks it later passes
+ * through don't pass it to the `ServiceErrorProvider` either
+ */
+const ignoreServiceError = (error: any) => {
+    if (error != null && typeof error === "object") {
+        _handledErrors.add(error);
+    }
+};
+
+// #endregion Functions
+
+// -----------------------------------------------------------------------------------------
+// #region Private Functions
+// -----------------------------------------------------------------------------------------
+
+const _getHandler = (
+    handlers: ServiceErrorHandlers,
+    error: any
+): ServiceErrorHandler | undefined => {
+    const status: number | undefined = error.response?.status;
+
+    if (error.isAxiosError === true && status == null) {
+        return handlers.onNetworkError ?? handlers.onError;
+    }
+
+    if (status === 401) {
+        return handlers.onUnauthorized ?? handlers.onError;
+    }
+
+    if (status === 403) {
+        return handlers.onForbidden ?? handlers.onError;
+    }
+
+    if (status === 404) {
+        return handlers.onNotFound ?? handlers.onError;
+    }
+
+    if (status != null && status >= 500) {
+        return handlers.onServerError ?? handlers.onError;
+    }
+
+    return handlers.onError;
+};
+
+// #endregion Private Functions
+
+// -----------------------------------------------------------------------------------------
+// #region Exports
+// -----------------------------------------------------------------------------------------
+
+export { ignoreServiceError, useServiceErrorHandler };
+
+// #endregion Exports
@@ -2,6 +2,15 @@
 // #region Components
 // -----------------------------------------------------------------------------------------
 
+export {
+    ErrorBoundary,
+    ErrorBoundaryFallbackProps,
+    ErrorBoundaryProps,
+} from "./components/errors/error-boundary";
+export {
+    QueryCacheProvider,
+    QueryCacheProviderProps,
+} from "./components/query-cache/query-cache-provider";
 export {
     AuthenticatedRoute,
     AuthenticatedRouteProps,
@@ -19,9 +28,34 @@ export {
     NestedRoutesByPropertyProps,
 } from "./components/routing/nested-routes-by-property";
 export { Redirects, RedirectsProps } from "./components/routing/redirects";
+export {
+    ServiceErrorProvider,
+    ServiceErrorProviderProps,
+} from "./components/service-errors/service-error-provider";
 
 // #endregion Components
 
+// -----------------------------------------------------------------------------------------
+// #region Contexts
+// -----------------------------------------------------------------------------------------
+
+export { ErrorBoundaryContext } from "./contexts/error-boundary-context";
+export { QueryCacheContext } from "./contexts/query-cache-context";
+export { ServiceErrorContext } from "./contexts/service-error-context";
+
+// #endregion Contexts
+
+// -----------------------------------------------------------------------------------------
+// #region Enumerations
+// -----------------------------------------------------------------------------------------
+
+export { BackoffStrategy } from "./enumerations/backoff-strategy";
+export { OfflineQueueStatus } from "./enumerations/offline-queue-status";
+export { PageMessageSeverity } from "./enumerations/page-message-severity";
+export { PatchFormat } from "./enumerations/patch-format";
+
+// #endregion Enumerations
+
 // -----------------------------------------------------------------------------------------
 // #region Hooks
 // -----------------------------------------------------------------------------------------
@@ -30,9 +64,20 @@ export { makeCancellable } from "./hooks/make-cancellable";
 export { useAsyncEffect } from "./hooks/use-async-effect";
 export { useCancellablePromise } from "./hooks/use-cancellable-promise";
 export { useDebounce } from "./hooks/use-debounce";
+export { useErrorHandler } from "./hooks/use-error-handler";
+export { useFormErrors } from "./hooks/use-form-errors";
+export { useInfiniteQuery } from "./hooks/use-infinite-query";
 export { useLocalization } from "./hooks/use-localization";
+export { useMutation } from "./hooks/use-mutation";
+export { useOfflineQueue } from "./hooks/use-offline-queue";
 export { useOnClickOutside } from "./hooks/use-onclick-outside";
+export { usePagedQuery } from "./hooks/use-paged-query";
 export { usePageErrors } from "./hooks/use-page-errors";
+export { usePolling } from "./hooks/use-polling";
+export { useQuery } from "./hooks/use-query";
+export { useQueryCache } from "./hooks/use-query-cache";
+export { useRecord } from "./hooks/use-record";
+export { useServiceErrorHandler } from "./hooks/use-service-error-handler";
 export { useSortedAlphabetically } from "./hooks/use-sorted-alphabetically";
 export { useTextOverflow } from "./hooks/use-text-overflow";
 export { useWindow } from "./hooks/use-window";
@@ -43,10 +88,46 @@ export { useWindow } from "./hooks/use-window";
 // #region Interfaces
 // -----------------------------------------------------------------------------------------
 
+export { BatchLoader } from "./interfaces/batch-loader";
+export { BatchOptions } from "./interfaces/batch-options";
+export { DownloadProgress } from "./interfaces/download-progress";
+export { DownloadRequestConfig } from "./interfaces/download-request-config";
+export { DownloadResponse } from "./interfaces/download-response";
+export { JsonPatchOperation } from "./interfaces/json-patch-operation";
+export { MutationServiceHookOptions } from "./interfaces/mutation-service-hook-options";
+export { OfflineQueue } from "./interfaces/offline-queue";
+export { OfflineQueueOptions } from "./interfaces/offline-queue-options";
+export { OfflineQueueStorage } from "./interfaces/offline-queue-storage";
+export { OptimisticUpdateOptions } from "./interfaces/optimistic-update-options";
+export { PageMessage } from "./interfaces/page-message";
+export { PageMessageOptions } from "./interfaces/page-message-options";
+export { QueryCache } from "./interfaces/query-cache";
+export { QueryCacheOptions } from "./interfaces/query-cache-options";
+export { QueryServiceHookOptions } from "./interfaces/query-service-hook-options";
+export { QueuedMutation } from "./interfaces/queued-mutation";
 export { RedirectDefinition } from "./interfaces/redirect-definition";
 export { RouteDefinition } from "./interfaces/route-definition";
+export { ResourceDefinition } from "./interfaces/resource-definition";
+export { RetryPolicy } from "./interfaces/retry-policy";
 export { RouteMap } from "./interfaces/route-map";
+export { ServiceErrorHandlers } from "./interfaces/service-error-handlers";
+export { ServiceFactoryOptions } from "./interfaces/service-factory-options";
+export { ServiceHookOptions } from "./interfaces/service-hook-options";
+export { ServiceMiddleware } from "./interfaces/service-middleware";
+export { ServiceRequest } from "./interfaces/service-request";
+export { ServiceRequestConfig } from "./interfaces/service-request-config";
 export { UnmatchedRoute } from "./interfaces/unmatched-route";
+export { UploadProgress } from "./interfaces/upload-progress";
+export { UploadRequestConfig } from "./interfaces/upload-request-config";
+export { UploadServiceHookOptions } from "./interfaces/upload-service-hook-options";
+export { UploadServiceOptions } from "./interfaces/upload-service-options";
+export { UseInfiniteQueryOptions } from "./interfaces/use-infinite-query-options";
+export { UseMutationOptions } from "./interfaces/use-mutation-options";
+export { UsePageErrorsOptions } from "./interfaces/use-page-errors-options";
+export { UsePagedQueryOptions } from "./interfaces/use-paged-query-options";
+export { UsePollingOptions } from "./interfaces/use-polling-options";
+export { UseQueryOptions } from "./interfaces/use-query-options";
+export { UseRecordOptions } from "./interfaces/use-record-options";
 
 // #endregion Interfaces
 
@@ -54,6 +135,9 @@ export { UnmatchedRoute } from "./interfaces/unmatched-route";
 // #region Services
 // -----------------------------------------------------------------------------------------
 
+export { BatchLoaderFactory } from "./services/batch-loader-factory";
+export { OfflineQueueFactory } from "./services/offline-queue-factory";
+export { QueryCacheFactory } from "./services/query-cache-factory";
 export { ServiceFactory } from "./services/service-factory";
 export { ServiceHookFactory } from "./services/service-hook-factory";
 
@@ -70,6 +154,9 @@ export { CreateService } from "./types/create-service-type";
 export { CreateServiceHook } from "./types/create-service-hook-type";
 export { DeleteService } from "./types/delete-service-type";
 export { DeleteServiceHook } from "./types/delete-service-hook-type";
+export { DownloadService } from "./types/download-service-type";
+export { DownloadServiceHook } from "./types/download-service-hook-type";
+export { ErrorReporter } from "./types/error-reporter-type";
 export { GetService } from "./types/get-service-type";
 export { GetServiceHook } from "./types/get-service-hook-type";
 export { ListService } from "./types/list-service-type";
@@ -78,8 +165,20 @@ export { NestedCreateService } from "./types/nested-create-service-type";
 export { NestedCreateServiceHook } from "./types/nested-create-service-hook-type";
 export { NestedListService } from "./types/nested-list-service-type";
 export { NestedListServiceHook } from "./types/nested-list-service-hook-type";
+export { NestedResourceService } from "./types/nested-resource-service-type";
+export { NestedResourceServiceHook } from "./types/nested-resource-service-hook-type";
+export { OptimisticUpdate } from "./types/optimistic-update-type";
+export { PatchService } from "./types/patch-service-type";
+export { PatchServiceHook } from "./types/patch-service-hook-type";
+export { RecordIdentifier } from "./types/record-identifier-type";
+export { ResourceService } from "./types/resource-service-type";
+export { ResourceServiceHook } from "./types/resource-service-hook-type";
+export { RouteParams } from "./types/route-params-type";
+export { ServiceErrorHandler } from "./types/service-error-handler-type";
 export { UpdateService } from "./types/update-service-type";
 export { UpdateServiceHook } from "./types/update-service-hook-type";
+export { UploadService } from "./types/upload-service-type";
+export { UploadServiceHook } from "./types/upload-service-hook-type";
 
 // #endregion Types
 
@@ -87,6 +186,10 @@ export { UpdateServiceHook } from "./types/update-service-hook-type";
 // #region Utilities
 // -----------------------------------------------------------------------------------------
 
+export { FileUtils } from "./utilities/file-utils";
+export { PatchUtils } from "./utilities/patch-utils";
+export { RetryUtils } from "./utilities/retry-utils";
 export { RouteUtils } from "./utilities/route-utils";
+export { ServiceMiddlewareUtils } from "./utilities/service-middleware-utils";
 
 // #endregion Utilities
@@ -0,0 +1,26 @@
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Collects keys requested within the same tick and loads them with a single batch call
+ */
+interface BatchLoader<TKey, TValue> {
+    /**
+     * Adds the key to the next batch, resolving with its value once the batch is loaded.
+     * Requesting a key already in the pending batch shares its result.
+     *
+     * @memberof BatchLoader
+     */
+    load: (key: TKey) => Promise<TValue>;
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { BatchLoader };
+
+// #endregion Export
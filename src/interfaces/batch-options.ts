@@ -0,0 +1,45 @@
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Describes how `get` requests made within the same tick are combined into a single list
+ * request filtered by id
+ */
+interface BatchOptions {
+    /**
+     * Endpoint route listing the records (ie. `users` or `organizations/:organizationId/users`).
+     * Path params other than the id are supplied from the `get` call, and calls are only batched
+     * together when these path params and the query params match.
+     *
+     * @type {string}
+     * @memberof BatchOptions
+     */
+    endpoint: string;
+
+    /**
+     * Name of the query param the requested ids are sent in. Defaults to `ids`.
+     *
+     * @type {string}
+     * @memberof BatchOptions
+     */
+    idsParam?: string;
+
+    /**
+     * Largest number of ids sent in a single list request. Defaults to `100`.
+     *
+     * @type {number}
+     * @memberof BatchOptions
+     */
+    maxBatchSize?: number;
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { BatchOptions };
+
+// #endregion Export
@@ -0,0 +1,43 @@
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Progress of a file being downloaded
+ */
+interface DownloadProgress {
+    /**
+     * Number of bytes of the file received so far
+     *
+     * @type {number}
+     * @memberof DownloadProgress
+     */
+    loaded: number;
+
+    /**
+     * Whole percentage (0 - 100) of the file received so far. Only known when the server
+     * sends the file's size.
+     *
+     * @type {number}
+     * @memberof DownloadProgress
+     */
+    percent?: number;
+
+    /**
+     * Size of the file in bytes. Only known when the server sends the file's size.
+     *
+     * @type {number}
+     * @memberof DownloadProgress
+     */
+    total?: number;
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { DownloadProgress };
+
+// #endregion Export
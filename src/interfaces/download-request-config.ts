@@ -0,0 +1,37 @@
+import { DownloadProgress } from "./download-progress";
+import { ServiceRequestConfig } from "./service-request-config";
+
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Per-request configuration which can be supplied to a generated download service function
+ */
+interface DownloadRequestConfig extends ServiceRequestConfig {
+    /**
+     * Name of the downloaded file, used instead of the one sent in the `Content-Disposition`
+     * response header
+     *
+     * @type {string}
+     * @memberof DownloadRequestConfig
+     */
+    fileName?: string;
+
+    /**
+     * Called as the file is received
+     *
+     * @memberof DownloadRequestConfig
+     */
+    onDownloadProgress?: (progress: DownloadProgress) => void;
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { DownloadRequestConfig };
+
+// #endregion Export
@@ -0,0 +1,51 @@
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+/**
+ * File returned by a generated download service function
+ */
+interface DownloadResponse {
+    /**
+     * Contents of the file
+     *
+     * @type {Blob}
+     * @memberof DownloadResponse
+     */
+    blob: Blob;
+
+    /**
+     * Media type of the file, from the `Content-Type` response header
+     *
+     * @type {string}
+     * @memberof DownloadResponse
+     */
+    contentType?: string;
+
+    /**
+     * Name of the file, from the `Content-Disposition` response header unless supplied in the
+     * request config
+     *
+     * @type {string}
+     * @memberof DownloadResponse
+     */
+    fileName?: string;
+
+    /**
+     * HTTP status code of the response
+     *
+     * @type {number}
+     * @memberof DownloadResponse
+     */
+    status: number;
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { DownloadResponse };
+
+// #endregion Export
@@ -0,0 +1,42 @@
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Single operation of a JSON Patch (RFC 6902) document
+ */
+interface JsonPatchOperation {
+    /**
+     * Operation to perform
+     *
+     * @type {("add" | "remove" | "replace")}
+     * @memberof JsonPatchOperation
+     */
+    op: "add" | "remove" | "replace";
+
+    /**
+     * JSON Pointer (RFC 6901) to the property the operation applies to (ie. `/address/city`)
+     *
+     * @type {string}
+     * @memberof JsonPatchOperation
+     */
+    path: string;
+
+    /**
+     * New value of the property (`add` and `replace` only)
+     *
+     * @type {*}
+     * @memberof JsonPatchOperation
+     */
+    value?: any;
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { JsonPatchOperation };
+
+// #endregion Export
@@ -0,0 +1,30 @@
+import { ServiceHookOptions } from "./service-hook-options";
+
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Options which can be supplied when generating a service hook which modifies records
+ */
+interface MutationServiceHookOptions extends ServiceHookOptions {
+    /**
+     * Route patterns of `useGet`, `useList` or `useNestedList` endpoints (ie. `users` or
+     * `users/:id`) whose cached results are invalidated, and refetched by any mounted hooks,
+     * after a successful request
+     *
+     * @type {string[]}
+     * @memberof MutationServiceHookOptions
+     */
+    invalidates?: string[];
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { MutationServiceHookOptions };
+
+// #endregion Export
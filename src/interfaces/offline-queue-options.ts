@@ -0,0 +1,78 @@
+import { AxiosInstance, AxiosResponse } from "axios";
+import { OfflineQueueStorage } from "./offline-queue-storage";
+import { QueuedMutation } from "./queued-mutation";
+
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+interface OfflineQueueOptions {
+    /**
+     * HTTP client used to replay queued mutations which were restored from storage, or queued
+     * without a function to send them, after running them through the global request
+     * middleware. Defaults to the global `axios` instance.
+     *
+     * @type {AxiosInstance}
+     * @memberof OfflineQueueOptions
+     */
+    client?: AxiosInstance;
+
+    /**
+     * Called when a replayed mutation is rejected with a `409` or `412` status, because the
+     * record changed on the server while offline. The mutation is removed from the queue.
+     *
+     * @memberof OfflineQueueOptions
+     */
+    onConflict?: (mutation: QueuedMutation, error: any) => void;
+
+    /**
+     * Called when a replayed mutation is rejected with any other status. The mutation is
+     * removed from the queue.
+     *
+     * @memberof OfflineQueueOptions
+     */
+    onError?: (mutation: QueuedMutation, error: any) => void;
+
+    /**
+     * Called when a replayed mutation succeeds
+     *
+     * @memberof OfflineQueueOptions
+     */
+    onReplay?: (mutation: QueuedMutation, response: AxiosResponse) => void;
+
+    /**
+     * Replays queued mutations when the queue is created while online (ie. mutations restored
+     * from storage) and whenever the browser comes back online. Defaults to `true`.
+     *
+     * @type {boolean}
+     * @memberof OfflineQueueOptions
+     */
+    replayOnReconnect?: boolean;
+
+    /**
+     * Storage queued mutations are persisted to. Defaults to `localStorage`, or to memory when
+     * it is unavailable (ie. while rendering on the server).
+     *
+     * @type {OfflineQueueStorage}
+     * @memberof OfflineQueueOptions
+     */
+    storage?: OfflineQueueStorage;
+
+    /**
+     * Key queued mutations are persisted under. Defaults to `offline-mutation-queue`.
+     *
+     * @type {string}
+     * @memberof OfflineQueueOptions
+     */
+    storageKey?: string;
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { OfflineQueueOptions };
+
+// #endregion Export
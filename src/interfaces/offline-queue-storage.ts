@@ -0,0 +1,23 @@
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Synchronous key/value storage used to persist queued mutations, which `localStorage` and
+ * `sessionStorage` already implement
+ */
+interface OfflineQueueStorage {
+    getItem: (key: string) => string | null;
+    removeItem: (key: string) => void;
+    setItem: (key: string, value: string) => void;
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { OfflineQueueStorage };
+
+// #endregion Export
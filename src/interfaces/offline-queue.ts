@@ -0,0 +1,85 @@
+import { AxiosResponse } from "axios";
+import { OfflineQueueStatus } from "../enumerations/offline-queue-status";
+import { QueuedMutation } from "./queued-mutation";
+import { ServiceRequest } from "./service-request";
+
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Persistent queue of mutation requests made while offline, replayed in order once back online
+ */
+interface OfflineQueue {
+    /**
+     * Removes every queued mutation without sending it
+     *
+     * @memberof OfflineQueue
+     */
+    clear: () => void;
+
+    /**
+     * Stops replaying queued mutations when the browser comes back online and removes every
+     * listener
+     *
+     * @memberof OfflineQueue
+     */
+    dispose: () => void;
+
+    /**
+     * Persists the request to be sent when back online. When supplied, `send` is used to replay
+     * it (ie. through the middleware and client of the service factory which queued it).
+     * Otherwise, or once restored from storage, it is sent through the queue's `client`.
+     *
+     * @memberof OfflineQueue
+     */
+    enqueue: (
+        request: ServiceRequest,
+        send?: (request: ServiceRequest) => Promise<AxiosResponse>
+    ) => QueuedMutation;
+
+    /**
+     * @memberof OfflineQueue
+     */
+    getStatus: () => OfflineQueueStatus;
+
+    /**
+     * Returns the queued mutations, oldest first
+     *
+     * @memberof OfflineQueue
+     */
+    list: () => Array<QueuedMutation>;
+
+    /**
+     * Removes the queued mutation without sending it
+     *
+     * @memberof OfflineQueue
+     */
+    remove: (id: string) => void;
+
+    /**
+     * Sends each queued mutation in order, stopping at the first which fails without a
+     * response (ie. still offline). Resolves once replay stops.
+     *
+     * @memberof OfflineQueue
+     */
+    replay: () => Promise<void>;
+
+    /**
+     * Registers a listener called whenever the queued mutations or status change
+     *
+     * @memberof OfflineQueue
+     * @returns function to unregister the listener
+     */
+    subscribe: (listener: () => void) => () => void;
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { OfflineQueue };
+
+// #endregion Export
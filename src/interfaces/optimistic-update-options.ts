@@ -0,0 +1,30 @@
+import { OptimisticUpdate } from "../types/optimistic-update-type";
+
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Options which can be supplied when calling a service hook which modifies records
+ */
+interface OptimisticUpdateOptions<TParams extends any[]> {
+    /**
+     * Applies the changes to locally held records (ie. `values` from `useQuery`) before the
+     * request completes, returning a function to roll them back if the request fails or is
+     * cancelled
+     *
+     * @type {OptimisticUpdate<TParams>}
+     * @memberof OptimisticUpdateOptions
+     */
+    optimisticUpdate?: OptimisticUpdate<TParams>;
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { OptimisticUpdateOptions };
+
+// #endregion Export
@@ -0,0 +1,49 @@
+import { PageMessageSeverity } from "../enumerations/page-message-severity";
+
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Options supplied when adding a message to the page
+ */
+interface PageMessageOptions {
+    /**
+     * Milliseconds after which the message is dismissed automatically. Overrides the
+     * `expireAfter` supplied to `usePageErrors`.
+     *
+     * @type {number}
+     * @memberof PageMessageOptions
+     */
+    expireAfter?: number;
+
+    /**
+     * @type {string}
+     * @memberof PageMessageOptions
+     */
+    key?: string;
+
+    /**
+     * Defaults to `PageMessageSeverity.Error`
+     *
+     * @type {PageMessageSeverity}
+     * @memberof PageMessageOptions
+     */
+    severity?: PageMessageSeverity;
+
+    /**
+     * @type {string}
+     * @memberof PageMessageOptions
+     */
+    source?: string;
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { PageMessageOptions };
+
+// #endregion Export
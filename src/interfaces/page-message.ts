@@ -0,0 +1,64 @@
+import { PageMessageSeverity } from "../enumerations/page-message-severity";
+
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Message displayed on the page, such as an error returned from a service call
+ */
+interface PageMessage {
+    /**
+     * Unique identifier used to dismiss the message
+     *
+     * @type {string}
+     * @memberof PageMessage
+     */
+    id: string;
+
+    /**
+     * Key of the `ResultRecord` error the message was created from
+     *
+     * @type {string}
+     * @memberof PageMessage
+     */
+    key?: string;
+
+    /**
+     * @type {string}
+     * @memberof PageMessage
+     */
+    message: string;
+
+    /**
+     * @type {PageMessageSeverity}
+     * @memberof PageMessage
+     */
+    severity: PageMessageSeverity;
+
+    /**
+     * Name of what produced the message (ie. the service call which failed)
+     *
+     * @type {string}
+     * @memberof PageMessage
+     */
+    source?: string;
+
+    /**
+     * Time in milliseconds the message was last added
+     *
+     * @type {number}
+     * @memberof PageMessage
+     */
+    timestamp: number;
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { PageMessage };
+
+// #endregion Export
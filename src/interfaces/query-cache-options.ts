@@ -0,0 +1,35 @@
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Options controlling how long query results are considered fresh and kept in a `QueryCache`
+ */
+interface QueryCacheOptions {
+    /**
+     * Milliseconds an unused entry is kept before it is removed from the cache
+     *
+     * @type {number}
+     * @memberof QueryCacheOptions
+     */
+    cacheTime?: number;
+
+    /**
+     * Milliseconds after being fetched that an entry is returned without revalidating it.
+     * Stale entries are still returned immediately, while being revalidated in the background.
+     *
+     * @type {number}
+     * @memberof QueryCacheOptions
+     */
+    staleTime?: number;
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { QueryCacheOptions };
+
+// #endregion Export
@@ -0,0 +1,64 @@
+import { QueryCacheOptions } from "./query-cache-options";
+
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+/**
+ * In-memory store of query results keyed by their resolved url
+ */
+interface QueryCache {
+    /**
+     * Removes every entry from the cache
+     *
+     * @memberof QueryCache
+     */
+    clear: () => void;
+
+    /**
+     * Returns the cached value for the key when fresh. When stale, returns the cached value
+     * and revalidates it in the background. Otherwise calls the fetcher, sharing a single
+     * in-flight request between concurrent callers of the same key.
+     *
+     * @memberof QueryCache
+     */
+    fetch: <T>(
+        key: string,
+        fetcher: () => Promise<T>,
+        options?: QueryCacheOptions
+    ) => Promise<T>;
+
+    /**
+     * Returns the cached value for the key, if any
+     *
+     * @memberof QueryCache
+     */
+    get: <T>(key: string) => T | undefined;
+
+    /**
+     * Marks every entry whose key matches the supplied route pattern (ie. `records/:id`) as
+     * stale and notifies listeners, so mounted hooks refetch them
+     *
+     * @memberof QueryCache
+     */
+    invalidate: (pattern: string) => void;
+
+    /**
+     * Registers a listener called with the key of any entry whose value changed after a
+     * background revalidation, or which was invalidated
+     *
+     * @returns function to unsubscribe the listener
+     * @memberof QueryCache
+     */
+    subscribe: (listener: (key: string) => void) => () => void;
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { QueryCache };
+
+// #endregion Export
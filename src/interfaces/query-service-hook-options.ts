@@ -0,0 +1,30 @@
+import { QueryCacheOptions } from "./query-cache-options";
+import { ServiceHookOptions } from "./service-hook-options";
+
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Options which can be supplied when generating a service hook which reads records
+ */
+interface QueryServiceHookOptions extends ServiceHookOptions {
+    /**
+     * Serves results from the `QueryCache` of the nearest `QueryCacheProvider`. Supply `true`
+     * to use the cache's default options. Results are not cached by default.
+     *
+     * @type {(boolean | QueryCacheOptions)}
+     * @memberof QueryServiceHookOptions
+     */
+    cache?: boolean | QueryCacheOptions;
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { QueryServiceHookOptions };
+
+// #endregion Export
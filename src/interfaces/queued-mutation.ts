@@ -0,0 +1,61 @@
+import { HttpVerb } from "andculturecode-javascript-core";
+
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Mutation request stored by an offline queue until it can be sent
+ */
+interface QueuedMutation {
+    /**
+     * @type {*}
+     * @memberof QueuedMutation
+     */
+    data?: any;
+
+    /**
+     * Headers the request was made with. Headers added by middleware are not persisted, as the
+     * middleware runs again when the mutation is replayed.
+     *
+     * @type {*}
+     * @memberof QueuedMutation
+     */
+    headers?: any;
+
+    /**
+     * @type {string}
+     * @memberof QueuedMutation
+     */
+    id: string;
+
+    /**
+     * @type {HttpVerb}
+     * @memberof QueuedMutation
+     */
+    method: HttpVerb;
+
+    /**
+     * Time in milliseconds the mutation was queued
+     *
+     * @type {number}
+     * @memberof QueuedMutation
+     */
+    queuedOn: number;
+
+    /**
+     * @type {string}
+     * @memberof QueuedMutation
+     */
+    url: string;
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { QueuedMutation };
+
+// #endregion Export
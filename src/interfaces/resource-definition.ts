@@ -0,0 +1,45 @@
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Endpoints of a resource, used to generate all of its service functions at once
+ */
+interface ResourceDefinition {
+    /**
+     * Endpoint of the resource collection (ie. `users` or `users/:userId/posts`), used by
+     * `bulkUpdate`, `create` and `list`
+     *
+     * @type {string}
+     * @memberof ResourceDefinition
+     */
+    baseEndpoint: string;
+
+    /**
+     * When `true`, the base endpoint contains path params and nested `create` and `list`
+     * functions are generated
+     *
+     * @type {boolean}
+     * @memberof ResourceDefinition
+     */
+    nested?: boolean;
+
+    /**
+     * Endpoint of a single resource (ie. `users/:id`), used by `delete`, `get`, `patch` and
+     * `update`
+     *
+     * @type {string}
+     * @memberof ResourceDefinition
+     */
+    resourceEndpoint: string;
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { ResourceDefinition };
+
+// #endregion Export
@@ -0,0 +1,77 @@
+import { BackoffStrategy } from "../enumerations/backoff-strategy";
+
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Describes if and how a failed service request is retried. Any value not supplied falls
+ * back to the default policy.
+ */
+interface RetryPolicy {
+    /**
+     * Strategy (or custom function of the attempt number) used to calculate the delay in
+     * milliseconds before the next attempt
+     *
+     * @memberof RetryPolicy
+     */
+    backoff?: BackoffStrategy | ((attempt: number) => number);
+
+    /**
+     * Delay in milliseconds the backoff strategy is based on
+     *
+     * @type {number}
+     * @memberof RetryPolicy
+     */
+    baseDelay?: number;
+
+    /**
+     * Randomizes each delay to keep many clients from retrying in lockstep
+     *
+     * @type {boolean}
+     * @memberof RetryPolicy
+     */
+    jitter?: boolean;
+
+    /**
+     * Total number of attempts, including the initial request
+     *
+     * @type {number}
+     * @memberof RetryPolicy
+     */
+    maxAttempts?: number;
+
+    /**
+     * Upper limit in milliseconds for any single delay
+     *
+     * @type {number}
+     * @memberof RetryPolicy
+     */
+    maxDelay?: number;
+
+    /**
+     * Retries requests which failed without receiving a response
+     *
+     * @type {boolean}
+     * @memberof RetryPolicy
+     */
+    retryOnNetworkError?: boolean;
+
+    /**
+     * HTTP status codes of responses which are retried
+     *
+     * @type {number[]}
+     * @memberof RetryPolicy
+     */
+    retryableStatusCodes?: number[];
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { RetryPolicy };
+
+// #endregion Export
@@ -0,0 +1,69 @@
+import { ServiceErrorHandler } from "../types/service-error-handler-type";
+
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Handlers for common service request failures, supplied through a `ServiceErrorProvider`.
+ * Errors without a more specific handler are passed to `onError`.
+ */
+interface ServiceErrorHandlers {
+    /**
+     * Called for any error without a more specific handler
+     *
+     * @type {ServiceErrorHandler}
+     * @memberof ServiceErrorHandlers
+     */
+    onError?: ServiceErrorHandler;
+
+    /**
+     * Called when a response has a `403` status
+     *
+     * @type {ServiceErrorHandler}
+     * @memberof ServiceErrorHandlers
+     */
+    onForbidden?: ServiceErrorHandler;
+
+    /**
+     * Called when a request failed without receiving a response
+     *
+     * @type {ServiceErrorHandler}
+     * @memberof ServiceErrorHandlers
+     */
+    onNetworkError?: ServiceErrorHandler;
+
+    /**
+     * Called when a response has a `404` status
+     *
+     * @type {ServiceErrorHandler}
+     * @memberof ServiceErrorHandlers
+     */
+    onNotFound?: ServiceErrorHandler;
+
+    /**
+     * Called when a response has a `5xx` status
+     *
+     * @type {ServiceErrorHandler}
+     * @memberof ServiceErrorHandlers
+     */
+    onServerError?: ServiceErrorHandler;
+
+    /**
+     * Called when a response has a `401` status (ie. to redirect to the login page)
+     *
+     * @type {ServiceErrorHandler}
+     * @memberof ServiceErrorHandlers
+     */
+    onUnauthorized?: ServiceErrorHandler;
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { ServiceErrorHandlers };
+
+// #endregion Export
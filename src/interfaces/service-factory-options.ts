@@ -0,0 +1,58 @@
+import { PatchFormat } from "../enumerations/patch-format";
+import { BatchOptions } from "./batch-options";
+import { RetryPolicy } from "./retry-policy";
+
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Options which can be supplied when generating a service function
+ */
+interface ServiceFactoryOptions {
+    /**
+     * When supplied, `get` requests made within the same tick are combined into a single list
+     * request filtered by id, with each caller receiving its own record. Only used by `get`
+     * service functions, and not for calls supplying request config (ie. a cancel token).
+     *
+     * @type {BatchOptions}
+     * @memberof ServiceFactoryOptions
+     */
+    batch?: BatchOptions;
+
+    /**
+     * Name of the record property holding its identifier, which is also the name of the path
+     * param it replaces in the endpoint route (ie. `slug` for `articles/:slug`). Defaults to `id`.
+     *
+     * @type {string}
+     * @memberof ServiceFactoryOptions
+     */
+    idProperty?: string;
+
+    /**
+     * Format of the request body sent by `patch` service functions. Defaults to
+     * `PatchFormat.JsonMergePatch`.
+     *
+     * @type {PatchFormat}
+     * @memberof ServiceFactoryOptions
+     */
+    patchFormat?: PatchFormat;
+
+    /**
+     * Policy for retrying failed requests, or `false` to never retry. By default only
+     * `GET` and `DELETE` requests are retried.
+     *
+     * @memberof ServiceFactoryOptions
+     */
+    retryPolicy?: RetryPolicy | false;
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { ServiceFactoryOptions };
+
+// #endregion Export
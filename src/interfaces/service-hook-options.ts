@@ -0,0 +1,30 @@
+import { ServiceFactoryOptions } from "./service-factory-options";
+
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Options which can be supplied when generating any service hook
+ */
+interface ServiceHookOptions extends ServiceFactoryOptions {
+    /**
+     * Whether failed requests are passed to the nearest `ServiceErrorProvider`. Supply a function
+     * to decide per error (ie. `(error) => error.response?.status !== 400` to handle validation
+     * errors in the form instead). Defaults to `true`.
+     *
+     * @type {(boolean | ((error: any) => boolean))}
+     * @memberof ServiceHookOptions
+     */
+    handleErrors?: boolean | ((error: any) => boolean);
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { ServiceHookOptions };
+
+// #endregion Export
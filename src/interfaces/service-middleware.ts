@@ -0,0 +1,53 @@
+import { AxiosResponse } from "axios";
+import { ServiceRequest } from "./service-request";
+
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Hook points run by generated service functions between building a request and mapping
+ * its response into a `ServiceResponse`
+ */
+interface ServiceMiddleware {
+    /**
+     * Called when the request fails. Return (or resolve) a response to recover from the
+     * error, or throw to pass a (possibly translated) error to the next middleware.
+     *
+     * @memberof ServiceMiddleware
+     */
+    onError?: (
+        error: any,
+        request: ServiceRequest
+    ) => AxiosResponse | Promise<AxiosResponse>;
+
+    /**
+     * Called before the request is sent. Returns the request to send, ie. with additional
+     * headers or a rewritten url.
+     *
+     * @memberof ServiceMiddleware
+     */
+    onRequest?: (
+        request: ServiceRequest
+    ) => ServiceRequest | Promise<ServiceRequest>;
+
+    /**
+     * Called with a successful response before it is mapped, ie. to unwrap an envelope.
+     *
+     * @memberof ServiceMiddleware
+     */
+    onResponse?: (
+        response: AxiosResponse,
+        request: ServiceRequest
+    ) => AxiosResponse | Promise<AxiosResponse>;
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { ServiceMiddleware };
+
+// #endregion Export
@@ -0,0 +1,29 @@
+import { CancelToken } from "axios";
+
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Per-request configuration which can be supplied to any generated service function
+ */
+interface ServiceRequestConfig {
+    /**
+     * Token used to abort the underlying network request. When cancelled, the service
+     * promise rejects with an `axios.Cancel` (check via `axios.isCancel(error)`)
+     *
+     * @type {CancelToken}
+     * @memberof ServiceRequestConfig
+     */
+    cancelToken?: CancelToken;
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { ServiceRequestConfig };
+
+// #endregion Export
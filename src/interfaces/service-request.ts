@@ -0,0 +1,76 @@
+import { HttpVerb } from "andculturecode-javascript-core";
+import { ResponseType } from "axios";
+import { ServiceRequestConfig } from "./service-request-config";
+
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Description of a request built by a generated service function, before it is sent
+ */
+interface ServiceRequest extends ServiceRequestConfig {
+    /**
+     * Body of the request (`POST`, `PUT` and `PATCH` only)
+     *
+     * @type {*}
+     * @memberof ServiceRequest
+     */
+    data?: any;
+
+    /**
+     * Additional HTTP headers to send with the request
+     *
+     * @type {*}
+     * @memberof ServiceRequest
+     */
+    headers?: any;
+
+    /**
+     * HTTP verb of the request
+     *
+     * @type {HttpVerb}
+     * @memberof ServiceRequest
+     */
+    method: HttpVerb;
+
+    /**
+     * Called with the client's progress events as the response body is received
+     *
+     * @memberof ServiceRequest
+     */
+    onDownloadProgress?: (event: ProgressEvent) => void;
+
+    /**
+     * Called with the client's progress events as the request body is sent
+     *
+     * @memberof ServiceRequest
+     */
+    onUploadProgress?: (event: ProgressEvent) => void;
+
+    /**
+     * Type of data the response body is read as. Defaults to `json`.
+     *
+     * @type {ResponseType}
+     * @memberof ServiceRequest
+     */
+    responseType?: ResponseType;
+
+    /**
+     * Resolved url of the request, with path and query parameters applied
+     *
+     * @type {string}
+     * @memberof ServiceRequest
+     */
+    url: string;
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { ServiceRequest };
+
+// #endregion Export
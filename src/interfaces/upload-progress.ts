@@ -0,0 +1,51 @@
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Progress of a file being uploaded
+ */
+interface UploadProgress {
+    /**
+     * Number of bytes of the file sent so far
+     *
+     * @type {number}
+     * @memberof UploadProgress
+     */
+    loaded: number;
+
+    /**
+     * Whole percentage (0 - 100) of the file sent so far
+     *
+     * @type {number}
+     * @memberof UploadProgress
+     */
+    percent: number;
+
+    /**
+     * Byte offset a failed chunked upload can be resumed from, by supplying it as the
+     * `startByte` of the next upload. Only advances once a chunk has been accepted by the server.
+     *
+     * @type {number}
+     * @memberof UploadProgress
+     */
+    resumeFrom: number;
+
+    /**
+     * Size of the file in bytes
+     *
+     * @type {number}
+     * @memberof UploadProgress
+     */
+    total: number;
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { UploadProgress };
+
+// #endregion Export
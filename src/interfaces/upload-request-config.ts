@@ -0,0 +1,37 @@
+import { ServiceRequestConfig } from "./service-request-config";
+import { UploadProgress } from "./upload-progress";
+
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Per-request configuration which can be supplied to a generated upload service function
+ */
+interface UploadRequestConfig extends ServiceRequestConfig {
+    /**
+     * Called as the file is sent, and again as each chunk is accepted by the server
+     *
+     * @memberof UploadRequestConfig
+     */
+    onUploadProgress?: (progress: UploadProgress) => void;
+
+    /**
+     * Byte offset to resume a chunked upload from (see `UploadProgress.resumeFrom`). Ignored
+     * when the file is not sent in chunks.
+     *
+     * @type {number}
+     * @memberof UploadRequestConfig
+     */
+    startByte?: number;
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { UploadRequestConfig };
+
+// #endregion Export
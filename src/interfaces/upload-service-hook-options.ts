@@ -0,0 +1,23 @@
+import { MutationServiceHookOptions } from "./mutation-service-hook-options";
+import { UploadServiceOptions } from "./upload-service-options";
+
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Options which can be supplied when generating an upload service hook
+ */
+interface UploadServiceHookOptions
+    extends MutationServiceHookOptions,
+        UploadServiceOptions {}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { UploadServiceHookOptions };
+
+// #endregion Export
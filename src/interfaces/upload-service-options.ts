@@ -0,0 +1,37 @@
+import { ServiceFactoryOptions } from "./service-factory-options";
+
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Options which can be supplied when generating an upload service function
+ */
+interface UploadServiceOptions extends ServiceFactoryOptions {
+    /**
+     * Size in bytes of the chunks larger files are split into, each sent as its own request with
+     * a `Content-Range` header. When not supplied, files are sent in a single request.
+     *
+     * @type {number}
+     * @memberof UploadServiceOptions
+     */
+    chunkSize?: number;
+
+    /**
+     * Name of the multipart form field the file is sent in. Defaults to `file`.
+     *
+     * @type {string}
+     * @memberof UploadServiceOptions
+     */
+    fileField?: string;
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { UploadServiceOptions };
+
+// #endregion Export
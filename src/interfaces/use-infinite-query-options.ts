@@ -0,0 +1,52 @@
+import { ServiceResponse } from "andculturecode-javascript-core";
+import { UseQueryOptions } from "./use-query-options";
+
+/**
+ * Options of `useInfiniteQuery`, which shares those of `useQuery` except for polling
+ */
+export interface UseInfiniteQueryOptions<
+    TRecord,
+    TQueryParams,
+    TPathParams = undefined
+>
+    extends Omit<
+        UseQueryOptions<TRecord, TQueryParams, TPathParams>,
+        "refetchInterval" | "refetchUntil"
+    > {
+    /**
+     * Returns the param used to request the page after `lastPage` (ie. a cursor), or
+     * `undefined` when there are no more pages. Defaults to the number of records loaded so
+     * far, for use as `skip`.
+     */
+    getNextPageParam?: (
+        lastPage: ServiceResponse<TRecord>,
+        pages: Array<ServiceResponse<TRecord>>,
+        pageSize: number
+    ) => any;
+
+    /**
+     * Record property used to remove records appearing in more than one page. Defaults to `id`.
+     */
+    idProperty?: string;
+
+    /**
+     * Number of records requested per page. Defaults to `20`.
+     */
+    pageSize?: number;
+
+    /**
+     * Margin around the root used when observing the `sentinelRef` element (ie. `200px` to
+     * load the next page before the sentinel scrolls into view)
+     */
+    rootMargin?: string;
+
+    /**
+     * Maps the page param into the query params sent to the list service. The page param is
+     * `undefined` for the first page. Defaults to setting `skip` and `take` on the query.
+     */
+    toQueryParams?: (
+        query: TQueryParams,
+        pageParam: any,
+        pageSize: number
+    ) => TQueryParams;
+}
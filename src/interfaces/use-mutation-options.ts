@@ -0,0 +1,17 @@
+import {
+    CatchResultHandler,
+    ServiceResponse,
+} from "andculturecode-javascript-core";
+
+export interface UseMutationOptions<TParams extends any[], TRecord> {
+    onError?: CatchResultHandler<TRecord>;
+
+    /**
+     * Called after the mutation completes, whether or not it succeeded
+     */
+    onSettled?: () => void;
+    onSuccess?: (
+        response: ServiceResponse<TRecord>,
+        ...params: TParams
+    ) => void;
+}
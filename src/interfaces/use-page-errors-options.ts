@@ -0,0 +1,33 @@
+// -----------------------------------------------------------------------------------------
+// #region Interfaces
+// -----------------------------------------------------------------------------------------
+
+interface UsePageErrorsOptions {
+    /**
+     * Milliseconds after which messages are dismissed automatically. By default, messages
+     * remain until dismissed or reset.
+     *
+     * @type {number}
+     * @memberof UsePageErrorsOptions
+     */
+    expireAfter?: number;
+
+    /**
+     * Translates the key of each `ResultRecord` error into its message (ie. the `t` function
+     * returned from `useLocalization`). When the key has no translation, the error message
+     * from the server is used.
+     *
+     * @memberof UsePageErrorsOptions
+     */
+    translate?: (key: any) => string;
+}
+
+// #endregion Interfaces
+
+// -----------------------------------------------------------------------------------------
+// #region Export
+// -----------------------------------------------------------------------------------------
+
+export { UsePageErrorsOptions };
+
+// #endregion Export
@@ -0,0 +1,34 @@
+import { UseQueryOptions } from "./use-query-options";
+
+/**
+ * Options of `usePagedQuery`, which shares those of `useQuery` except for polling
+ */
+export interface UsePagedQueryOptions<
+    TRecord,
+    TQueryParams,
+    TPathParams = undefined
+>
+    extends Omit<
+        UseQueryOptions<TRecord, TQueryParams, TPathParams>,
+        "refetchInterval" | "refetchUntil"
+    > {
+    /**
+     * One-based page loaded first. Defaults to `1`.
+     */
+    initialPage?: number;
+
+    /**
+     * Number of records per page. Defaults to `20`.
+     */
+    initialPageSize?: number;
+
+    /**
+     * Maps the current page into the query params sent to the list service. Defaults to
+     * setting `skip` and `take` on the query.
+     */
+    toQueryParams?: (
+        query: TQueryParams,
+        page: number,
+        pageSize: number
+    ) => TQueryParams;
+}
@@ -0,0 +1,29 @@
+export interface UsePollingOptions<TValue> {
+    /**
+     * When `false`, polling is paused. Defaults to `true`.
+     */
+    enabled?: boolean;
+
+    /**
+     * Milliseconds to wait after each request completes before polling again. Doubles after each
+     * consecutive error (up to 32 times). Polling is disabled when not supplied.
+     */
+    interval?: number;
+
+    /**
+     * Whether a request is in flight. No poll is scheduled until it settles and is reported
+     * through `onPollSuccess` or `onPollError`.
+     */
+    loading?: boolean;
+
+    /**
+     * Requests the latest value, reporting the outcome through `onPollSuccess` or `onPollError`
+     */
+    poll: () => void;
+
+    /**
+     * Stops polling once it returns `true` for a successfully requested value (ie. a job in a
+     * terminal state)
+     */
+    until?: (value: TValue) => boolean;
+}
@@ -7,11 +7,33 @@ export interface UseQueryOptions<
     TQueryParams,
     TPathParams = undefined
 > {
+    /**
+     * When `false`, records are not requested until it becomes `true` or `refetch` is called.
+     * Defaults to `true`.
+     */
+    enabled?: boolean;
     serviceHook:
         | ListServiceHook<TRecord, TQueryParams>
         | NestedListServiceHook<TRecord, TPathParams, TQueryParams>;
     initialQuery: TQueryParams;
     initialPathParams?: TPathParams;
+
+    /**
+     * When `true`, records from the previous request are returned until the next request
+     * completes, rather than being cleared. Defaults to `false`.
+     */
+    keepPreviousData?: boolean;
     onSuccess?: (records: Array<TRecord>) => void;
     onError?: CatchResultHandler<TRecord>;
+
+    /**
+     * Milliseconds to wait after each request completes before requesting the records again.
+     * Polling pauses while the document is hidden and backs off after consecutive errors.
+     */
+    refetchInterval?: number;
+
+    /**
+     * Stops polling once it returns `true` for the requested records (ie. every job has finished)
+     */
+    refetchUntil?: (records: Array<TRecord>) => boolean;
 }
@@ -0,0 +1,35 @@
+import { CatchResultHandler } from "andculturecode-javascript-core";
+import { GetServiceHook } from "../types/get-service-hook-type";
+
+export interface UseRecordOptions<
+    TRecord,
+    TPathParams,
+    TQueryParams = undefined
+> {
+    /**
+     * When `false`, the record is not requested until it becomes `true` or `refetch` is called.
+     * Defaults to `true`.
+     */
+    enabled?: boolean;
+    onError?: CatchResultHandler<TRecord>;
+    onSuccess?: (record: TRecord) => void;
+
+    /**
+     * Path parameters identifying the record. The record is requested again whenever their
+     * values change.
+     */
+    pathParams: TPathParams;
+    queryParams?: TQueryParams;
+
+    /**
+     * Milliseconds to wait after each request completes before requesting the record again.
+     * Polling pauses while the document is hidden and backs off after consecutive errors.
+     */
+    refetchInterval?: number;
+
+    /**
+     * Stops polling once it returns `true` for the requested record (ie. a job that has finished)
+     */
+    refetchUntil?: (record: TRecord) => boolean;
+    serviceHook: GetServiceHook<TRecord, TPathParams, TQueryParams>;
+}
@@ -0,0 +1,102 @@
+import { BatchLoaderFactory } from "./batch-loader-factory";
+
+describe("BatchLoaderFactory", () => {
+    // -----------------------------------------------------------------------------------------
+    // #region load
+    // -----------------------------------------------------------------------------------------
+
+    describe("load", () => {
+        test("when called in the same tick, loads distinct keys in one batch", async () => {
+            // Arrange
+            const loadBatch = jest.fn((keys: number[]) =>
+                Promise.resolve(keys.map((key) => `value ${key}`))
+            );
+            const sut = BatchLoaderFactory.create(loadBatch);
+
+            // Act
+            const results = await Promise.all([
+                sut.load(1),
+                sut.load(2),
+                sut.load(1),
+            ]);
+
+            // Assert
+            expect(results).toEqual(["value 1", "value 2", "value 1"]);
+            expect(loadBatch).toHaveBeenCalledTimes(1);
+            expect(loadBatch).toHaveBeenCalledWith([1, 2]);
+        });
+
+        test("when called in separate ticks, loads each tick in its own batch", async () => {
+            // Arrange
+            const loadBatch = jest.fn((keys: number[]) =>
+                Promise.resolve(keys.map((key) => `value ${key}`))
+            );
+            const sut = BatchLoaderFactory.create(loadBatch);
+
+            // Act
+            await sut.load(1);
+            await sut.load(1);
+
+            // Assert
+            expect(loadBatch).toHaveBeenCalledTimes(2);
+        });
+
+        test("when keys exceed maxBatchSize, splits them across batches", async () => {
+            // Arrange
+            const loadBatch = jest.fn((keys: number[]) =>
+                Promise.resolve(keys.map((key) => `value ${key}`))
+            );
+            const sut = BatchLoaderFactory.create(loadBatch, 2);
+
+            // Act
+            const results = await Promise.all([
+                sut.load(1),
+                sut.load(2),
+                sut.load(3),
+            ]);
+
+            // Assert
+            expect(results).toEqual(["value 1", "value 2", "value 3"]);
+            expect(loadBatch).toHaveBeenCalledWith([1, 2]);
+            expect(loadBatch).toHaveBeenCalledWith([3]);
+        });
+
+        test("when batch returns Error for a key, rejects only that key", async () => {
+            // Arrange
+            const error = new Error("not found");
+            const sut = BatchLoaderFactory.create((keys: number[]) =>
+                Promise.resolve(
+                    keys.map((key) => (key === 2 ? error : `value ${key}`))
+                )
+            );
+
+            // Act
+            const results = await Promise.all([
+                sut.load(1),
+                sut.load(2).catch((e) => e),
+            ]);
+
+            // Assert
+            expect(results).toEqual(["value 1", error]);
+        });
+
+        test("when batch rejects, rejects every key in the batch", async () => {
+            // Arrange
+            const error = new Error("network error");
+            const sut = BatchLoaderFactory.create((keys: number[]) =>
+                Promise.reject(error)
+            );
+
+            // Act
+            const results = await Promise.all([
+                sut.load(1).catch((e) => e),
+                sut.load(2).catch((e) => e),
+            ]);
+
+            // Assert
+            expect(results).toEqual([error, error]);
+        });
+    });
+
+    // #endregion load
+});
@@ -0,0 +1,120 @@
+import { BatchLoader } from "../interfaces/batch-loader";
+
+// ---------------------------------------------------------------------------------------------
+// #region Constants
+// ---------------------------------------------------------------------------------------------
+
+const DEFAULT_MAX_BATCH_SIZE = 100;
+
+// #endregion Constants
+
+// ---------------------------------------------------------------------------------------------
+// #region Interfaces
+// ---------------------------------------------------------------------------------------------
+
+interface PendingLoad<TValue> {
+    promise: Promise<TValue>;
+    reject: (error: any) => void;
+    resolve: (value: TValue) => void;
+}
+
+// #endregion Interfaces
+
+// ---------------------------------------------------------------------------------------------
+// #region Public Functions
+// ---------------------------------------------------------------------------------------------
+
+/**
+ * Factory to create DataLoader-style batch loaders
+ */
+const BatchLoaderFactory = {
+    /**
+     * Creates a loader which calls `loadBatch` once per tick with every distinct key requested
+     * @param loadBatch loads the supplied keys, resolving with a value (or `Error` to reject
+     * that key) for each key, in the same order
+     * @param maxBatchSize largest number of keys supplied to a single `loadBatch` call
+     */
+    create<TKey, TValue>(
+        loadBatch: (keys: Array<TKey>) => Promise<Array<TValue | Error>>,
+        maxBatchSize: number = DEFAULT_MAX_BATCH_SIZE
+    ): BatchLoader<TKey, TValue> {
+        let pending = new Map<TKey, PendingLoad<TValue>>();
+
+        const dispatch = (batch: Map<TKey, PendingLoad<TValue>>) => {
+            const keys = Array.from(batch.keys());
+
+            for (let i = 0; i < keys.length; i += maxBatchSize) {
+                const chunk = keys.slice(i, i + maxBatchSize);
+
+                loadBatch(chunk)
+                    .then((values: Array<TValue | Error>) =>
+                        chunk.forEach((key: TKey, index: number) => {
+                            const value = values[index];
+                            const load = batch.get(key)!;
+
+                            if (value instanceof Error) {
+                                load.reject(value);
+                                return;
+                            }
+
+                            load.resolve(value);
+                        })
+                    )
+                    .catch((error: any) =>
+                        chunk.forEach((key: TKey) =>
+                            batch.get(key)!.reject(error)
+                        )
+                    );
+            }
+        };
+
+        return {
+            load: (key: TKey) => {
+                const existing = pending.get(key);
+                if (existing != null) {
+                    return existing.promise;
+                }
+
+                // Dispatch once the current tick has finished adding keys to the batch
+                if (pending.size === 0) {
+                    Promise.resolve().then(() => {
+                        const batch = pending;
+                        pending = new Map();
+                        dispatch(batch);
+                    });
+                }
+
+                const load = _createPendingLoad<TValue>();
+                pending.set(key, load);
+
+                return load.promise;
+            },
+        };
+    },
+};
+
+// #endregion Public Functions
+
+// ---------------------------------------------------------------------------------------------
+// #region Private Functions
+// ---------------------------------------------------------------------------------------------
+
+const _createPendingLoad = <TValue>(): PendingLoad<TValue> => {
+    const load = {} as PendingLoad<TValue>;
+    load.promise = new Promise<TValue>((resolve, reject) => {
+        load.resolve = resolve;
+        load.reject = reject;
+    });
+
+    return load;
+};
+
+// #endregion Private Functions
+
+// ---------------------------------------------------------------------------------------------
+// #region Exports
+// ---------------------------------------------------------------------------------------------
+
+export { BatchLoaderFactory };
+
+// #endregion Exports
@@ -0,0 +1,303 @@
+import { HttpVerb } from "andculturecode-javascript-core";
+import { OfflineQueueStorage } from "../interfaces/offline-queue-storage";
+import { ServiceMiddlewareUtils } from "../utilities/service-middleware-utils";
+import { OfflineQueueFactory } from "./offline-queue-factory";
+
+describe("OfflineQueueFactory", () => {
+    const buildStorage = (): OfflineQueueStorage & {
+        items: Record<string, string>;
+    } => {
+        const items: Record<string, string> = {};
+
+        return {
+            getItem: (key: string) => items[key] ?? null,
+            items,
+            removeItem: (key: string) => delete items[key],
+            setItem: (key: string, value: string) => (items[key] = value),
+        };
+    };
+
+    const buildRequest = (url: string) => ({
+        data: { name: url },
+        method: HttpVerb.Post,
+        url,
+    });
+
+    // -----------------------------------------------------------------------------------------
+    // #region enqueue
+    // -----------------------------------------------------------------------------------------
+
+    describe("enqueue", () => {
+        test("persists mutation to storage", () => {
+            // Arrange
+            const storage = buildStorage();
+            const sut = OfflineQueueFactory.create({ storage });
+
+            // Act
+            const mutation = sut.enqueue(buildRequest("records"));
+
+            // Assert
+            expect(sut.list()).toEqual([mutation]);
+            expect(
+                JSON.parse(storage.items["offline-mutation-queue"])
+            ).toEqual([mutation]);
+        });
+
+        test("when localStorage can't be written to, keeps mutations in memory", () => {
+            // Arrange
+            const setItem = jest
+                .spyOn(Storage.prototype, "setItem")
+                .mockImplementation(() => {
+                    throw new Error("QuotaExceededError");
+                });
+            const sut = OfflineQueueFactory.create({
+                replayOnReconnect: false,
+            });
+
+            // Act
+            const mutation = sut.enqueue(buildRequest("records"));
+            setItem.mockRestore();
+
+            // Assert
+            expect(sut.list()).toEqual([mutation]);
+            expect(
+                window.localStorage.getItem("offline-mutation-queue")
+            ).toBeNull();
+        });
+
+        test("when queues share storage, gives each mutation a unique id", () => {
+            // Arrange
+            const storage = buildStorage();
+            const firstQueue = OfflineQueueFactory.create({ storage });
+            const secondQueue = OfflineQueueFactory.create({ storage });
+
+            // Act
+            const first = firstQueue.enqueue(buildRequest("records"));
+            const second = secondQueue.enqueue(buildRequest("records"));
+
+            // Assert
+            expect(first.id).not.toBe(second.id);
+            expect(first.id).toMatch(
+                /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+            );
+        });
+
+        test("when created with persisted mutations, restores them", () => {
+            // Arrange
+            const storage = buildStorage();
+            const mutation = OfflineQueueFactory.create({ storage }).enqueue(
+                buildRequest("records")
+            );
+
+            // Act
+            const sut = OfflineQueueFactory.create({
+                replayOnReconnect: false,
+                storage,
+            });
+
+            // Assert
+            expect(sut.list()).toEqual([mutation]);
+        });
+
+        test("when created online with persisted mutations, replays them through global middleware", async () => {
+            // Arrange
+            const storage = buildStorage();
+            OfflineQueueFactory.create({
+                replayOnReconnect: false,
+                storage,
+            }).enqueue(buildRequest("records"));
+            const client = { request: jest.fn(() => Promise.resolve({})) };
+            const unregister = ServiceMiddlewareUtils.register({
+                onRequest: (request) => ({
+                    ...request,
+                    headers: { Authorization: "Bearer token" },
+                }),
+            });
+
+            // Act
+            const sut = OfflineQueueFactory.create({
+                client: client as any,
+                storage,
+            });
+            await sut.replay();
+            unregister();
+
+            // Assert
+            expect(client.request).toHaveBeenCalledWith({
+                data: { name: "records" },
+                headers: { Authorization: "Bearer token" },
+                method: HttpVerb.Post,
+                url: "records",
+            });
+            expect(sut.list()).toBeEmpty();
+            sut.dispose();
+        });
+    });
+
+    // #endregion enqueue
+
+    // -----------------------------------------------------------------------------------------
+    // #region dispose
+    // -----------------------------------------------------------------------------------------
+
+    describe("dispose", () => {
+        test("stops replaying mutations when back online", () => {
+            // Arrange
+            const client = { request: jest.fn(() => Promise.resolve({})) };
+            const sut = OfflineQueueFactory.create({
+                client: client as any,
+                storage: buildStorage(),
+            });
+            sut.enqueue(buildRequest("records"));
+
+            // Act
+            sut.dispose();
+            window.dispatchEvent(new Event("online"));
+
+            // Assert
+            expect(client.request).not.toHaveBeenCalled();
+        });
+    });
+
+    // #endregion dispose
+
+    // -----------------------------------------------------------------------------------------
+    // #region replay
+    // -----------------------------------------------------------------------------------------
+
+    describe("replay", () => {
+        test("sends mutations in the order they were queued", async () => {
+            // Arrange
+            const client = { request: jest.fn(() => Promise.resolve({})) };
+            const onReplay = jest.fn();
+            const sut = OfflineQueueFactory.create({
+                client: client as any,
+                onReplay,
+                storage: buildStorage(),
+            });
+            sut.enqueue(buildRequest("first"));
+            sut.enqueue(buildRequest("second"));
+
+            // Act
+            await sut.replay();
+
+            // Assert
+            expect(client.request).toHaveBeenNthCalledWith(1, {
+                data: { name: "first" },
+                headers: undefined,
+                method: HttpVerb.Post,
+                url: "first",
+            });
+            expect(client.request).toHaveBeenNthCalledWith(
+                2,
+                expect.objectContaining({ url: "second" })
+            );
+            expect(onReplay).toHaveBeenCalledTimes(2);
+            expect(sut.list()).toBeEmpty();
+        });
+
+        test("when mutation was enqueued with send, replays it through send", async () => {
+            // Arrange
+            const client = { request: jest.fn(() => Promise.resolve({})) };
+            const send = jest.fn(() => Promise.resolve({} as any));
+            const sut = OfflineQueueFactory.create({
+                client: client as any,
+                storage: buildStorage(),
+            });
+            sut.enqueue(buildRequest("records"), send);
+
+            // Act
+            await sut.replay();
+
+            // Assert
+            expect(send).toHaveBeenCalledWith({
+                data: { name: "records" },
+                headers: undefined,
+                method: HttpVerb.Post,
+                url: "records",
+            });
+            expect(client.request).not.toHaveBeenCalled();
+        });
+
+        test("when request fails without response, stops and keeps remaining mutations", async () => {
+            // Arrange
+            const client = {
+                request: jest.fn(() =>
+                    Promise.reject(new Error("Network Error"))
+                ),
+            };
+            const sut = OfflineQueueFactory.create({
+                client: client as any,
+                storage: buildStorage(),
+            });
+            sut.enqueue(buildRequest("first"));
+            sut.enqueue(buildRequest("second"));
+
+            // Act
+            await sut.replay();
+
+            // Assert
+            expect(client.request).toHaveBeenCalledTimes(1);
+            expect(sut.list()).toHaveLength(2);
+        });
+
+        test.each`
+            status | handlerName
+            ${409} | ${"onConflict"}
+            ${412} | ${"onConflict"}
+            ${400} | ${"onError"}
+        `(
+            "when response status is $status, calls $handlerName and removes mutation",
+            async ({ status, handlerName }) => {
+                // Arrange
+                const error = { response: { status } };
+                const client = {
+                    request: jest
+                        .fn()
+                        .mockRejectedValueOnce(error)
+                        .mockResolvedValue({}),
+                };
+                const handler = jest.fn();
+                const sut = OfflineQueueFactory.create({
+                    client: client as any,
+                    [handlerName]: handler,
+                    storage: buildStorage(),
+                });
+                const mutation = sut.enqueue(buildRequest("first"));
+                sut.enqueue(buildRequest("second"));
+
+                // Act
+                await sut.replay();
+
+                // Assert
+                expect(handler).toHaveBeenCalledWith(mutation, error);
+                expect(client.request).toHaveBeenCalledTimes(2);
+                expect(sut.list()).toBeEmpty();
+            }
+        );
+    });
+
+    // #endregion replay
+
+    // -----------------------------------------------------------------------------------------
+    // #region subscribe
+    // -----------------------------------------------------------------------------------------
+
+    describe("subscribe", () => {
+        test("calls listener when mutations change", () => {
+            // Arrange
+            const sut = OfflineQueueFactory.create({ storage: buildStorage() });
+            const listener = jest.fn();
+            sut.subscribe(listener);
+
+            // Act
+            const mutation = sut.enqueue(buildRequest("records"));
+            sut.remove(mutation.id);
+
+            // Assert
+            expect(listener).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    // #endregion subscribe
+});
@@ -0,0 +1,294 @@
+import axios, { AxiosInstance, AxiosResponse } from "axios";
+import { OfflineQueueStatus } from "../enumerations/offline-queue-status";
+import { OfflineQueue } from "../interfaces/offline-queue";
+import { OfflineQueueOptions } from "../interfaces/offline-queue-options";
+import { OfflineQueueStorage } from "../interfaces/offline-queue-storage";
+import { QueuedMutation } from "../interfaces/queued-mutation";
+import { ServiceRequest } from "../interfaces/service-request";
+import { ServiceMiddlewareUtils } from "../utilities/service-middleware-utils";
+
+// ---------------------------------------------------------------------------------------------
+// #region Constants
+// ---------------------------------------------------------------------------------------------
+
+/**
+ * Response statuses indicating the record changed on the server while the mutation was queued
+ */
+const CONFLICT_STATUSES = [409, 412];
+
+const DEFAULT_STORAGE_KEY = "offline-mutation-queue";
+
+// #endregion Constants
+
+// ---------------------------------------------------------------------------------------------
+// #region Public Functions
+// ---------------------------------------------------------------------------------------------
+
+/**
+ * Factory to create persistent queues of mutations made while offline
+ */
+const OfflineQueueFactory = {
+    /**
+     * Creates a queue, restoring any mutations previously persisted under the same storage key
+     * @param options
+     */
+    create(options: OfflineQueueOptions = {}): OfflineQueue {
+        const {
+            client = axios,
+            onConflict,
+            onError,
+            onReplay,
+            replayOnReconnect = true,
+            storageKey = DEFAULT_STORAGE_KEY,
+        } = options;
+
+        const storage = options.storage ?? _getDefaultStorage();
+        const listeners = new Set<() => void>();
+        let mutations = _restore(storage, storageKey);
+        let replaying: Promise<void> | undefined;
+
+        /**
+         * Functions supplied to send queued mutations, by mutation id. Not persisted, so
+         * restored mutations are sent through the client instead.
+         */
+        const senders = new Map<
+            string,
+            (request: ServiceRequest) => Promise<AxiosResponse>
+        >();
+
+        const notify = () => listeners.forEach((listener) => listener());
+
+        const setMutations = (updated: Array<QueuedMutation>) => {
+            mutations = updated;
+
+            if (mutations.length === 0) {
+                storage.removeItem(storageKey);
+            } else {
+                storage.setItem(storageKey, JSON.stringify(mutations));
+            }
+
+            notify();
+        };
+
+        const remove = (id: string) => {
+            senders.delete(id);
+            setMutations(
+                mutations.filter(
+                    (mutation: QueuedMutation) => mutation.id !== id
+                )
+            );
+        };
+
+        const sendAll = async () => {
+            while (mutations.length > 0) {
+                const mutation = mutations[0];
+                const { data, headers, method, url } = mutation;
+                const send =
+                    senders.get(mutation.id) ??
+                    ((request: ServiceRequest) =>
+                        _sendWithClient(client, request));
+
+                try {
+                    const response = await send({ data, headers, method, url });
+                    remove(mutation.id);
+                    onReplay?.(mutation, response);
+                } catch (error) {
+                    // Without a response the server is still unreachable, so try again later
+                    if (error?.response == null) {
+                        return;
+                    }
+
+                    remove(mutation.id);
+
+                    const handler = CONFLICT_STATUSES.includes(
+                        error.response.status
+                    )
+                        ? onConflict
+                        : onError;
+                    handler?.(mutation, error);
+                }
+            }
+        };
+
+        const replayWhenOnline = () => queue.replay();
+
+        const queue: OfflineQueue = {
+            clear: () => {
+                senders.clear();
+                setMutations([]);
+            },
+
+            dispose: () => {
+                if (typeof window !== "undefined") {
+                    window.removeEventListener("online", replayWhenOnline);
+                }
+
+                listeners.clear();
+            },
+
+            enqueue: (
+                request: ServiceRequest,
+                send?: (request: ServiceRequest) => Promise<AxiosResponse>
+            ) => {
+                const { data, headers, method, url } = request;
+                const mutation: QueuedMutation = {
+                    data,
+                    headers,
+                    id: _createId(),
+                    method,
+                    queuedOn: Date.now(),
+                    url,
+                };
+
+                if (send != null) {
+                    senders.set(mutation.id, send);
+                }
+
+                setMutations([...mutations, mutation]);
+
+                return mutation;
+            },
+
+            getStatus: () =>
+                replaying != null
+                    ? OfflineQueueStatus.Replaying
+                    : OfflineQueueStatus.Idle,
+
+            list: () => [...mutations],
+
+            remove,
+
+            replay: () => {
+                if (replaying != null) {
+                    return replaying;
+                }
+
+                replaying = sendAll().finally(() => {
+                    replaying = undefined;
+                    notify();
+                });
+                notify();
+
+                return replaying;
+            },
+
+            subscribe: (listener: () => void) => {
+                listeners.add(listener);
+
+                return () => {
+                    listeners.delete(listener);
+                };
+            },
+        };
+
+        if (replayOnReconnect && typeof window !== "undefined") {
+            window.addEventListener("online", replayWhenOnline);
+
+            // Mutations restored from storage would otherwise wait for the next reconnect
+            if (mutations.length > 0 && _isOnline()) {
+                queue.replay();
+            }
+        }
+
+        return queue;
+    },
+};
+
+// #endregion Public Functions
+
+// ---------------------------------------------------------------------------------------------
+// #region Private Functions
+// ---------------------------------------------------------------------------------------------
+
+/**
+ * Creates a random, version 4 style UUID, so mutations queued by different tabs sharing the
+ * same storage don't collide
+ */
+const _createId = (): string =>
+    "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(
+        /[xy]/g,
+        (character: string) => {
+            const random = Math.floor(Math.random() * 16);
+            const value = character === "x" ? random : (random % 4) + 8;
+
+            return value.toString(16);
+        }
+    );
+
+/**
+ * Storage which only keeps values in memory, used when `localStorage` is unavailable
+ */
+const _createMemoryStorage = (): OfflineQueueStorage => {
+    const items = new Map<string, string>();
+
+    return {
+        getItem: (key: string) => items.get(key) ?? null,
+        removeItem: (key: string) => {
+            items.delete(key);
+        },
+        setItem: (key: string, value: string) => {
+            items.set(key, value);
+        },
+    };
+};
+
+/**
+ * Returns `localStorage` when it can be written to, otherwise in-memory storage. Accessing it
+ * throws while rendering on the server, and writing to it throws in some private browsing modes.
+ */
+const _getDefaultStorage = (): OfflineQueueStorage => {
+    try {
+        const storage = window.localStorage;
+        storage.setItem(DEFAULT_STORAGE_KEY + "-test", "");
+        storage.removeItem(DEFAULT_STORAGE_KEY + "-test");
+
+        return storage;
+    } catch {
+        return _createMemoryStorage();
+    }
+};
+
+const _isOnline = () =>
+    typeof navigator === "undefined" || navigator.onLine !== false;
+
+const _restore = (
+    storage: OfflineQueueStorage,
+    storageKey: string
+): Array<QueuedMutation> => {
+    try {
+        const persisted = storage.getItem(storageKey);
+
+        return persisted != null ? JSON.parse(persisted) : [];
+    } catch {
+        return [];
+    }
+};
+
+/**
+ * Sends a mutation which has no function to send it, after running it through the global
+ * request middleware (ie. to add an authorization token)
+ */
+const _sendWithClient = async (
+    client: AxiosInstance,
+    request: ServiceRequest
+): Promise<AxiosResponse> => {
+    for (const m of ServiceMiddlewareUtils.list()) {
+        if (m.onRequest != null) {
+            request = await m.onRequest(request);
+        }
+    }
+
+    const { data, headers, method, url } = request;
+
+    return client.request({ data, headers, method, url });
+};
+
+// #endregion Private Functions
+
+// ---------------------------------------------------------------------------------------------
+// #region Exports
+// ---------------------------------------------------------------------------------------------
+
+export { OfflineQueueFactory };
+
+// #endregion Exports
@@ -0,0 +1,198 @@
+import { CoreUtils } from "andculturecode-javascript-core";
+import { QueryCacheFactory } from "./query-cache-factory";
+
+describe("QueryCacheFactory", () => {
+    // -----------------------------------------------------------------------------------------
+    // #region fetch
+    // -----------------------------------------------------------------------------------------
+
+    describe("fetch", () => {
+        test("when key is not cached, calls fetcher and returns its value", async () => {
+            // Arrange
+            const sut = QueryCacheFactory.create();
+            const fetcher = jest.fn(() => Promise.resolve("value"));
+
+            // Act
+            const result = await sut.fetch("records", fetcher);
+
+            // Assert
+            expect(result).toBe("value");
+            expect(fetcher).toHaveBeenCalledTimes(1);
+            expect(sut.get("records")).toBe("value");
+        });
+
+        test("when called concurrently for the same key, calls fetcher once", async () => {
+            // Arrange
+            const sut = QueryCacheFactory.create();
+            const fetcher = jest.fn(() => Promise.resolve("value"));
+
+            // Act
+            const results = await Promise.all([
+                sut.fetch("records", fetcher),
+                sut.fetch("records", fetcher),
+            ]);
+
+            // Assert
+            expect(results).toEqual(["value", "value"]);
+            expect(fetcher).toHaveBeenCalledTimes(1);
+        });
+
+        test("when cached value is fresh, returns it without calling fetcher", async () => {
+            // Arrange
+            const sut = QueryCacheFactory.create({ staleTime: 1000 });
+            await sut.fetch("records", () => Promise.resolve("cached"));
+            const fetcher = jest.fn(() => Promise.resolve("value"));
+
+            // Act
+            const result = await sut.fetch("records", fetcher);
+
+            // Assert
+            expect(result).toBe("cached");
+            expect(fetcher).not.toHaveBeenCalled();
+        });
+
+        test("when fetch options are undefined, uses the default options", async () => {
+            // Arrange
+            const sut = QueryCacheFactory.create({ staleTime: 1000 });
+            await sut.fetch("records", () => Promise.resolve("cached"));
+            const fetcher = jest.fn(() => Promise.resolve("value"));
+
+            // Act
+            const result = await sut.fetch("records", fetcher, {
+                cacheTime: undefined,
+                staleTime: undefined,
+            });
+
+            // Assert
+            expect(result).toBe("cached");
+            expect(fetcher).not.toHaveBeenCalled();
+        });
+
+        test("when cached value is stale, returns it and revalidates in the background", async () => {
+            // Arrange
+            const sut = QueryCacheFactory.create({ staleTime: 0 });
+            const listener = jest.fn();
+            sut.subscribe(listener);
+            await sut.fetch("records", () => Promise.resolve("stale"));
+
+            // Act
+            const result = await sut.fetch("records", () =>
+                Promise.resolve("fresh")
+            );
+            await CoreUtils.sleep(0);
+
+            // Assert
+            expect(result).toBe("stale");
+            expect(sut.get("records")).toBe("fresh");
+            expect(listener).toHaveBeenCalledWith("records");
+        });
+
+        test("when revalidated value is unchanged, does not notify listeners", async () => {
+            // Arrange
+            const sut = QueryCacheFactory.create({ staleTime: 0 });
+            const listener = jest.fn();
+            sut.subscribe(listener);
+            await sut.fetch("records", () => Promise.resolve({ id: 1 }));
+
+            // Act
+            await sut.fetch("records", () => Promise.resolve({ id: 1 }));
+            await CoreUtils.sleep(0);
+
+            // Assert
+            expect(listener).not.toHaveBeenCalled();
+        });
+
+        test("when fetcher rejects, does not cache the failure", async () => {
+            // Arrange
+            const sut = QueryCacheFactory.create();
+            const error = new Error();
+
+            // Act
+            await expect(
+                sut.fetch("records", () => Promise.reject(error))
+            ).rejects.toBe(error);
+            const result = await sut.fetch("records", () =>
+                Promise.resolve("value")
+            );
+
+            // Assert
+            expect(result).toBe("value");
+        });
+
+        test("when cacheTime elapses, removes the entry", async () => {
+            // Arrange
+            const sut = QueryCacheFactory.create({ cacheTime: 5 });
+            await sut.fetch("records", () => Promise.resolve("value"));
+
+            // Act
+            await CoreUtils.sleep(20);
+
+            // Assert
+            expect(sut.get("records")).toBeUndefined();
+        });
+    });
+
+    // #endregion fetch
+
+    // -----------------------------------------------------------------------------------------
+    // #region invalidate
+    // -----------------------------------------------------------------------------------------
+
+    describe("invalidate", () => {
+        test.each`
+            pattern                     | key                        | expected
+            ${"records"}                | ${"records"}               | ${true}
+            ${"records"}                | ${"records?skip=10"}       | ${true}
+            ${"/records/"}              | ${"records"}               | ${true}
+            ${"records/:id"}            | ${"records/10"}            | ${true}
+            ${"nested/:nestedId/items"} | ${"nested/3/items?take=5"} | ${true}
+            ${"records"}                | ${"records/10"}            | ${false}
+            ${"records/:id"}            | ${"records"}               | ${false}
+            ${"records"}                | ${"other-records"}         | ${false}
+        `(
+            "when pattern is $pattern and key is $key, invalidates entry is $expected",
+            async ({ pattern, key, expected }) => {
+                // Arrange
+                const sut = QueryCacheFactory.create({ staleTime: 1000 });
+                const listener = jest.fn();
+                sut.subscribe(listener);
+                await sut.fetch(key, () => Promise.resolve("value"));
+                const fetcher = jest.fn(() => Promise.resolve("value"));
+
+                // Act
+                sut.invalidate(pattern);
+                await sut.fetch(key, fetcher);
+
+                // Assert
+                expect(listener.mock.calls.length > 0).toBe(expected);
+                expect(fetcher.mock.calls.length > 0).toBe(expected);
+            }
+        );
+    });
+
+    // #endregion invalidate
+
+    // -----------------------------------------------------------------------------------------
+    // #region subscribe
+    // -----------------------------------------------------------------------------------------
+
+    describe("subscribe", () => {
+        test("when unsubscribed, listener is no longer called", async () => {
+            // Arrange
+            const sut = QueryCacheFactory.create({ staleTime: 0 });
+            const listener = jest.fn();
+            const unsubscribe = sut.subscribe(listener);
+            await sut.fetch("records", () => Promise.resolve("stale"));
+
+            // Act
+            unsubscribe();
+            await sut.fetch("records", () => Promise.resolve("fresh"));
+            await CoreUtils.sleep(0);
+
+            // Assert
+            expect(listener).not.toHaveBeenCalled();
+        });
+    });
+
+    // #endregion subscribe
+});
@@ -0,0 +1,206 @@
+import { QueryCache } from "../interfaces/query-cache";
+import { QueryCacheOptions } from "../interfaces/query-cache-options";
+
+// ---------------------------------------------------------------------------------------------
+// #region Constants
+// ---------------------------------------------------------------------------------------------
+
+const DEFAULT_QUERY_CACHE_OPTIONS: Required<QueryCacheOptions> = {
+    cacheTime: 5 * 60 * 1000,
+    staleTime: 0,
+};
+
+// #endregion Constants
+
+// ---------------------------------------------------------------------------------------------
+// #region Interfaces
+// ---------------------------------------------------------------------------------------------
+
+interface QueryCacheEntry {
+    garbageCollectionTimeout?: number;
+    hasValue: boolean;
+    promise?: Promise<any>;
+    updatedOn: number;
+    value?: any;
+}
+
+// #endregion Interfaces
+
+// ---------------------------------------------------------------------------------------------
+// #region Public Functions
+// ---------------------------------------------------------------------------------------------
+
+/**
+ * Factory to create isolated query caches
+ */
+const QueryCacheFactory = {
+    /**
+     * Creates a new, empty query cache
+     * @param defaultOptions options used when a fetch does not supply its own
+     */
+    create(defaultOptions?: QueryCacheOptions): QueryCache {
+        const entries = new Map<string, QueryCacheEntry>();
+        const listeners = new Set<(key: string) => void>();
+
+        // Options left undefined (ie. `{ staleTime: undefined }`) fall back to the defaults
+        const getOptions = (
+            options?: QueryCacheOptions
+        ): Required<QueryCacheOptions> => ({
+            cacheTime:
+                options?.cacheTime ??
+                defaultOptions?.cacheTime ??
+                DEFAULT_QUERY_CACHE_OPTIONS.cacheTime,
+            staleTime:
+                options?.staleTime ??
+                defaultOptions?.staleTime ??
+                DEFAULT_QUERY_CACHE_OPTIONS.staleTime,
+        });
+
+        const notify = (key: string) =>
+            listeners.forEach((listener) => listener(key));
+
+        const scheduleGarbageCollection = (
+            key: string,
+            entry: QueryCacheEntry,
+            cacheTime: number
+        ) => {
+            window.clearTimeout(entry.garbageCollectionTimeout);
+            entry.garbageCollectionTimeout = window.setTimeout(() => {
+                if (entries.get(key) === entry && entry.promise == null) {
+                    entries.delete(key);
+                }
+            }, cacheTime);
+        };
+
+        const revalidate = <T>(
+            key: string,
+            entry: QueryCacheEntry,
+            fetcher: () => Promise<T>,
+            cacheTime: number
+        ): Promise<T> => {
+            if (entry.promise != null) {
+                return entry.promise;
+            }
+
+            const previousValue = entry.hasValue
+                ? JSON.stringify(entry.value)
+                : undefined;
+
+            entry.promise = fetcher()
+                .then((value: T) => {
+                    entry.hasValue = true;
+                    entry.updatedOn = Date.now();
+                    entry.value = value;
+
+                    if (
+                        previousValue != null &&
+                        JSON.stringify(value) !== previousValue
+                    ) {
+                        notify(key);
+                    }
+
+                    return value;
+                })
+                .finally(() => {
+                    entry.promise = undefined;
+                    scheduleGarbageCollection(key, entry, cacheTime);
+                });
+
+            return entry.promise;
+        };
+
+        return {
+            clear() {
+                entries.forEach((entry) =>
+                    window.clearTimeout(entry.garbageCollectionTimeout)
+                );
+                entries.clear();
+            },
+
+            fetch<T>(
+                key: string,
+                fetcher: () => Promise<T>,
+                options?: QueryCacheOptions
+            ): Promise<T> {
+                const { cacheTime, staleTime } = getOptions(options);
+
+                let entry = entries.get(key);
+                if (entry == null) {
+                    entry = { hasValue: false, updatedOn: 0 };
+                    entries.set(key, entry);
+                }
+
+                if (!entry.hasValue) {
+                    return revalidate(key, entry, fetcher, cacheTime);
+                }
+
+                scheduleGarbageCollection(key, entry, cacheTime);
+
+                if (Date.now() - entry.updatedOn >= staleTime) {
+                    // Stale-while-revalidate: failures leave the stale value in place
+                    revalidate(key, entry, fetcher, cacheTime).catch(() => {});
+                }
+
+                return Promise.resolve(entry.value);
+            },
+
+            get<T>(key: string): T | undefined {
+                return entries.get(key)?.value;
+            },
+
+            invalidate(pattern: string) {
+                const matcher = _buildKeyMatcher(pattern);
+
+                entries.forEach((entry: QueryCacheEntry, key: string) => {
+                    if (!matcher.test(key)) {
+                        return;
+                    }
+
+                    entry.updatedOn = 0;
+                    notify(key);
+                });
+            },
+
+            subscribe(listener: (key: string) => void) {
+                listeners.add(listener);
+                return () => {
+                    listeners.delete(listener);
+                };
+            },
+        };
+    },
+};
+
+// #endregion Public Functions
+
+// ---------------------------------------------------------------------------------------------
+// #region Private Functions
+// ---------------------------------------------------------------------------------------------
+
+/**
+ * Builds an expression matching cache keys resolved from the supplied route pattern, with any
+ * path params (ie. `:id`) matching a single path segment and any query string allowed
+ */
+const _buildKeyMatcher = (pattern: string): RegExp => {
+    const expression = pattern
+        .replace(/^\/+|\/+$/g, "")
+        .split("/")
+        .map((segment: string) =>
+            segment.startsWith(":")
+                ? "[^/?]+"
+                : segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+        )
+        .join("/");
+
+    return new RegExp(`^/?${expression}/?(\\?.*)?$`);
+};
+
+// #endregion Private Functions
+
+// ---------------------------------------------------------------------------------------------
+// #region Exports
+// ---------------------------------------------------------------------------------------------
+
+export { QueryCacheFactory };
+
+// #endregion Exports
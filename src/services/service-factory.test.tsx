@@ -4,6 +4,10 @@ import React from "react";
 import { act, render } from "@testing-library/react";
 import { ServiceFactory } from "./service-factory";
 import { CoreUtils } from "andculturecode-javascript-core";
+import axios from "axios";
+import { ServiceMiddlewareUtils } from "../utilities/service-middleware-utils";
+import { PatchFormat } from "../enumerations/patch-format";
+import { OfflineQueueFactory } from "./offline-queue-factory";
 import {
     MockAxios,
     StubResourceRecord,
@@ -323,10 +327,177 @@ describe("ServiceFactory", () => {
             // Assert
             expect(response.resultObject).toBeUndefined();
         });
+
+        it("given string id, replaces id path param with it", async () => {
+            // Arrange
+            const id = "3f2b8c1e-5d4a-4e6b-9c7d-1a2b3c4d5e6f";
+            const sut = ServiceFactory.delete<string>(resourceEndpoint);
+
+            MockAxios.deleteSuccess(undefined);
+
+            // Act
+            await sut(id);
+
+            // Assert
+            expect(MockAxios.delete).toHaveBeenCalledWith(
+                `${baseEndpoint}/${id}`,
+                expect.anything()
+            );
+        });
+
+        it("given idProperty, replaces matching path param with id", async () => {
+            // Arrange
+            const sut = ServiceFactory.delete<string>(`${baseEndpoint}/:slug`, {
+                idProperty: "slug",
+            });
+
+            MockAxios.deleteSuccess(undefined);
+
+            // Act
+            await sut("first-record");
+
+            // Assert
+            expect(MockAxios.delete).toHaveBeenCalledWith(
+                `${baseEndpoint}/first-record`,
+                expect.anything()
+            );
+        });
+
+        it("given pathParams, replaces them without modifying the supplied object", async () => {
+            // Arrange
+            const pathParams: StubNestedParams = { nestedId: 5 };
+            const sut = ServiceFactory.delete<number, StubNestedParams>(
+                `${nestedBaseEndpoint}/:id`
+            );
+
+            MockAxios.deleteSuccess(undefined);
+
+            // Act
+            await sut(10, pathParams);
+
+            // Assert
+            expect(MockAxios.delete).toHaveBeenCalledWith(
+                `nested/5/${baseEndpoint}/10`,
+                expect.anything()
+            );
+            expect(pathParams).toEqual({ nestedId: 5 });
+        });
     });
 
     // #endregion delete
 
+    // -----------------------------------------------------------------------------------------
+    // #region download
+    // -----------------------------------------------------------------------------------------
+
+    describe("download", () => {
+        itReturnsFunction(ServiceFactory.download, baseEndpoint);
+
+        it("requests blob from endpoint with path and query params", async () => {
+            // Arrange
+            const sut = ServiceFactory.download(`${nestedBaseEndpoint}/report`);
+            (MockAxios.get as jest.Mock).mockResolvedValue({
+                data: new Blob(["a,b"]),
+                headers: {},
+                status: 200,
+            });
+
+            // Act
+            await sut({ nestedId: 10 }, { format: "csv" });
+
+            // Assert
+            expect(MockAxios.get).toHaveBeenCalledWith(
+                `nested/10/${baseEndpoint}/report?format=csv`,
+                expect.objectContaining({ responseType: "blob" })
+            );
+        });
+
+        it("returns file with name and type read from response headers", async () => {
+            // Arrange
+            const blob = new Blob(["a,b"]);
+            const sut = ServiceFactory.download(baseEndpoint);
+            (MockAxios.get as jest.Mock).mockResolvedValue({
+                data: blob,
+                headers: {
+                    "content-disposition": 'attachment; filename="report.csv"',
+                    "content-type": "text/csv",
+                },
+                status: 200,
+            });
+
+            // Act
+            const response = await sut();
+
+            // Assert
+            expect(response).toEqual({
+                blob,
+                contentType: "text/csv",
+                fileName: "report.csv",
+                status: 200,
+            });
+        });
+
+        it("when fileName supplied, returns it instead of header file name", async () => {
+            // Arrange
+            const sut = ServiceFactory.download(baseEndpoint);
+            (MockAxios.get as jest.Mock).mockResolvedValue({
+                data: new Blob(["a,b"]),
+                headers: {
+                    "content-disposition": 'attachment; filename="report.csv"',
+                },
+                status: 200,
+            });
+
+            // Act
+            const response = await sut(undefined, undefined, {
+                fileName: "custom.csv",
+            });
+
+            // Assert
+            expect(response.fileName).toEqual("custom.csv");
+        });
+
+        it("reports progress as the file is received", async () => {
+            // Arrange
+            const onDownloadProgress = jest.fn();
+            const sut = ServiceFactory.download(baseEndpoint);
+            (MockAxios.get as jest.Mock).mockImplementation(
+                (url: string, config: any) => {
+                    config.onDownloadProgress({
+                        lengthComputable: false,
+                        loaded: 2,
+                        total: 0,
+                    });
+                    config.onDownloadProgress({
+                        lengthComputable: true,
+                        loaded: 5,
+                        total: 10,
+                    });
+                    return Promise.resolve({
+                        data: new Blob(),
+                        headers: {},
+                        status: 200,
+                    });
+                }
+            );
+
+            // Act
+            await sut(undefined, undefined, { onDownloadProgress });
+
+            // Assert
+            expect(onDownloadProgress).toHaveBeenNthCalledWith(1, {
+                loaded: 2,
+            });
+            expect(onDownloadProgress).toHaveBeenNthCalledWith(2, {
+                loaded: 5,
+                percent: 50,
+                total: 10,
+            });
+        });
+    });
+
+    // #endregion download
+
     // -----------------------------------------------------------------------------------------
     // #region get
     // --------------------------------------------------------------------------------------------
@@ -415,6 +586,182 @@ describe("ServiceFactory", () => {
             expect(response.resultObject).toBeInstanceOf(StubResourceRecord);
             expect(response.resultObject!.name).toEqual(expected.name);
         });
+
+        it("when supplied cancel token, passes it to the client", async () => {
+            // Arrange
+            const cancelTokenSource = axios.CancelToken.source();
+            const sut = ServiceFactory.get<
+                StubResourceRecord,
+                StubResourceParams
+            >(StubResourceRecord, resourceEndpoint);
+            MockAxios.getSuccess(new StubResourceRecord());
+
+            // Act
+            await sut({ id: 20 }, undefined, {
+                cancelToken: cancelTokenSource.token,
+            });
+
+            // Assert
+            expect(MockAxios.get).toHaveBeenCalledWith(`${baseEndpoint}/20`, {
+                cancelToken: cancelTokenSource.token,
+            });
+        });
+
+        it("when batch option supplied, combines calls in the same tick into one list request", async () => {
+            // Arrange
+            const records = [
+                Factory.build<StubResourceRecord>(
+                    AndcultureCodeFactoryType.StubResourceRecord,
+                    { id: 1 }
+                ),
+                Factory.build<StubResourceRecord>(
+                    AndcultureCodeFactoryType.StubResourceRecord,
+                    { id: 2 }
+                ),
+            ];
+            const sut = ServiceFactory.get<
+                StubResourceRecord,
+                StubResourceParams
+            >(StubResourceRecord, resourceEndpoint, {
+                batch: { endpoint: baseEndpoint },
+            });
+
+            MockAxios.listSuccess(records);
+
+            // Act
+            const responses = await Promise.all([
+                sut({ id: 2 }),
+                sut({ id: 1 }),
+                sut({ id: 2 }),
+                sut({ id: "1" as any }),
+            ]);
+
+            // Assert
+            expect(MockAxios.get).toHaveBeenCalledTimes(1);
+            expect((MockAxios.get as jest.Mock).mock.calls[0][0]).toEqual(
+                `${baseEndpoint}?ids[0]=2&ids[1]=1`
+            );
+            expect(responses.map((r) => r.resultObject!.id)).toEqual([
+                2,
+                1,
+                2,
+                1,
+            ]);
+            expect(responses[0].resultObject).toBeInstanceOf(
+                StubResourceRecord
+            );
+            expect(responses[0].result!.resultObject).toBe(
+                responses[0].resultObject
+            );
+        });
+
+        it("when batch option supplied, sends calls in a later tick in a new list request", async () => {
+            // Arrange
+            const first = Factory.build<StubResourceRecord>(
+                AndcultureCodeFactoryType.StubResourceRecord,
+                { id: 1 }
+            );
+            const second = Factory.build<StubResourceRecord>(
+                AndcultureCodeFactoryType.StubResourceRecord,
+                { id: 2 }
+            );
+            const sut = ServiceFactory.get<
+                StubResourceRecord,
+                StubResourceParams
+            >(StubResourceRecord, resourceEndpoint, {
+                batch: { endpoint: baseEndpoint },
+            });
+
+            MockAxios.listSuccess([first]);
+            await sut({ id: 1 });
+            MockAxios.listSuccess([second]);
+
+            // Act
+            const response = await sut({ id: 2 });
+
+            // Assert
+            expect(MockAxios.get).toHaveBeenCalledTimes(2);
+            expect((MockAxios.get as jest.Mock).mock.calls[1][0]).toEqual(
+                `${baseEndpoint}?ids[0]=2`
+            );
+            expect(response.resultObject!.id).toEqual(2);
+        });
+
+        it("when batch option supplied and record not returned, rejects with 404 error", async () => {
+            // Arrange
+            const record = Factory.build<StubResourceRecord>(
+                AndcultureCodeFactoryType.StubResourceRecord,
+                { id: 1 }
+            );
+            const sut = ServiceFactory.get<
+                StubResourceRecord,
+                StubResourceParams
+            >(StubResourceRecord, resourceEndpoint, {
+                batch: { endpoint: baseEndpoint, idsParam: "recordIds" },
+            });
+
+            MockAxios.listSuccess([record]);
+
+            // Act
+            const [found, missing] = await Promise.all([
+                sut({ id: 1 }),
+                sut({ id: 3 }).catch((error) => error),
+            ]);
+
+            // Assert
+            expect(MockAxios.get).toHaveBeenCalledTimes(1);
+            expect((MockAxios.get as jest.Mock).mock.calls[0][0]).toEqual(
+                `${baseEndpoint}?recordIds[0]=1&recordIds[1]=3`
+            );
+            expect(found.resultObject!.id).toEqual(1);
+            expect(missing).toBeInstanceOf(Error);
+            expect(missing.response.status).toEqual(404);
+        });
+
+        it("when batch option and request config supplied, sends its own request", async () => {
+            // Arrange
+            const record = Factory.build<StubResourceRecord>(
+                AndcultureCodeFactoryType.StubResourceRecord,
+                { id: 20 }
+            );
+            const cancelTokenSource = axios.CancelToken.source();
+            const sut = ServiceFactory.get<
+                StubResourceRecord,
+                StubResourceParams
+            >(StubResourceRecord, resourceEndpoint, {
+                batch: { endpoint: baseEndpoint },
+            });
+
+            MockAxios.getSuccess(record);
+
+            // Act
+            const response = await sut({ id: 20 }, undefined, {
+                cancelToken: cancelTokenSource.token,
+            });
+
+            // Assert
+            expect(MockAxios.get).toHaveBeenCalledWith(`${baseEndpoint}/20`, {
+                cancelToken: cancelTokenSource.token,
+            });
+            expect(response.resultObject!.id).toEqual(20);
+        });
+
+        it("when batch option supplied and path params do not contain the id, rejects with error", async () => {
+            // Arrange
+            const sut = ServiceFactory.get<StubResourceRecord, any>(
+                StubResourceRecord,
+                resourceEndpoint,
+                { batch: { endpoint: baseEndpoint } }
+            );
+
+            // Act
+            const error = await sut(null).catch((error) => error);
+
+            // Assert
+            expect(error).toBeInstanceOf(Error);
+            expect(error.message).toContain("id");
+            expect(MockAxios.get).not.toHaveBeenCalled();
+        });
     });
 
     // #endregion get
@@ -721,6 +1068,155 @@ describe("ServiceFactory", () => {
 
     // #endregion nestedList
 
+    // -----------------------------------------------------------------------------------------
+    // #region patch
+    // -----------------------------------------------------------------------------------------
+
+    describe("patch", () => {
+        itReturnsFunction(ServiceFactory.patch, resourceEndpoint);
+
+        it("given original, sends merge patch of changed properties", async () => {
+            // Arrange
+            const original = Factory.build<StubResourceRecord>(
+                AndcultureCodeFactoryType.StubResourceRecord,
+                { id: 20 }
+            );
+            const updated = Factory.build<StubResourceRecord>(
+                AndcultureCodeFactoryType.StubResourceRecord,
+                { ...original.toJS(), name: `${original.name} (updated)` }
+            );
+            const sut = ServiceFactory.patch(
+                StubResourceRecord,
+                resourceEndpoint
+            );
+            (axios.patch as jest.Mock).mockResolvedValue({
+                data: { resultObject: updated.toJS() },
+            });
+
+            // Act
+            const response = await sut(updated, original);
+
+            // Assert
+            expect(axios.patch).toHaveBeenCalledWith(
+                `${baseEndpoint}/${original.id}`,
+                { name: updated.name },
+                expect.objectContaining({
+                    headers: {
+                        "Content-Type": PatchFormat.JsonMergePatch,
+                    },
+                })
+            );
+            expect(response.resultObject).toBeInstanceOf(StubResourceRecord);
+            expect(response.resultObject!.name).toEqual(updated.name);
+        });
+
+        it("given partial and JsonPatch format, sends replace operations", async () => {
+            // Arrange
+            const sut = ServiceFactory.patch<
+                StubResourceRecord,
+                StubResourceParams
+            >(StubResourceRecord, resourceEndpoint, {
+                patchFormat: PatchFormat.JsonPatch,
+            });
+            (axios.patch as jest.Mock).mockResolvedValue({ data: {} });
+
+            // Act
+            await sut({ name: "updated" }, undefined, { id: 20 });
+
+            // Assert
+            expect(axios.patch).toHaveBeenCalledWith(
+                `${baseEndpoint}/20`,
+                [{ op: "replace", path: "/name", value: "updated" }],
+                expect.objectContaining({
+                    headers: { "Content-Type": PatchFormat.JsonPatch },
+                })
+            );
+        });
+    });
+
+    // #endregion patch
+
+    // -----------------------------------------------------------------------------------------
+    // #region resource
+    // -----------------------------------------------------------------------------------------
+
+    describe("resource", () => {
+        it("returns every service function", () => {
+            // Act
+            const result = ServiceFactory.resource(StubResourceRecord, {
+                baseEndpoint,
+                resourceEndpoint,
+            });
+
+            // Assert
+            expect(Object.keys(result)).toIncludeSameMembers([
+                "bulkUpdate",
+                "create",
+                "delete",
+                "get",
+                "list",
+                "patch",
+                "update",
+            ]);
+            Object.values(result).forEach((service) =>
+                expect(service).toBeInstanceOf(Function)
+            );
+        });
+
+        it("when not nested, list requests base endpoint with query params", async () => {
+            // Arrange
+            const sut = ServiceFactory.resource(StubResourceRecord, {
+                baseEndpoint,
+                resourceEndpoint,
+            });
+            MockAxios.listSuccess([]);
+
+            // Act
+            await sut.list({ skip: 10 });
+
+            // Assert
+            expect(MockAxios.get).toHaveBeenCalledWith(
+                `${baseEndpoint}?skip=10`,
+                expect.anything()
+            );
+        });
+
+        it("when nested, list and create replace base endpoint path params", async () => {
+            // Arrange
+            const record = Factory.build<StubResourceRecord>(
+                AndcultureCodeFactoryType.StubResourceRecord
+            );
+            const sut = ServiceFactory.resource<
+                StubResourceRecord,
+                StubResourceParams,
+                StubNestedParams
+            >(StubResourceRecord, {
+                baseEndpoint: nestedBaseEndpoint,
+                nested: true,
+                resourceEndpoint: `${nestedBaseEndpoint}/:id`,
+            });
+            MockAxios.listSuccess([]);
+            MockAxios.postSuccess(record);
+
+            // Act
+            await sut.list({ nestedId: 5 });
+            await sut.create(record, { nestedId: 5 });
+
+            // Assert
+            expect(MockAxios.get).toHaveBeenCalledWith(
+                `nested/5/${baseEndpoint}`,
+                expect.anything()
+            );
+            expect(MockAxios.post).toHaveBeenCalledWith(
+                `nested/5/${baseEndpoint}`,
+                record.toJS(),
+                expect.anything()
+            );
+        });
+    });
+
+    // #endregion resource
+
     // -----------------------------------------------------------------------------------------
     // #region update
     // -----------------------------------------------------------------------------------------
@@ -806,9 +1302,622 @@ describe("ServiceFactory", () => {
             expect(response.resultObject).toBeInstanceOf(StubResourceRecord);
             expect(response.resultObject!.name).toEqual(expected.name);
         });
+
+        it("given idProperty, replaces matching path param with that record property", async () => {
+            // Arrange
+            const expected = Factory.build<StubResourceRecord>(
+                AndcultureCodeFactoryType.StubResourceRecord,
+                {
+                    id: 20,
+                    name: "first-record",
+                }
+            );
+
+            const sut = ServiceFactory.update(
+                StubResourceRecord,
+                `${baseEndpoint}/:name`,
+                { idProperty: "name" }
+            );
+            MockAxios.putSuccess(expected);
+
+            // Act
+            await sut(expected);
+
+            // Assert
+            expect(MockAxios.put).toHaveBeenCalledWith(
+                `${baseEndpoint}/first-record`,
+                expected.toJS(),
+                expect.anything()
+            );
+        });
     });
 
     // #endregion update
+
+    // -----------------------------------------------------------------------------------------
+    // #region upload
+    // -----------------------------------------------------------------------------------------
+
+    describe("upload", () => {
+        itReturnsFunction(ServiceFactory.upload, baseEndpoint);
+
+        it("sends file and record fields as multipart form data", async () => {
+            // Arrange
+            const record = Factory.build<StubResourceRecord>(
+                AndcultureCodeFactoryType.StubResourceRecord,
+                { id: 20 }
+            );
+            const file = new File(["contents"], "test.txt");
+            const sut = ServiceFactory.upload(
+                StubResourceRecord,
+                nestedBaseEndpoint
+            );
+
+            MockAxios.postSuccess(record);
+
+            // Act
+            const response = await sut(file, record, { nestedId: 10 });
+
+            // Assert
+            const [url, data] = (MockAxios.post as jest.Mock).mock.calls[0];
+            expect(url).toEqual(`nested/10/${baseEndpoint}`);
+            expect(data).toBeInstanceOf(FormData);
+            expect((data as FormData).get("file")).toBeInstanceOf(File);
+            expect((data as FormData).get("name")).toEqual(record.name);
+            expect(response.resultObject).toBeInstanceOf(StubResourceRecord);
+            expect(response.resultObject!.name).toEqual(record.name);
+        });
+
+        it("when fileField option supplied, sends file in that field", async () => {
+            // Arrange
+            const sut = ServiceFactory.upload(
+                StubResourceRecord,
+                baseEndpoint,
+                {
+                    fileField: "attachment",
+                }
+            );
+
+            MockAxios.postSuccess(new StubResourceRecord());
+
+            // Act
+            await sut(new Blob(["contents"]));
+
+            // Assert
+            const data: FormData = (MockAxios.post as jest.Mock).mock
+                .calls[0][1];
+            expect(data.get("attachment")).not.toBeNull();
+            expect(data.get("file")).toBeNull();
+        });
+
+        it("reports progress as the file is sent", async () => {
+            // Arrange
+            const onUploadProgress = jest.fn();
+            const sut = ServiceFactory.upload(StubResourceRecord, baseEndpoint);
+
+            (MockAxios.post as jest.Mock).mockImplementation(
+                (url: string, data: FormData, config: any) => {
+                    config.onUploadProgress({ loaded: 5 });
+                    return Promise.resolve({ data: {}, status: 200 });
+                }
+            );
+
+            // Act
+            await sut(new Blob(["0123456789"]), undefined, undefined, {
+                onUploadProgress,
+            });
+
+            // Assert
+            expect(onUploadProgress).toHaveBeenCalledWith({
+                loaded: 5,
+                percent: 50,
+                resumeFrom: 0,
+                total: 10,
+            });
+            expect(onUploadProgress).toHaveBeenLastCalledWith({
+                loaded: 10,
+                percent: 100,
+                resumeFrom: 10,
+                total: 10,
+            });
+        });
+
+        it("when file larger than chunkSize option, sends each chunk with content range", async () => {
+            // Arrange
+            const sut = ServiceFactory.upload(
+                StubResourceRecord,
+                baseEndpoint,
+                {
+                    chunkSize: 4,
+                }
+            );
+
+            (MockAxios.post as jest.Mock).mockResolvedValue({
+                data: {},
+                status: 200,
+            });
+
+            // Act
+            await sut(new Blob(["0123456789"]));
+
+            // Assert
+            const calls = (MockAxios.post as jest.Mock).mock.calls;
+            expect(calls.map(([url, data, config]) => config.headers)).toEqual([
+                { "Content-Range": "bytes 0-3/10" },
+                { "Content-Range": "bytes 4-7/10" },
+                { "Content-Range": "bytes 8-9/10" },
+            ]);
+            expect(calls.map(([url, data]) => data.get("file").size)).toEqual([
+                4,
+                4,
+                2,
+            ]);
+        });
+
+        it("when startByte supplied to chunked upload, resumes from it", async () => {
+            // Arrange
+            const sut = ServiceFactory.upload(
+                StubResourceRecord,
+                baseEndpoint,
+                {
+                    chunkSize: 4,
+                }
+            );
+
+            (MockAxios.post as jest.Mock).mockResolvedValue({
+                data: {},
+                status: 200,
+            });
+
+            // Act
+            await sut(new Blob(["0123456789"]), undefined, undefined, {
+                startByte: 8,
+            });
+
+            // Assert
+            expect(MockAxios.post).toHaveBeenCalledTimes(1);
+            expect(
+                (MockAxios.post as jest.Mock).mock.calls[0][2].headers
+            ).toEqual({ "Content-Range": "bytes 8-9/10" });
+        });
+
+        it("when chunk fails, rejects without sending remaining chunks", async () => {
+            // Arrange
+            const onUploadProgress = jest.fn();
+            const sut = ServiceFactory.upload(
+                StubResourceRecord,
+                baseEndpoint,
+                {
+                    chunkSize: 4,
+                }
+            );
+
+            (MockAxios.post as jest.Mock)
+                .mockResolvedValueOnce({ data: {}, status: 200 })
+                .mockRejectedValueOnce(new Error("Network Error"));
+
+            // Act
+            const result = sut(new Blob(["0123456789"]), undefined, undefined, {
+                onUploadProgress,
+            });
+
+            // Assert
+            await expect(result).rejects.toThrow("Network Error");
+            expect(MockAxios.post).toHaveBeenCalledTimes(2);
+            expect(onUploadProgress).toHaveBeenLastCalledWith(
+                expect.objectContaining({ resumeFrom: 4 })
+            );
+        });
+    });
+
+    // #endregion upload
+
+    // -----------------------------------------------------------------------------------------
+    // #region retryPolicy
+    // -----------------------------------------------------------------------------------------
+
+    describe("retryPolicy", () => {
+        const serviceUnavailable = {
+            isAxiosError: true,
+            response: { status: 503 },
+        };
+
+        it("when get fails with retryable status, retries by default", async () => {
+            // Arrange
+            const sut = ServiceFactory.list(StubResourceRecord, baseEndpoint, {
+                retryPolicy: { baseDelay: 0 },
+            });
+            MockAxios.get.mockImplementationOnce(() =>
+                Promise.reject(serviceUnavailable)
+            );
+            MockAxios.listSuccess([]);
+
+            // Act
+            const response = await sut();
+
+            // Assert
+            expect(MockAxios.get).toHaveBeenCalledTimes(2);
+            expect(response.resultObjects).toBeEmpty();
+        });
+
+        it("when create fails with retryable status, does not retry by default", async () => {
+            // Arrange
+            const sut = ServiceFactory.create(StubResourceRecord, baseEndpoint);
+            MockAxios.post.mockImplementationOnce(() =>
+                Promise.reject(serviceUnavailable)
+            );
+
+            // Act & Assert
+            await expect(sut(new StubResourceRecord())).rejects.toBe(
+                serviceUnavailable
+            );
+            expect(MockAxios.post).toHaveBeenCalledTimes(1);
+        });
+
+        it("when create supplied retry policy, retries", async () => {
+            // Arrange
+            const sut = ServiceFactory.create(
+                StubResourceRecord,
+                baseEndpoint,
+                {
+                    retryPolicy: { baseDelay: 0 },
+                }
+            );
+            MockAxios.post.mockImplementationOnce(() =>
+                Promise.reject(serviceUnavailable)
+            );
+            MockAxios.postSuccess(new StubResourceRecord());
+
+            // Act
+            await sut(new StubResourceRecord());
+
+            // Assert
+            expect(MockAxios.post).toHaveBeenCalledTimes(2);
+        });
+
+        it("when retry policy is false, does not retry", async () => {
+            // Arrange
+            const sut = ServiceFactory.delete(resourceEndpoint, {
+                retryPolicy: false,
+            });
+            MockAxios.delete.mockImplementationOnce(() =>
+                Promise.reject(serviceUnavailable)
+            );
+
+            // Act & Assert
+            await expect(sut(10)).rejects.toBe(serviceUnavailable);
+            expect(MockAxios.delete).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    // #endregion retryPolicy
+
+    // -----------------------------------------------------------------------------------------
+    // #region withClient
+    // -----------------------------------------------------------------------------------------
+
+    describe("withClient", () => {
+        it("returns factory whose services use the supplied client", async () => {
+            // Arrange
+            const expected = Factory.build<StubResourceRecord>(
+                AndcultureCodeFactoryType.StubResourceRecord,
+                {
+                    id: 20,
+                }
+            );
+            const client = {
+                get: jest.fn(() =>
+                    Promise.resolve({ data: { resultObject: expected.toJS() } })
+                ),
+            };
+            const sut = ServiceFactory.withClient(client as any).get<
+                StubResourceRecord,
+                StubResourceParams
+            >(StubResourceRecord, resourceEndpoint);
+
+            // Act
+            const response = await sut({ id: expected.id! });
+
+            // Assert
+            expect(client.get).toHaveBeenCalledWith(
+                `${baseEndpoint}/${expected.id}`,
+                {}
+            );
+            expect(MockAxios.get).not.toHaveBeenCalled();
+            expect(response.resultObject!.name).toEqual(expected.name);
+        });
+
+        it("does not change the client of the original factory", async () => {
+            // Arrange
+            const client = { get: jest.fn() };
+            ServiceFactory.withClient(client as any);
+            const sut = ServiceFactory.list(StubResourceRecord, baseEndpoint);
+            MockAxios.listSuccess([]);
+
+            // Act
+            await sut();
+
+            // Assert
+            expect(client.get).not.toHaveBeenCalled();
+            expect(MockAxios.get).toHaveBeenCalled();
+        });
+    });
+
+    // #endregion withClient
+
+    // -----------------------------------------------------------------------------------------
+    // #region withMiddleware
+    // -----------------------------------------------------------------------------------------
+
+    describe("withMiddleware", () => {
+        afterEach(() => {
+            ServiceMiddlewareUtils.clear();
+        });
+
+        it("runs request middleware before sending request", async () => {
+            // Arrange
+            const sut = ServiceFactory.withMiddleware({
+                onRequest: (request) => ({
+                    ...request,
+                    headers: { "X-Tenant-Id": "tenant" },
+                    url: `/tenant/${request.url}`,
+                }),
+            }).list(StubResourceRecord, baseEndpoint);
+            MockAxios.listSuccess([]);
+
+            // Act
+            await sut();
+
+            // Assert
+            expect(MockAxios.get).toHaveBeenCalledWith(
+                `/tenant/${baseEndpoint}`,
+                {
+                    headers: { "X-Tenant-Id": "tenant" },
+                }
+            );
+        });
+
+        it("runs response middleware before mapping response", async () => {
+            // Arrange
+            const expected = Factory.build<StubResourceRecord>(
+                AndcultureCodeFactoryType.StubResourceRecord,
+                { id: 20 }
+            );
+            const sut = ServiceFactory.withMiddleware({
+                onResponse: (response) => ({
+                    ...response,
+                    data: { resultObject: response.data.resultObject.envelope },
+                }),
+            }).get<StubResourceRecord, StubResourceParams>(
+                StubResourceRecord,
+                resourceEndpoint
+            );
+            MockAxios.getSuccess({ envelope: expected.toJS() });
+
+            // Act
+            const response = await sut({ id: expected.id! });
+
+            // Assert
+            expect(response.resultObject!.name).toEqual(expected.name);
+        });
+
+        it("when request fails, error middleware can translate the error", async () => {
+            // Arrange
+            const expected = new Error("translated");
+            const sut = ServiceFactory.withMiddleware({
+                onError: () => {
+                    throw expected;
+                },
+            }).delete(resourceEndpoint);
+            MockAxios.delete.mockImplementationOnce(() =>
+                Promise.reject(new Error("original"))
+            );
+
+            // Act & Assert
+            await expect(sut(10)).rejects.toBe(expected);
+        });
+
+        it("when request fails, error middleware can recover with a response", async () => {
+            // Arrange
+            const sut = ServiceFactory.withMiddleware({
+                onError: () => ({ data: {} } as any),
+            }).list(StubResourceRecord, baseEndpoint);
+            MockAxios.get.mockImplementationOnce(() =>
+                Promise.reject(new Error("original"))
+            );
+
+            // Act
+            const response = await sut();
+
+            // Assert
+            expect(response.resultObjects).toBeEmpty();
+        });
+
+        it("runs global middleware before factory middleware", async () => {
+            // Arrange
+            const calls: Array<string> = [];
+            ServiceMiddlewareUtils.register({
+                onRequest: (request) => {
+                    calls.push("global");
+                    return request;
+                },
+            });
+            const sut = ServiceFactory.withMiddleware({
+                onRequest: (request) => {
+                    calls.push("factory");
+                    return request;
+                },
+            }).list(StubResourceRecord, baseEndpoint);
+            MockAxios.listSuccess([]);
+
+            // Act
+            await sut();
+
+            // Assert
+            expect(calls).toEqual(["global", "factory"]);
+        });
+
+        it("does not change the middleware of the original factory", async () => {
+            // Arrange
+            const onRequest = jest.fn((request) => request);
+            ServiceFactory.withMiddleware({ onRequest });
+            const sut = ServiceFactory.list(StubResourceRecord, baseEndpoint);
+            MockAxios.listSuccess([]);
+
+            // Act
+            await sut();
+
+            // Assert
+            expect(onRequest).not.toHaveBeenCalled();
+        });
+    });
+
+    // #endregion withMiddleware
+
+    // -----------------------------------------------------------------------------------------
+    // #region withOfflineQueue
+    // -----------------------------------------------------------------------------------------
+
+    describe("withOfflineQueue", () => {
+        const buildOfflineQueue = () =>
+            OfflineQueueFactory.create({
+                replayOnReconnect: false,
+                storage: {
+                    getItem: () => null,
+                    removeItem: () => {},
+                    setItem: () => {},
+                },
+            });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it("when offline, queues mutation instead of sending it", async () => {
+            // Arrange
+            jest.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+            const record = Factory.build<StubResourceRecord>(
+                AndcultureCodeFactoryType.StubResourceRecord,
+                { id: 20 }
+            );
+            const offlineQueue = buildOfflineQueue();
+            const sut = ServiceFactory.withOfflineQueue(offlineQueue).update(
+                StubResourceRecord,
+                resourceEndpoint
+            );
+
+            // Act
+            const response = await sut(record);
+
+            // Assert
+            expect(MockAxios.put).not.toHaveBeenCalled();
+            expect(response.status).toBe(202);
+            expect(response.resultObject!.name).toEqual(record.name);
+            expect(offlineQueue.list()).toEqual([
+                expect.objectContaining({
+                    data: record.toJS(),
+                    url: `${baseEndpoint}/${record.id}`,
+                }),
+            ]);
+        });
+
+        it("when queued mutation is replayed, runs middleware and sends through the factory's client", async () => {
+            // Arrange
+            const onLine = jest
+                .spyOn(navigator, "onLine", "get")
+                .mockReturnValue(false);
+            const record = Factory.build<StubResourceRecord>(
+                AndcultureCodeFactoryType.StubResourceRecord,
+                { id: 20 }
+            );
+            const client = { put: jest.fn(() => Promise.resolve({})) };
+            const offlineQueue = buildOfflineQueue();
+            const sut = ServiceFactory.withClient(client as any)
+                .withMiddleware({
+                    onRequest: (request) => ({
+                        ...request,
+                        headers: { Authorization: "Bearer token" },
+                    }),
+                })
+                .withOfflineQueue(offlineQueue)
+                .update(StubResourceRecord, resourceEndpoint);
+            await sut(record);
+
+            // Act
+            onLine.mockReturnValue(true);
+            await offlineQueue.replay();
+
+            // Assert
+            expect(offlineQueue.list()).toBeEmpty();
+            expect(client.put).toHaveBeenCalledWith(
+                `${baseEndpoint}/${record.id}`,
+                record.toJS(),
+                expect.objectContaining({
+                    headers: { Authorization: "Bearer token" },
+                })
+            );
+            expect(MockAxios.put).not.toHaveBeenCalled();
+        });
+
+        it("when offline, sends get requests", async () => {
+            // Arrange
+            jest.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+            const offlineQueue = buildOfflineQueue();
+            const sut = ServiceFactory.withOfflineQueue(offlineQueue).list(
+                StubResourceRecord,
+                baseEndpoint
+            );
+            MockAxios.listSuccess([]);
+
+            // Act
+            await sut();
+
+            // Assert
+            expect(MockAxios.get).toHaveBeenCalled();
+            expect(offlineQueue.list()).toBeEmpty();
+        });
+
+        it("when offline, sends uploads", async () => {
+            // Arrange
+            jest.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+            const offlineQueue = buildOfflineQueue();
+            const sut = ServiceFactory.withOfflineQueue(offlineQueue).upload(
+                StubResourceRecord,
+                baseEndpoint
+            );
+            MockAxios.postSuccess(new StubResourceRecord());
+
+            // Act
+            await sut(new Blob(["contents"]));
+
+            // Assert
+            expect(MockAxios.post).toHaveBeenCalled();
+            expect(offlineQueue.list()).toBeEmpty();
+        });
+
+        it("when online, sends mutation", async () => {
+            // Arrange
+            const record = Factory.build<StubResourceRecord>(
+                AndcultureCodeFactoryType.StubResourceRecord,
+                { id: 20 }
+            );
+            const offlineQueue = buildOfflineQueue();
+            const sut = ServiceFactory.withOfflineQueue(offlineQueue).update(
+                StubResourceRecord,
+                resourceEndpoint
+            );
+            MockAxios.putSuccess(record);
+
+            // Act
+            await sut(record);
+
+            // Assert
+            expect(MockAxios.put).toHaveBeenCalled();
+            expect(offlineQueue.list()).toBeEmpty();
+        });
+    });
+
+    // #endregion withOfflineQueue
 });
 
 // #endregion Tests
@@ -1,37 +1,180 @@
-import { RouteUtils, ServiceUtils } from "andculturecode-javascript-core";
+import {
+    HttpHeader,
+    HttpVerb,
+    ResultRecord,
+    RouteUtils,
+    ServiceResponse,
+    ServiceUtils,
+} from "andculturecode-javascript-core";
 import { BulkUpdateService } from "../types/bulk-update-service-type";
 import { DeleteService } from "../types/delete-service-type";
+import { DownloadService } from "../types/download-service-type";
 import { CreateService } from "../types/create-service-type";
 import { ListService } from "../types/list-service-type";
 import { GetService } from "../types/get-service-type";
 import { NestedCreateService } from "../types/nested-create-service-type";
 import { NestedListService } from "../types/nested-list-service-type";
+import { NestedResourceService } from "../types/nested-resource-service-type";
+import { PatchService } from "../types/patch-service-type";
+import { RecordIdentifier } from "../types/record-identifier-type";
+import { ResourceService } from "../types/resource-service-type";
 import { UpdateService } from "../types/update-service-type";
-import axios from "axios";
+import { UploadService } from "../types/upload-service-type";
+import { PatchFormat } from "../enumerations/patch-format";
+import { BatchLoader } from "../interfaces/batch-loader";
+import { BatchOptions } from "../interfaces/batch-options";
+import { DownloadProgress } from "../interfaces/download-progress";
+import { DownloadRequestConfig } from "../interfaces/download-request-config";
+import { DownloadResponse } from "../interfaces/download-response";
+import { OfflineQueue } from "../interfaces/offline-queue";
+import { ResourceDefinition } from "../interfaces/resource-definition";
+import { RetryPolicy } from "../interfaces/retry-policy";
+import { ServiceFactoryOptions } from "../interfaces/service-factory-options";
+import { ServiceMiddleware } from "../interfaces/service-middleware";
+import { ServiceRequest } from "../interfaces/service-request";
+import { ServiceRequestConfig } from "../interfaces/service-request-config";
+import { UploadProgress } from "../interfaces/upload-progress";
+import { UploadRequestConfig } from "../interfaces/upload-request-config";
+import { UploadServiceOptions } from "../interfaces/upload-service-options";
+import { FileUtils } from "../utilities/file-utils";
+import { PatchUtils } from "../utilities/patch-utils";
+import { RetryUtils } from "../utilities/retry-utils";
+import { ServiceMiddlewareUtils } from "../utilities/service-middleware-utils";
+import { BatchLoaderFactory } from "./batch-loader-factory";
+import axios, { AxiosInstance, AxiosResponse } from "axios";
+
+// ---------------------------------------------------------------------------------------------
+// #region Constants
+// ---------------------------------------------------------------------------------------------
+
+/**
+ * HTTP verbs which are safe to retry without an explicit retry policy
+ */
+const RETRIED_BY_DEFAULT = [HttpVerb.Delete, HttpVerb.Get];
+
+/**
+ * Record property holding its identifier when no `idProperty` option is supplied
+ */
+const DEFAULT_ID_PROPERTY = "id";
+
+/**
+ * Query param the requested ids are sent in when no `idsParam` batch option is supplied
+ */
+const DEFAULT_IDS_PARAM = "ids";
+
+/**
+ * Multipart form field the file is sent in when no `fileField` option is supplied
+ */
+const DEFAULT_FILE_FIELD = "file";
+
+/**
+ * Header describing which bytes of the file a chunked upload request contains
+ */
+const CONTENT_RANGE_HEADER = "Content-Range";
+
+// #endregion Constants
+
+// ---------------------------------------------------------------------------------------------
+// #region Interfaces
+// ---------------------------------------------------------------------------------------------
+
+/**
+ * Configuration shared by every service function generated from a single factory
+ */
+interface ServiceFactoryConfiguration {
+    /**
+     * HTTP client used to make requests. Defaults to the global `axios` instance
+     */
+    client: AxiosInstance;
+
+    /**
+     * Middleware run for every request made by this factory, after any global middleware
+     */
+    middleware: Array<ServiceMiddleware>;
+
+    /**
+     * Queue which mutations made while offline are added to, instead of being sent
+     */
+    offlineQueue?: OfflineQueue;
+}
+
+/**
+ * Signatures of `ServiceFactory.resource`, which generates nested `create` and `list`
+ * functions when the resource definition is nested
+ */
+interface ResourceServiceBuilder {
+    <
+        TRecord,
+        TPathParams = any,
+        TNestedPathParams = any,
+        TQueryParams = any,
+        TId extends RecordIdentifier = number
+    >(
+        recordType: { new (): TRecord },
+        definition: ResourceDefinition & { nested: true },
+        options?: ServiceFactoryOptions
+    ): NestedResourceService<
+        TRecord,
+        TPathParams,
+        TNestedPathParams,
+        TQueryParams,
+        TId
+    >;
+    <
+        TRecord,
+        TPathParams = any,
+        TQueryParams = any,
+        TId extends RecordIdentifier = number
+    >(
+        recordType: { new (): TRecord },
+        definition: ResourceDefinition,
+        options?: ServiceFactoryOptions
+    ): ResourceService<TRecord, TPathParams, TQueryParams, TId>;
+}
+
+/**
+ * Factory bound to a specific `ServiceFactoryConfiguration`
+ */
+interface ScopedServiceFactory
+    extends ReturnType<typeof _buildServiceFactory> {}
+
+// #endregion Interfaces
 
 // ---------------------------------------------------------------------------------------------
 // #region Public Functions
 // ---------------------------------------------------------------------------------------------
 
 /**
- * Factory to encapsulate common service function logic
+ * Builds a factory to encapsulate common service function logic for the supplied configuration
+ * @param configuration
  */
-const ServiceFactory = {
+const _buildServiceFactory = (configuration: ServiceFactoryConfiguration) => ({
     /**
      * Creates a conventional Service Update function for an Array of the supplied resource type
      * @param recordType
      * @param resourceEndpoint
+     * @param options
      */
     bulkUpdate<TRecord extends any, TPathParams extends any>(
         recordType: { new (): TRecord },
-        resourceEndpoint: string
+        resourceEndpoint: string,
+        options?: ServiceFactoryOptions
     ): BulkUpdateService<TRecord, TPathParams> {
-        return async (records: Array<TRecord>, pathParams?: any) =>
+        const retryPolicy = _getRetryPolicy(HttpVerb.Put, options);
+
+        return async (
+            records: Array<TRecord>,
+            pathParams: TPathParams,
+            config?: ServiceRequestConfig
+        ) =>
             await _bulkUpdate<TRecord, TPathParams>(
+                configuration,
                 recordType,
                 records,
                 resourceEndpoint,
-                pathParams
+                pathParams,
+                config,
+                retryPolicy
             );
     },
 
@@ -43,40 +186,149 @@ const ServiceFactory = {
      *
      * @param recordType
      * @param baseEndpoint
+     * @param options
      */
     create<TRecord extends any>(
         recordType: { new (): TRecord },
-        baseEndpoint: string
+        baseEndpoint: string,
+        options?: ServiceFactoryOptions
     ): CreateService<TRecord> {
-        return async (record?: TRecord) =>
-            await _create<TRecord>(recordType, baseEndpoint, record);
+        const retryPolicy = _getRetryPolicy(HttpVerb.Post, options);
+
+        return async (record?: TRecord, config?: ServiceRequestConfig) =>
+            await _create<TRecord>(
+                configuration,
+                recordType,
+                baseEndpoint,
+                record,
+                config,
+                retryPolicy
+            );
     },
 
     /**
      * Creates conventional Service Delete function for the supplied resource type
      * @param recordType
      * @param resourceEndpoint
+     * @param options
+     */
+    delete<TId extends RecordIdentifier = number, TPathParams = any>(
+        resourceEndpoint: string,
+        options?: ServiceFactoryOptions
+    ): DeleteService<TId, TPathParams> {
+        const idProperty = options?.idProperty ?? DEFAULT_ID_PROPERTY;
+        const retryPolicy = _getRetryPolicy(HttpVerb.Delete, options);
+
+        return (async (
+            id: TId,
+            pathParams?: TPathParams,
+            config?: ServiceRequestConfig
+        ) =>
+            await _delete(
+                configuration,
+                id,
+                idProperty,
+                resourceEndpoint,
+                pathParams,
+                config,
+                retryPolicy
+            )) as DeleteService<TId, TPathParams>;
+    },
+
+    /**
+     * Creates Service Download function for the supplied endpoint, which requests a file rather
+     * than a record
+     * @param resourceEndpoint
+     * @param options
      */
-    delete(resourceEndpoint: string): DeleteService {
-        return async (id: number, pathParams?: any) =>
-            await _delete(id, resourceEndpoint, pathParams);
+    download<TPathParams = any, TQueryParams = any>(
+        resourceEndpoint: string,
+        options?: ServiceFactoryOptions
+    ): DownloadService<TPathParams, TQueryParams> {
+        const retryPolicy = _getRetryPolicy(HttpVerb.Get, options);
+
+        return async (
+            pathParams?: TPathParams,
+            queryParams?: TQueryParams,
+            config?: DownloadRequestConfig
+        ) =>
+            await _download(
+                configuration,
+                RouteUtils.getUrlFromPath(
+                    resourceEndpoint,
+                    pathParams,
+                    queryParams
+                ),
+                config,
+                retryPolicy
+            );
     },
 
     /**
      * Creates conventional Service Get function for the supplied resource type
      * @param recordType
      * @param resourceEndpoint
+     * @param options
      */
     get<TRecord, TPathParams, TQueryParams = undefined>(
         recordType: { new (): TRecord },
-        resourceEndpoint: string
+        resourceEndpoint: string,
+        options?: ServiceFactoryOptions
     ): GetService<TRecord, TPathParams, TQueryParams> {
-        return async (pathParams: TPathParams, queryParams?: TQueryParams) =>
+        const retryPolicy = _getRetryPolicy(HttpVerb.Get, options);
+        const batch = options?.batch;
+
+        if (batch != null) {
+            const idProperty = options?.idProperty ?? DEFAULT_ID_PROPERTY;
+            const loaders = new Map<
+                string,
+                BatchLoader<string, ServiceResponse<TRecord>>
+            >();
+
+            return async (
+                pathParams: TPathParams,
+                queryParams?: TQueryParams,
+                config?: ServiceRequestConfig
+            ) => {
+                // Batched requests are shared between callers, so can't use per-call config
+                if (config != null) {
+                    return await _get<TRecord, TPathParams, TQueryParams>(
+                        configuration,
+                        recordType,
+                        resourceEndpoint,
+                        pathParams,
+                        queryParams,
+                        config,
+                        retryPolicy
+                    );
+                }
+
+                return await _getBatched<TRecord>(
+                    configuration,
+                    loaders,
+                    recordType,
+                    batch,
+                    idProperty,
+                    pathParams,
+                    queryParams,
+                    retryPolicy
+                );
+            };
+        }
+
+        return async (
+            pathParams: TPathParams,
+            queryParams?: TQueryParams,
+            config?: ServiceRequestConfig
+        ) =>
             await _get<TRecord, TPathParams, TQueryParams>(
+                configuration,
                 recordType,
                 resourceEndpoint,
                 pathParams,
-                queryParams
+                queryParams,
+                config,
+                retryPolicy
             );
     },
 
@@ -88,13 +340,28 @@ const ServiceFactory = {
      *
      * @param recordType
      * @param baseEndpoint
+     * @param options
      */
     list<TRecord, TQueryParams>(
         recordType: { new (): TRecord },
-        baseEndpoint: string
+        baseEndpoint: string,
+        options?: ServiceFactoryOptions
     ): ListService<TRecord, TQueryParams> {
-        return async (queryParams?: TQueryParams) =>
-            await _list<TRecord>(recordType, baseEndpoint, null, queryParams);
+        const retryPolicy = _getRetryPolicy(HttpVerb.Get, options);
+
+        return async (
+            queryParams?: TQueryParams,
+            config?: ServiceRequestConfig
+        ) =>
+            await _list<TRecord>(
+                configuration,
+                recordType,
+                baseEndpoint,
+                null,
+                queryParams,
+                config,
+                retryPolicy
+            );
     },
 
     /**
@@ -102,14 +369,29 @@ const ServiceFactory = {
      * when the resource is nested
      * @param recordType
      * @param baseEndpoint
+     * @param options
      */
     nestedCreate<TRecord extends any, TPathParams>(
         recordType: { new (): TRecord },
-        baseEndpoint: string
+        baseEndpoint: string,
+        options?: ServiceFactoryOptions
     ): NestedCreateService<TRecord, TPathParams> {
-        return async (record: TRecord, pathParams: TPathParams) => {
+        const retryPolicy = _getRetryPolicy(HttpVerb.Post, options);
+
+        return async (
+            record: TRecord,
+            pathParams: TPathParams,
+            config?: ServiceRequestConfig
+        ) => {
             const url = RouteUtils.getUrlFromPath(baseEndpoint, pathParams);
-            return await _create<TRecord>(recordType, url, record);
+            return await _create<TRecord>(
+                configuration,
+                recordType,
+                url,
+                record,
+                config,
+                retryPolicy
+            );
         };
     },
 
@@ -117,38 +399,186 @@ const ServiceFactory = {
      * Creates conventional Service List function for the supplied resource type
      * @param recordType
      * @param baseEndpoint
+     * @param options
      */
     nestedList<TRecord, TPathParams, TQueryParams>(
         recordType: { new (): TRecord },
-        baseEndpoint: string
+        baseEndpoint: string,
+        options?: ServiceFactoryOptions
     ): NestedListService<TRecord, TPathParams, TQueryParams> {
-        return async (pathParams: TPathParams, queryParams?: TQueryParams) =>
+        const retryPolicy = _getRetryPolicy(HttpVerb.Get, options);
+
+        return async (
+            pathParams: TPathParams,
+            queryParams?: TQueryParams,
+            config?: ServiceRequestConfig
+        ) =>
             await _list<TRecord>(
+                configuration,
                 recordType,
                 baseEndpoint,
                 pathParams,
-                queryParams
+                queryParams,
+                config,
+                retryPolicy
             );
     },
 
+    /**
+     * Creates conventional Service Patch function for the supplied resource type, which sends
+     * only the changed properties of a record
+     * @param recordType
+     * @param resourceEndpoint
+     * @param options
+     */
+    patch<TRecord extends any, TPathParams extends any>(
+        recordType: { new (): TRecord },
+        resourceEndpoint: string,
+        options?: ServiceFactoryOptions
+    ): PatchService<TRecord, TPathParams> {
+        const format = options?.patchFormat ?? PatchFormat.JsonMergePatch;
+        const idProperty = options?.idProperty ?? DEFAULT_ID_PROPERTY;
+        const retryPolicy = _getRetryPolicy(HttpVerb.Patch, options);
+
+        return (async (
+            record: TRecord | Partial<TRecord>,
+            original?: TRecord,
+            pathParams?: TPathParams,
+            config?: ServiceRequestConfig
+        ) =>
+            await _patch<TRecord, TPathParams>(
+                configuration,
+                recordType,
+                record,
+                original,
+                format,
+                idProperty,
+                resourceEndpoint,
+                pathParams,
+                config,
+                retryPolicy
+            )) as PatchService<TRecord, TPathParams>;
+    },
+
+    /**
+     * Creates every conventional Service function for the supplied resource type at once
+     * @param recordType
+     * @param definition
+     * @param options
+     */
+    resource: ((
+        recordType: { new (): any },
+        definition: ResourceDefinition,
+        options?: ServiceFactoryOptions
+    ): ResourceService<any> | NestedResourceService<any> =>
+        _resource(
+            _buildServiceFactory(configuration),
+            recordType,
+            definition,
+            options
+        )) as ResourceServiceBuilder,
+
     /**
      * Creates conventional Service Update function for the supplied resource type
      * @param recordType
      * @param resourceEndpoint
+     * @param options
      */
     update<TRecord extends any, TPathParams extends any>(
         recordType: { new (): TRecord },
-        resourceEndpoint: string
+        resourceEndpoint: string,
+        options?: ServiceFactoryOptions
     ): UpdateService<TRecord, TPathParams> {
-        return async (record: TRecord, pathParams?: any) =>
+        const idProperty = options?.idProperty ?? DEFAULT_ID_PROPERTY;
+        const retryPolicy = _getRetryPolicy(HttpVerb.Put, options);
+
+        return (async (
+            record: TRecord,
+            pathParams?: TPathParams,
+            config?: ServiceRequestConfig
+        ) =>
             await _update<TRecord, TPathParams>(
+                configuration,
                 recordType,
                 record,
+                idProperty,
                 resourceEndpoint,
-                pathParams
+                pathParams,
+                config,
+                retryPolicy
+            )) as UpdateService<TRecord, TPathParams>;
+    },
+
+    /**
+     * Creates Service Upload function for the supplied resource type, which sends a file along
+     * with the record's fields as multipart form data
+     * @param recordType
+     * @param resourceEndpoint
+     * @param options
+     */
+    upload<TRecord extends any, TPathParams = any>(
+        recordType: { new (): TRecord },
+        resourceEndpoint: string,
+        options?: UploadServiceOptions
+    ): UploadService<TRecord, TPathParams> {
+        const retryPolicy = _getRetryPolicy(HttpVerb.Post, options);
+
+        return async (
+            file: Blob,
+            record?: TRecord,
+            pathParams?: TPathParams,
+            config?: UploadRequestConfig
+        ) =>
+            await _upload<TRecord>(
+                configuration,
+                recordType,
+                RouteUtils.getUrlFromPath(resourceEndpoint, pathParams),
+                file,
+                record,
+                options,
+                config,
+                retryPolicy
             );
     },
-};
+
+    /**
+     * Creates a new factory whose service functions make requests through the supplied client
+     * instead of the global `axios` instance (ie. for a different base url, headers or timeout)
+     * @param client
+     */
+    withClient(client: AxiosInstance): ScopedServiceFactory {
+        return _buildServiceFactory({ ...configuration, client });
+    },
+
+    /**
+     * Creates a new factory whose service functions run the supplied middleware, in addition
+     * to any middleware already registered on this factory
+     * @param middleware
+     */
+    withMiddleware(
+        ...middleware: Array<ServiceMiddleware>
+    ): ScopedServiceFactory {
+        return _buildServiceFactory({
+            ...configuration,
+            middleware: [...configuration.middleware, ...middleware],
+        });
+    },
+
+    /**
+     * Creates a new factory whose service functions add mutations (any request other than
+     * `GET`) made while `navigator.onLine` is false to the supplied queue, resolving with an
+     * empty `202 Accepted` response instead of sending them
+     * @param offlineQueue
+     */
+    withOfflineQueue(offlineQueue: OfflineQueue): ScopedServiceFactory {
+        return _buildServiceFactory({ ...configuration, offlineQueue });
+    },
+});
+
+/**
+ * Factory to encapsulate common service function logic
+ */
+const ServiceFactory = _buildServiceFactory({ client: axios, middleware: [] });
 
 // #endregion Public Functions
 
@@ -156,97 +586,649 @@ const ServiceFactory = {
 // #region Private Functions
 // ---------------------------------------------------------------------------------------------
 
-const _buildUrl = (id: number, resourceEndpoint: string, pathParams?: any) => {
-    if (pathParams == null) {
-        pathParams = {};
-    }
-    pathParams = Object.assign(pathParams, { id });
-    return RouteUtils.getUrlFromPath(resourceEndpoint, pathParams);
+const _buildUrl = (
+    id: RecordIdentifier,
+    idProperty: string,
+    resourceEndpoint: string,
+    pathParams?: any
+) => {
+    return RouteUtils.getUrlFromPath(resourceEndpoint, {
+        ...pathParams,
+        [idProperty]: id,
+    });
 };
 
 const _bulkUpdate = async function<
     TRecord extends any,
     TPathParams extends any
 >(
+    configuration: ServiceFactoryConfiguration,
     recordType: { new (): TRecord },
     records: Array<TRecord>,
     resourceEndpoint: string,
-    pathParams: TPathParams
+    pathParams: TPathParams,
+    config?: ServiceRequestConfig,
+    retryPolicy?: RetryPolicy
 ) {
     const url = RouteUtils.getUrlFromPath(resourceEndpoint, pathParams);
-    return await axios
-        .put(
+    return await _send(
+        configuration,
+        {
+            ...config,
+            data: records.map((r: TRecord) => r.toJS()),
+            method: HttpVerb.Put,
             url,
-            records.map((r: TRecord) => r.toJS())
-        )
-        .then((r) => ServiceUtils.mapPagedAxiosResponse(recordType, r));
+        },
+        retryPolicy
+    ).then((r) => ServiceUtils.mapPagedAxiosResponse(recordType, r));
 };
 
 const _create = async function<TRecord extends any>(
+    configuration: ServiceFactoryConfiguration,
     recordType: { new (): TRecord },
     url: string,
-    record?: TRecord
+    record?: TRecord,
+    config?: ServiceRequestConfig,
+    retryPolicy?: RetryPolicy
 ) {
     const requestData = record != null ? record.toJS() : null;
 
-    return await axios
-        .post(url, requestData)
-        .then((r) => ServiceUtils.mapAxiosResponse(recordType, r));
+    return await _send(
+        configuration,
+        {
+            ...config,
+            data: requestData,
+            method: HttpVerb.Post,
+            url,
+        },
+        retryPolicy
+    ).then((r) => ServiceUtils.mapAxiosResponse(recordType, r));
 };
 
 const _delete = async function(
-    id: number,
+    configuration: ServiceFactoryConfiguration,
+    id: RecordIdentifier,
+    idProperty: string,
     resourceEndpoint: string,
-    pathParams?: any
+    pathParams?: any,
+    config?: ServiceRequestConfig,
+    retryPolicy?: RetryPolicy
 ) {
-    const url = _buildUrl(id, resourceEndpoint, pathParams);
-    return await axios
-        .delete(url)
-        .then((r) => ServiceUtils.mapAxiosResponse(Boolean, r));
+    const url = _buildUrl(id, idProperty, resourceEndpoint, pathParams);
+    return await _send(
+        configuration,
+        {
+            ...config,
+            method: HttpVerb.Delete,
+            url,
+        },
+        retryPolicy
+    ).then((r) => ServiceUtils.mapAxiosResponse(Boolean, r));
+};
+
+/**
+ * Sends the request through the supplied client
+ */
+const _dispatch = (client: AxiosInstance, request: ServiceRequest) => {
+    const { data, method, url, ...config } = request;
+
+    switch (method) {
+        case HttpVerb.Delete:
+            return client.delete(url, config);
+        case HttpVerb.Patch:
+            return client.patch(url, data, config);
+        case HttpVerb.Post:
+            return client.post(url, data, config);
+        case HttpVerb.Put:
+            return client.put(url, data, config);
+        default:
+            return client.get(url, config);
+    }
+};
+
+/**
+ * Requests the file as a blob, reading its name and media type from the response headers
+ */
+const _download = async function(
+    configuration: ServiceFactoryConfiguration,
+    url: string,
+    config?: DownloadRequestConfig,
+    retryPolicy?: RetryPolicy
+): Promise<DownloadResponse> {
+    const { fileName, onDownloadProgress, ...requestConfig } = config ?? {};
+
+    const response = await _send(
+        configuration,
+        {
+            ...requestConfig,
+            method: HttpVerb.Get,
+            onDownloadProgress: (event: ProgressEvent) =>
+                onDownloadProgress?.(_toDownloadProgress(event)),
+            responseType: "blob",
+            url,
+        },
+        retryPolicy
+    );
+
+    return {
+        blob: response.data,
+        contentType: response.headers?.["content-type"],
+        fileName:
+            fileName ??
+            FileUtils.getFileName(response.headers?.["content-disposition"]),
+        status: response.status,
+    };
+};
+
+/**
+ * Resolves the retry policy for the supplied HTTP verb. Unless configured otherwise, only
+ * idempotent `GET` and `DELETE` requests are retried.
+ */
+const _getRetryPolicy = (
+    method: HttpVerb,
+    options?: ServiceFactoryOptions
+): RetryPolicy | undefined => {
+    const retryPolicy = options?.retryPolicy;
+
+    if (retryPolicy === false) {
+        return undefined;
+    }
+
+    if (retryPolicy != null) {
+        return retryPolicy;
+    }
+
+    return RETRIED_BY_DEFAULT.includes(method) ? {} : undefined;
 };
 
 const _get = async function<TRecord, TPathParams, TQueryParams = undefined>(
+    configuration: ServiceFactoryConfiguration,
     recordType: { new (): TRecord },
     resourceEndpoint: string,
     pathParams: TPathParams,
-    queryParams?: TQueryParams
+    queryParams?: TQueryParams,
+    config?: ServiceRequestConfig,
+    retryPolicy?: RetryPolicy
 ) {
     const url = RouteUtils.getUrlFromPath(
         resourceEndpoint,
         pathParams,
         queryParams
     );
-    return await axios
-        .get(url)
-        .then((r) => ServiceUtils.mapAxiosResponse(recordType, r));
+    return await _send(
+        configuration,
+        {
+            ...config,
+            method: HttpVerb.Get,
+            url,
+        },
+        retryPolicy
+    ).then((r) => ServiceUtils.mapAxiosResponse(recordType, r));
+};
+
+/**
+ * Adds the record's id to the pending batch for its list url, resolving with the record once
+ * the batch's list request returns. Rejects with a 404 error when the record isn't returned,
+ * or an error when the path params don't contain its id.
+ *
+ * Since the list request is shared between callers, calls supplying request config are sent
+ * on their own instead (see `get`).
+ */
+const _getBatched = async function<TRecord>(
+    configuration: ServiceFactoryConfiguration,
+    loaders: Map<string, BatchLoader<string, ServiceResponse<TRecord>>>,
+    recordType: { new (): TRecord },
+    batch: BatchOptions,
+    idProperty: string,
+    pathParams: any,
+    queryParams?: any,
+    retryPolicy?: RetryPolicy
+): Promise<ServiceResponse<TRecord>> {
+    const id = pathParams?.[idProperty];
+    if (id == null) {
+        throw new Error(
+            `Batched get requires path params containing the record's ${idProperty}`
+        );
+    }
+
+    const url = RouteUtils.getUrlFromPath(
+        batch.endpoint,
+        pathParams,
+        queryParams
+    );
+
+    const existing = loaders.get(url);
+    const loader =
+        existing ??
+        BatchLoaderFactory.create(
+            (ids: Array<string>) =>
+                _loadBatch(
+                    configuration,
+                    recordType,
+                    batch,
+                    idProperty,
+                    ids,
+                    pathParams,
+                    queryParams,
+                    retryPolicy
+                ),
+            batch.maxBatchSize
+        );
+
+    // Ids are compared as strings, so `1` and `"1"` are only requested once
+    const load = loader.load(String(id));
+
+    if (existing == null) {
+        loaders.set(url, loader);
+
+        // The loader is only shared until its batch is dispatched, at the end of this tick
+        Promise.resolve().then(() => loaders.delete(url));
+    }
+
+    return await load;
+};
+
+/**
+ * Passes the error through each middleware error handler until one recovers with a response.
+ * Rethrows the (possibly translated) error when none do.
+ */
+const _handleError = async function(
+    middleware: Array<ServiceMiddleware>,
+    error: any,
+    request: ServiceRequest
+): Promise<AxiosResponse> {
+    for (const m of middleware) {
+        if (m.onError == null) {
+            continue;
+        }
+
+        try {
+            return await m.onError(error, request);
+        } catch (translatedError) {
+            error = translatedError;
+        }
+    }
+
+    throw error;
 };
 
 const _list = async function<TRecord extends any>(
+    configuration: ServiceFactoryConfiguration,
     recordType: { new (): TRecord },
     baseEndpoint: string,
     pathParams?: any,
-    queryParams?: any
+    queryParams?: any,
+    config?: ServiceRequestConfig,
+    retryPolicy?: RetryPolicy
 ) {
     const url = RouteUtils.getUrlFromPath(
         baseEndpoint,
         pathParams,
         queryParams
     );
-    return await axios
-        .get(url)
-        .then((r) => ServiceUtils.mapPagedAxiosResponse(recordType, r));
+    return await _send(
+        configuration,
+        {
+            ...config,
+            method: HttpVerb.Get,
+            url,
+        },
+        retryPolicy
+    ).then((r) => ServiceUtils.mapPagedAxiosResponse(recordType, r));
+};
+
+/**
+ * Lists the records matching the supplied ids, mapping each to its own `ServiceResponse` (or a
+ * 404 error when it wasn't returned) in the order requested
+ */
+const _loadBatch = async function<TRecord>(
+    configuration: ServiceFactoryConfiguration,
+    recordType: { new (): TRecord },
+    batch: BatchOptions,
+    idProperty: string,
+    ids: Array<string>,
+    pathParams?: any,
+    queryParams?: any,
+    retryPolicy?: RetryPolicy
+): Promise<Array<ServiceResponse<TRecord> | Error>> {
+    const response = await _list<TRecord>(
+        configuration,
+        recordType,
+        batch.endpoint,
+        pathParams,
+        { ...queryParams, [batch.idsParam ?? DEFAULT_IDS_PARAM]: ids },
+        undefined,
+        retryPolicy
+    );
+
+    const records = new Map<string, TRecord>();
+    response.resultObjects.forEach((record: any) =>
+        records.set(String(record[idProperty]), record)
+    );
+
+    return ids.map((id: string) => {
+        const resultObject = records.get(id);
+
+        if (resultObject == null) {
+            return Object.assign(
+                new Error(`No record found with ${idProperty} '${id}'`),
+                { response: { status: 404 } }
+            );
+        }
+
+        return {
+            result: new ResultRecord<TRecord>({ resultObject }),
+            resultObject,
+            resultObjects: [],
+            rowCount: 1,
+            status: response.status,
+        };
+    });
 };
 
+/**
+ * Sends the changes between the record and the original (or the record itself, when no
+ * original is supplied) in the requested patch format
+ */
+const _patch = async function<TRecord extends any, TPathParams extends any>(
+    configuration: ServiceFactoryConfiguration,
+    recordType: { new (): TRecord },
+    record: TRecord | Partial<TRecord>,
+    original: TRecord | undefined,
+    format: PatchFormat,
+    idProperty: string,
+    resourceEndpoint: string,
+    pathParams?: TPathParams,
+    config?: ServiceRequestConfig,
+    retryPolicy?: RetryPolicy
+) {
+    const id =
+        original?.[idProperty] ??
+        (record as any)[idProperty] ??
+        (pathParams as any)?.[idProperty];
+    const url = _buildUrl(id, idProperty, resourceEndpoint, pathParams);
+    const data =
+        format === PatchFormat.JsonPatch
+            ? PatchUtils.toJsonPatch(record, original)
+            : PatchUtils.toMergePatch(record, original);
+
+    return await _send(
+        configuration,
+        {
+            ...config,
+            data,
+            headers: { [HttpHeader.ContentType]: format },
+            method: HttpVerb.Patch,
+            url,
+        },
+        retryPolicy
+    ).then((r) => ServiceUtils.mapAxiosResponse(recordType, r));
+};
+
+const _resource = (
+    factory: ScopedServiceFactory,
+    recordType: { new (): any },
+    definition: ResourceDefinition,
+    options?: ServiceFactoryOptions
+): ResourceService<any> | NestedResourceService<any> => {
+    const { baseEndpoint, nested, resourceEndpoint } = definition;
+
+    return {
+        bulkUpdate: factory.bulkUpdate(recordType, baseEndpoint, options),
+        create: nested
+            ? factory.nestedCreate(recordType, baseEndpoint, options)
+            : factory.create(recordType, baseEndpoint, options),
+        delete: factory.delete(resourceEndpoint, options),
+        get: factory.get(recordType, resourceEndpoint, options),
+        list: nested
+            ? factory.nestedList(recordType, baseEndpoint, options)
+            : factory.list(recordType, baseEndpoint, options),
+        patch: factory.patch(recordType, resourceEndpoint, options),
+        update: factory.update(recordType, resourceEndpoint, options),
+    };
+};
+
+/**
+ * Runs the request through global and factory middleware, sends it (retrying according to the
+ * supplied policy) and runs the response (or error) back through the same middleware, in
+ * registration order
+ */
+const _send = async function(
+    configuration: ServiceFactoryConfiguration,
+    request: ServiceRequest,
+    retryPolicy?: RetryPolicy
+): Promise<AxiosResponse> {
+    // Queued before the middleware runs, so headers it adds (ie. an authorization token) are
+    // not persisted. Replayed mutations are sent back through this factory, running it then.
+    if (_shouldQueueOffline(configuration, request)) {
+        configuration.offlineQueue!.enqueue(request, (queued: ServiceRequest) =>
+            _send({ ...configuration, offlineQueue: undefined }, queued)
+        );
+        return _toQueuedResponse(request);
+    }
+
+    const middleware = [
+        ...ServiceMiddlewareUtils.list(),
+        ...configuration.middleware,
+    ];
+
+    for (const m of middleware) {
+        if (m.onRequest != null) {
+            request = await m.onRequest(request);
+        }
+    }
+
+    const dispatch = () => _dispatch(configuration.client, request);
+    const sent =
+        retryPolicy != null
+            ? RetryUtils.retry(dispatch, retryPolicy, request.cancelToken)
+            : dispatch();
+
+    let response = await sent.catch((error: any) =>
+        _handleError(middleware, error, request)
+    );
+
+    for (const m of middleware) {
+        if (m.onResponse != null) {
+            response = await m.onResponse(response, request);
+        }
+    }
+
+    return response;
+};
+
+/**
+ * Determines whether the request should be queued rather than sent. Multipart uploads are never
+ * queued, as their form data can't be persisted.
+ */
+const _shouldQueueOffline = (
+    configuration: ServiceFactoryConfiguration,
+    request: ServiceRequest
+): boolean =>
+    configuration.offlineQueue != null &&
+    request.method !== HttpVerb.Get &&
+    !(typeof FormData !== "undefined" && request.data instanceof FormData) &&
+    typeof navigator !== "undefined" &&
+    navigator.onLine === false;
+
+/**
+ * Builds the `Content-Range` header value for the chunk of the file from `start` up to (but not
+ * including) `end`
+ */
+const _toContentRange = (start: number, end: number, total: number) =>
+    `bytes ${start}-${end - 1}/${total}`;
+
+const _toDownloadProgress = (event: ProgressEvent): DownloadProgress => {
+    if (!event.lengthComputable || event.total <= 0) {
+        return { loaded: event.loaded };
+    }
+
+    return {
+        loaded: event.loaded,
+        percent: Math.floor((event.loaded / event.total) * 100),
+        total: event.total,
+    };
+};
+
+/**
+ * Builds the multipart form data for an upload, sending each of the record's fields as its own
+ * form field. Object values are serialized as JSON.
+ */
+const _toFormData = (
+    file: Blob,
+    fileField: string,
+    fileName?: string,
+    fields?: any
+): FormData => {
+    const formData = new FormData();
+
+    Object.keys(fields ?? {}).forEach((key: string) => {
+        const value = fields[key];
+
+        if (value == null) {
+            return;
+        }
+
+        if (value instanceof Date) {
+            formData.append(key, value.toISOString());
+            return;
+        }
+
+        formData.append(
+            key,
+            typeof value === "object" ? JSON.stringify(value) : String(value)
+        );
+    });
+
+    if (fileName != null) {
+        formData.append(fileField, file, fileName);
+        return formData;
+    }
+
+    formData.append(fileField, file);
+    return formData;
+};
+
+/**
+ * Builds the response resolved in place of a queued mutation. The requested record, if any, is
+ * returned as the result so it can be displayed until the mutation is replayed.
+ */
+const _toQueuedResponse = (request: ServiceRequest): AxiosResponse => ({
+    config: {},
+    data: { resultObject: request.data ?? true },
+    headers: {},
+    status: 202,
+    statusText: "Accepted",
+});
+
+const _toUploadProgress = (
+    loaded: number,
+    resumeFrom: number,
+    total: number
+): UploadProgress => ({
+    loaded,
+    percent: total > 0 ? Math.floor((loaded / total) * 100) : 100,
+    resumeFrom,
+    total,
+});
+
 const _update = async function<TRecord extends any, TPathParams extends any>(
+    configuration: ServiceFactoryConfiguration,
     recordType: { new (): TRecord },
     record: TRecord,
+    idProperty: string,
     resourceEndpoint: string,
-    pathParams?: TPathParams
+    pathParams?: TPathParams,
+    config?: ServiceRequestConfig,
+    retryPolicy?: RetryPolicy
+) {
+    const url = _buildUrl(
+        record[idProperty],
+        idProperty,
+        resourceEndpoint,
+        pathParams
+    );
+    return await _send(
+        configuration,
+        {
+            ...config,
+            data: record.toJS(),
+            method: HttpVerb.Put,
+            url,
+        },
+        retryPolicy
+    ).then((r) => ServiceUtils.mapAxiosResponse(recordType, r));
+};
+
+/**
+ * Sends the file (or, when larger than the `chunkSize` option, each of its remaining chunks in
+ * turn) with the record's fields, resolving with the final response
+ */
+const _upload = async function<TRecord extends any>(
+    configuration: ServiceFactoryConfiguration,
+    recordType: { new (): TRecord },
+    url: string,
+    file: Blob,
+    record?: TRecord,
+    options?: UploadServiceOptions,
+    config?: UploadRequestConfig,
+    retryPolicy?: RetryPolicy
 ) {
-    const url = _buildUrl(record.id, resourceEndpoint, pathParams);
-    return await axios
-        .put(url, record.toJS())
-        .then((r) => ServiceUtils.mapAxiosResponse(recordType, r));
+    const { onUploadProgress, startByte, ...requestConfig } = config ?? {};
+    const chunkSize = options?.chunkSize;
+    const fields = record != null ? record.toJS() : undefined;
+    const fileField = options?.fileField ?? DEFAULT_FILE_FIELD;
+    const fileName =
+        typeof File !== "undefined" && file instanceof File
+            ? file.name
+            : undefined;
+    const total = file.size;
+    const isChunked = chunkSize != null && chunkSize > 0 && chunkSize < total;
+
+    let start = isChunked ? startByte ?? 0 : 0;
+    let response: AxiosResponse;
+
+    do {
+        const chunkStart = start;
+        const chunkEnd = isChunked
+            ? Math.min(chunkStart + chunkSize!, total)
+            : total;
+        const chunk = isChunked ? file.slice(chunkStart, chunkEnd) : file;
+        const headers = isChunked
+            ? {
+                  [CONTENT_RANGE_HEADER]: _toContentRange(
+                      chunkStart,
+                      chunkEnd,
+                      total
+                  ),
+              }
+            : undefined;
+
+        response = await _send(
+            configuration,
+            {
+                ...requestConfig,
+                data: _toFormData(chunk, fileField, fileName, fields),
+                headers,
+                method: HttpVerb.Post,
+                onUploadProgress: (event: ProgressEvent) =>
+                    onUploadProgress?.(
+                        _toUploadProgress(
+                            chunkStart + Math.min(event.loaded, chunk.size),
+                            chunkStart,
+                            total
+                        )
+                    ),
+                url,
+            },
+            retryPolicy
+        );
+
+        start = chunkEnd;
+        onUploadProgress?.(_toUploadProgress(start, start, total));
+    } while (start < total);
+
+    return ServiceUtils.mapAxiosResponse(recordType, response);
 };
 
 // #endregion Private Functions
@@ -255,6 +1237,6 @@ const _update = async function<TRecord extends any, TPathParams extends any>(
 // #region Exports
 // -----------------------------------------------------------------------------------------
 
-export { ServiceFactory };
+export { ScopedServiceFactory, ServiceFactory };
 
 // #endregion Exports
@@ -2,13 +2,18 @@ import React, { useState, useEffect } from "react";
 import { Factory } from "rosie";
 import { render, wait, waitFor } from "@testing-library/react";
 import { act } from "react-dom/test-utils";
+import { renderHook } from "@testing-library/react-hooks";
 import {
     MockAxios,
     StubResourceRecord,
 } from "andculturecode-javascript-testing";
 import { ServiceHookFactory } from "./service-hook-factory";
+import { FileUtils } from "../utilities/file-utils";
+import { QueryCacheProvider } from "../components/query-cache/query-cache-provider";
+import { ServiceErrorProvider } from "../components/service-errors/service-error-provider";
 import { FactoryType as AndcultureCodeFactoryType } from "andculturecode-javascript-testing";
 import { CoreUtils } from "andculturecode-javascript-core";
+import axios from "axios";
 
 // ---------------------------------------------------------------------------------------------
 // #region Variables
@@ -101,11 +106,12 @@ describe("ServiceHookFactory", () => {
 
         /**
          * Test ensures service hook factory in fact protects against a react error
-         * when the component is unmounted before the promise resolves.
+         * when the component is unmounted before the promise resolves, rejecting with
+         * a cancellation error instead.
          *
          * See ServiceFactory.test.tsx for test that verifies react error thrown
          */
-        it("when unmounted before resolution, promise is cancelled successfully", async () => {
+        it("when unmounted before resolution, promise is rejected with cancellation error", async () => {
             // Arrange
             const consoleErrorSpy = jest.spyOn(console, "error");
 
@@ -123,6 +129,7 @@ describe("ServiceHookFactory", () => {
             MockAxios.putSuccess(record, cancellationTestsApiDelay);
 
             let isUnmounted = false;
+            let rejection: any;
 
             const UpdateStubComponent = () => {
                 const { update } = useBulkUpdate();
@@ -138,7 +145,7 @@ describe("ServiceHookFactory", () => {
                         setRecords(result.resultObjects!);
                     }
 
-                    updateUser();
+                    updateUser().catch((error) => (rejection = error));
 
                     return () => {
                         isUnmounted = true;
@@ -159,6 +166,7 @@ describe("ServiceHookFactory", () => {
             // Assert
             expect(isUnmounted).toBeTrue();
             expect(consoleErrorSpy).not.toHaveBeenCalled();
+            expect(axios.isCancel(rejection)).toBeTrue();
         });
     });
 
@@ -211,11 +219,12 @@ describe("ServiceHookFactory", () => {
 
         /**
          * Test ensures service hook factory in fact protects against a react error
-         * when the component is unmounted before the promise resolves.
+         * when the component is unmounted before the promise resolves, rejecting with
+         * a cancellation error instead.
          *
          * See ServiceFactory.test.tsx for test that verifies react error thrown
          */
-        it("when unmounted before resolution, promise is cancelled successfully", async () => {
+        it("when unmounted before resolution, promise is rejected with cancellation error", async () => {
             // Arrange
             const consoleErrorSpy = jest.spyOn(console, "error");
 
@@ -230,6 +239,7 @@ describe("ServiceHookFactory", () => {
             MockAxios.postSuccess(record, cancellationTestsApiDelay);
 
             let isUnmounted = false;
+            let rejection: any;
 
             const CreateStubComponent = () => {
                 const { create } = useCreate();
@@ -243,7 +253,7 @@ describe("ServiceHookFactory", () => {
                         setRecord(result.resultObject!);
                     }
 
-                    createRecord();
+                    createRecord().catch((error) => (rejection = error));
 
                     return () => {
                         isUnmounted = true;
@@ -264,6 +274,99 @@ describe("ServiceHookFactory", () => {
             // Assert
             expect(isUnmounted).toBeTrue();
             expect(consoleErrorSpy).not.toHaveBeenCalled();
+            expect(axios.isCancel(rejection)).toBeTrue();
+        });
+
+        it("when invalidates is supplied, cached lists are refetched after success", async () => {
+            // Arrange
+            const existing = Factory.build<StubResourceRecord>(
+                AndcultureCodeFactoryType.StubResourceRecord,
+                { id: 10 }
+            );
+            const created = Factory.build<StubResourceRecord>(
+                AndcultureCodeFactoryType.StubResourceRecord,
+                { id: 20 }
+            );
+            const client = {
+                get: jest
+                    .fn()
+                    .mockResolvedValueOnce({
+                        data: { resultObject: [existing.toJS()] },
+                    })
+                    .mockResolvedValue({
+                        data: {
+                            resultObject: [existing.toJS(), created.toJS()],
+                        },
+                    }),
+                post: jest.fn(() =>
+                    Promise.resolve({ data: { resultObject: created.toJS() } })
+                ),
+            };
+            const scopedSut = sut.withClient(client as any);
+            const useList = scopedSut.useList(
+                StubResourceRecord,
+                baseEndpoint,
+                {
+                    cache: true,
+                }
+            );
+            const useCreate = scopedSut.useCreate(
+                StubResourceRecord,
+                baseEndpoint,
+                { invalidates: [baseEndpoint] }
+            );
+
+            const ListStubComponent = () => {
+                const { list } = useList();
+                const [records, setRecords] = useState<StubResourceRecord[]>(
+                    []
+                );
+
+                useEffect(() => {
+                    list().then((result) => setRecords(result.resultObjects!));
+                }, [list]);
+
+                return (
+                    <div>
+                        {records.map((record) => (
+                            <div key={record.id}>{record.name}</div>
+                        ))}
+                    </div>
+                );
+            };
+
+            const CreateStubComponent = () => {
+                const { create } = useCreate();
+
+                useEffect(() => {
+                    create(new StubResourceRecord());
+                }, [create]);
+
+                return null;
+            };
+
+            const { getByText, rerender } = render(
+                <QueryCacheProvider>
+                    <ListStubComponent />
+                </QueryCacheProvider>
+            );
+            await waitFor(() => {
+                expect(getByText(existing.name!)).toBeInTheDocument();
+            });
+
+            // Act
+            rerender(
+                <QueryCacheProvider>
+                    <ListStubComponent />
+                    <CreateStubComponent />
+                </QueryCacheProvider>
+            );
+
+            // Assert
+            await waitFor(() => {
+                expect(getByText(created.name!)).toBeInTheDocument();
+            });
+            expect(client.post).toHaveBeenCalledTimes(1);
         });
     });
 
@@ -315,11 +418,12 @@ describe("ServiceHookFactory", () => {
 
         /**
          * Test ensures service hook factory in fact protects against a react error
-         * when the component is unmounted before the promise resolves.
+         * when the component is unmounted before the promise resolves, rejecting with
+         * a cancellation error instead.
          *
          * See ServiceFactory.test.tsx for test that verifies react error thrown
          */
-        it("when unmounted before resolution, promise is cancelled successfully", async () => {
+        it("when unmounted before resolution, promise is rejected with cancellation error", async () => {
             // Arrange
             const consoleErrorSpy = jest.spyOn(console, "error");
 
@@ -332,6 +436,7 @@ describe("ServiceHookFactory", () => {
             );
             MockAxios.deleteSuccess(record, cancellationTestsApiDelay);
             let isUnmounted = false;
+            let rejection: any;
 
             const DeleteStubComponent = () => {
                 const { delete: deleteRecord } = useDelete();
@@ -345,7 +450,7 @@ describe("ServiceHookFactory", () => {
                         setRecord(record);
                     }
 
-                    deleteStubRecord();
+                    deleteStubRecord().catch((error) => (rejection = error));
 
                     return () => {
                         isUnmounted = true;
@@ -366,11 +471,93 @@ describe("ServiceHookFactory", () => {
             // Assert
             expect(isUnmounted).toBeTrue();
             expect(consoleErrorSpy).not.toHaveBeenCalled();
+            expect(axios.isCancel(rejection)).toBeTrue();
         });
     });
 
     // #endregion useDelete
 
+    // ---------------------------------------------------------------------------------------------
+    // #region useDownload
+    // ---------------------------------------------------------------------------------------------
+
+    describe("useDownload", () => {
+        itReturnsFunction(sut.useDownload, baseEndpoint);
+
+        it("saves the downloaded file and tracks progress", async () => {
+            // Arrange
+            const blob = new Blob(["a,b"]);
+            const saveSpy = jest
+                .spyOn(FileUtils, "save")
+                .mockImplementation(() => {});
+            const useDownload = sut.useDownload(baseEndpoint);
+
+            (MockAxios.get as jest.Mock).mockImplementation(
+                (url: string, config: any) => {
+                    config.onDownloadProgress({
+                        lengthComputable: true,
+                        loaded: 3,
+                        total: 3,
+                    });
+                    return Promise.resolve({
+                        data: blob,
+                        headers: {
+                            "content-disposition":
+                                'attachment; filename="report.csv"',
+                        },
+                        status: 200,
+                    });
+                }
+            );
+
+            const { result } = renderHook(() => useDownload());
+
+            // Act
+            let response: any;
+            await act(async () => {
+                response = await result.current.download();
+            });
+
+            // Assert
+            expect(response.fileName).toEqual("report.csv");
+            expect(saveSpy).toHaveBeenCalledWith(blob, "report.csv");
+            expect(result.current.progress).toEqual({
+                loaded: 3,
+                percent: 100,
+                total: 3,
+            });
+
+            saveSpy.mockRestore();
+        });
+
+        it("when cancelled, does not save the file", async () => {
+            // Arrange
+            const saveSpy = jest
+                .spyOn(FileUtils, "save")
+                .mockImplementation(() => {});
+            const useDownload = sut.useDownload(baseEndpoint);
+            (MockAxios.get as jest.Mock).mockReturnValue(new Promise(() => {}));
+
+            const { result } = renderHook(() => useDownload());
+
+            // Act
+            let rejection: any;
+            await act(async () => {
+                const download = result.current.download();
+                result.current.cancel();
+                rejection = await download.catch((error) => error);
+            });
+
+            // Assert
+            expect(axios.isCancel(rejection)).toBeTrue();
+            expect(saveSpy).not.toHaveBeenCalled();
+
+            saveSpy.mockRestore();
+        });
+    });
+
+    // #endregion useDownload
+
     // ---------------------------------------------------------------------------------------------
     // #region useGet
     // ---------------------------------------------------------------------------------------------
@@ -419,13 +606,64 @@ describe("ServiceHookFactory", () => {
             });
         });
 
+        it("when batch option supplied, components sharing the hook request records together", async () => {
+            // Arrange
+            const useGet = sut.useGet(StubResourceRecord, resourceEndpoint, {
+                batch: { endpoint: baseEndpoint },
+            });
+            const records = Factory.buildList(
+                AndcultureCodeFactoryType.StubResourceRecord,
+                2
+            ) as StubResourceRecord[];
+
+            MockAxios.listSuccess(records);
+
+            const GetStubComponent = (props: { id: number }) => {
+                const { get } = useGet();
+                const [record, setRecord] = useState<StubResourceRecord>(
+                    new StubResourceRecord()
+                );
+
+                useEffect(() => {
+                    async function getRecord() {
+                        try {
+                            const result = await get({ id: props.id });
+                            setRecord(result.resultObject!);
+                        } catch (e) {}
+                    }
+
+                    getRecord();
+                }, []);
+
+                return <div>{record != null && record.name}</div>;
+            };
+
+            // Act
+            const { getByText } = render(
+                <React.Fragment>
+                    {records.map((record) => (
+                        <GetStubComponent id={record.id!} key={record.id} />
+                    ))}
+                </React.Fragment>
+            );
+
+            // Assert
+            await waitFor(() => {
+                records.forEach((record) =>
+                    expect(getByText(record.name!)).toBeInTheDocument()
+                );
+            });
+            expect(MockAxios.get).toHaveBeenCalledTimes(1);
+        });
+
         /**
          * Test ensures service hook factory in fact protects against a react error
-         * when the component is unmounted before the promise resolves.
+         * when the component is unmounted before the promise resolves, rejecting with
+         * a cancellation error instead.
          *
          * See ServiceFactory.test.tsx for test that verifies react error thrown
          */
-        it("when unmounted before resolution, promise is cancelled successfully", async () => {
+        it("when unmounted before resolution, promise is rejected with cancellation error", async () => {
             // Arrange
             const consoleErrorSpy = jest.spyOn(console, "error");
 
@@ -438,6 +676,7 @@ describe("ServiceHookFactory", () => {
             );
             MockAxios.getSuccess(record, cancellationTestsApiDelay);
             let isUnmounted = false;
+            let rejection: any;
 
             const GetStubComponent = () => {
                 const { get } = useGet();
@@ -451,7 +690,7 @@ describe("ServiceHookFactory", () => {
                         setRecord(result.resultObject!);
                     }
 
-                    getRecord();
+                    getRecord().catch((error) => (rejection = error));
 
                     return () => {
                         isUnmounted = true;
@@ -472,6 +711,345 @@ describe("ServiceHookFactory", () => {
             // Assert
             expect(isUnmounted).toBeTrue();
             expect(consoleErrorSpy).not.toHaveBeenCalled();
+            expect(axios.isCancel(rejection)).toBeTrue();
+        });
+        it("when unmounted before resolution, aborts the underlying request", async () => {
+            // Arrange
+            let requestConfig: any;
+            const client = {
+                get: jest.fn(
+                    (url: string, config: any) =>
+                        new Promise((resolve, reject) => {
+                            requestConfig = config;
+                            config.cancelToken.promise.then(reject);
+                        })
+                ),
+            };
+            const useGet = sut
+                .withClient(client as any)
+                .useGet(StubResourceRecord, resourceEndpoint);
+
+            const GetStubComponent = () => {
+                const { get } = useGet();
+
+                useEffect(() => {
+                    get({ id: 10 }).catch(() => {});
+                }, [get]);
+
+                return <div></div>;
+            };
+
+            // Act
+            await act(async () => {
+                const { unmount } = render(<GetStubComponent />);
+                unmount();
+                await CoreUtils.sleep(cancellationTestsAssertionDelay);
+            });
+
+            // Assert
+            expect(client.get).toHaveBeenCalled();
+            expect(requestConfig.cancelToken.reason).toBeDefined();
+        });
+
+        it("when called again before resolution, previous request is cancelled", async () => {
+            // Arrange
+            const first = Factory.build<StubResourceRecord>(
+                AndcultureCodeFactoryType.StubResourceRecord,
+                { id: 10 }
+            );
+            const second = Factory.build<StubResourceRecord>(
+                AndcultureCodeFactoryType.StubResourceRecord,
+                { id: 20 }
+            );
+            const requestConfigs: Array<any> = [];
+            const client = {
+                get: jest.fn((url: string, config: any) => {
+                    requestConfigs.push(config);
+                    if (requestConfigs.length > 1) {
+                        return Promise.resolve({
+                            data: { resultObject: second.toJS() },
+                        });
+                    }
+
+                    // The first request only settles once it is aborted
+                    return new Promise((resolve, reject) =>
+                        config.cancelToken.promise.then(reject)
+                    );
+                }),
+            };
+            const useGet = sut
+                .withClient(client as any)
+                .useGet(StubResourceRecord, resourceEndpoint);
+            let rejection: any;
+
+            const GetStubComponent = () => {
+                const { get } = useGet();
+                const [record, setRecord] = useState<StubResourceRecord>(
+                    new StubResourceRecord()
+                );
+
+                useEffect(() => {
+                    get({ id: first.id! })
+                        .then((result) => setRecord(result.resultObject!))
+                        .catch((error) => (rejection = error));
+                    get({ id: second.id! }).then((result) =>
+                        setRecord(result.resultObject!)
+                    );
+                }, [get]);
+
+                return <div>{record.name}</div>;
+            };
+
+            // Act
+            const { getByText, queryByText } = render(<GetStubComponent />);
+            await act(async () => {
+                await CoreUtils.sleep(cancellationTestsAssertionDelay);
+            });
+
+            // Assert
+            expect(getByText(second.name!)).toBeInTheDocument();
+            expect(queryByText(first.name!)).not.toBeInTheDocument();
+            expect(axios.isCancel(rejection)).toBeTrue();
+            expect(requestConfigs[0].cancelToken.reason).toBeDefined();
+            expect(requestConfigs[1].cancelToken.reason).toBeUndefined();
+        });
+
+        it("when request fails, passes error to ServiceErrorProvider", async () => {
+            // Arrange
+            const error = { isAxiosError: true, response: { status: 401 } };
+            const client = { get: jest.fn(() => Promise.reject(error)) };
+            const onUnauthorized = jest.fn();
+            let rejection: any;
+            const useGet = sut
+                .withClient(client as any)
+                .useGet(StubResourceRecord, resourceEndpoint);
+
+            const GetStubComponent = () => {
+                const { get } = useGet();
+
+                useEffect(() => {
+                    get({ id: 10 }).catch((error) => (rejection = error));
+                }, [get]);
+
+                return <div></div>;
+            };
+
+            // Act
+            render(
+                <ServiceErrorProvider onUnauthorized={onUnauthorized}>
+                    <GetStubComponent />
+                </ServiceErrorProvider>
+            );
+
+            // Assert
+            await waitFor(() => expect(rejection).toBe(error));
+            expect(onUnauthorized).toHaveBeenCalledWith(error);
+        });
+
+        it("when handleErrors returns false for the error, does not pass it to ServiceErrorProvider", async () => {
+            // Arrange
+            const error = { isAxiosError: true, response: { status: 404 } };
+            const client = { get: jest.fn(() => Promise.reject(error)) };
+            const onNotFound = jest.fn();
+            let rejection: any;
+            const useGet = sut
+                .withClient(client as any)
+                .useGet(StubResourceRecord, resourceEndpoint, {
+                    handleErrors: (error: any) =>
+                        error.response?.status !== 404,
+                });
+
+            const GetStubComponent = () => {
+                const { get } = useGet();
+
+                useEffect(() => {
+                    get({ id: 10 }).catch((error) => (rejection = error));
+                }, [get]);
+
+                return <div></div>;
+            };
+
+            // Act
+            render(
+                <ServiceErrorProvider onNotFound={onNotFound}>
+                    <GetStubComponent />
+                </ServiceErrorProvider>
+            );
+
+            // Assert
+            await waitFor(() => expect(rejection).toBe(error));
+            expect(onNotFound).not.toHaveBeenCalled();
+        });
+
+        describe("when cache is enabled", () => {
+            it("de-duplicates concurrent requests for the same url", async () => {
+                // Arrange
+                const record = Factory.build<StubResourceRecord>(
+                    AndcultureCodeFactoryType.StubResourceRecord,
+                    { id: 10 }
+                );
+                const client = {
+                    get: jest.fn(() =>
+                        Promise.resolve({
+                            data: { resultObject: record.toJS() },
+                        })
+                    ),
+                };
+                const useGet = sut
+                    .withClient(client as any)
+                    .useGet(StubResourceRecord, resourceEndpoint, {
+                        cache: true,
+                    });
+
+                const GetStubComponent = () => {
+                    const { get } = useGet();
+                    const [name, setName] = useState<string>();
+
+                    useEffect(() => {
+                        get({ id: record.id! }).then((result) =>
+                            setName(result.resultObject!.name)
+                        );
+                    }, [get]);
+
+                    return <div>{name}</div>;
+                };
+
+                // Act
+                const { getAllByText } = render(
+                    <QueryCacheProvider>
+                        <GetStubComponent />
+                        <GetStubComponent />
+                    </QueryCacheProvider>
+                );
+
+                // Assert
+                await waitFor(() => {
+                    expect(getAllByText(record.name!)).toHaveLength(2);
+                });
+                expect(client.get).toHaveBeenCalledTimes(1);
+            });
+
+            it("does not share entries between clients with different base urls", async () => {
+                // Arrange
+                const record = Factory.build<StubResourceRecord>(
+                    AndcultureCodeFactoryType.StubResourceRecord,
+                    { id: 10 }
+                );
+                const createClient = (baseURL: string) => ({
+                    defaults: { baseURL },
+                    get: jest.fn(() =>
+                        Promise.resolve({
+                            data: { resultObject: record.toJS() },
+                        })
+                    ),
+                });
+                const firstClient = createClient("https://first.example.com");
+                const secondClient = createClient("https://second.example.com");
+                const useFirstGet = sut
+                    .withClient(firstClient as any)
+                    .useGet(StubResourceRecord, resourceEndpoint, {
+                        cache: true,
+                    });
+                const useSecondGet = sut
+                    .withClient(secondClient as any)
+                    .useGet(StubResourceRecord, resourceEndpoint, {
+                        cache: true,
+                    });
+
+                const GetStubComponent = (props: {
+                    useGet: typeof useFirstGet;
+                }) => {
+                    const { get } = props.useGet();
+                    const [name, setName] = useState<string>();
+
+                    useEffect(() => {
+                        get({ id: record.id! }).then((result) =>
+                            setName(result.resultObject!.name)
+                        );
+                    }, [get]);
+
+                    return <div>{name}</div>;
+                };
+
+                // Act
+                const { getAllByText } = render(
+                    <QueryCacheProvider>
+                        <GetStubComponent useGet={useFirstGet} />
+                        <GetStubComponent useGet={useSecondGet} />
+                    </QueryCacheProvider>
+                );
+
+                // Assert
+                await waitFor(() => {
+                    expect(getAllByText(record.name!)).toHaveLength(2);
+                });
+                expect(firstClient.get).toHaveBeenCalledTimes(1);
+                expect(secondClient.get).toHaveBeenCalledTimes(1);
+            });
+
+            it("when cached result is stale, revalidates and re-renders with the new value", async () => {
+                // Arrange
+                const stale = Factory.build<StubResourceRecord>(
+                    AndcultureCodeFactoryType.StubResourceRecord,
+                    { id: 10 }
+                );
+                const fresh = Factory.build<StubResourceRecord>(
+                    AndcultureCodeFactoryType.StubResourceRecord,
+                    { id: 10, name: `${stale.name} (updated)` }
+                );
+                const client = {
+                    get: jest
+                        .fn()
+                        .mockResolvedValueOnce({
+                            data: { resultObject: stale.toJS() },
+                        })
+                        .mockResolvedValue({
+                            data: { resultObject: fresh.toJS() },
+                        }),
+                };
+                const useGet = sut
+                    .withClient(client as any)
+                    .useGet(StubResourceRecord, resourceEndpoint, {
+                        cache: { staleTime: 0 },
+                    });
+
+                const GetStubComponent = () => {
+                    const { get } = useGet();
+                    const [name, setName] = useState<string>();
+
+                    useEffect(() => {
+                        get({ id: stale.id! }).then((result) =>
+                            setName(result.resultObject!.name)
+                        );
+                    }, [get]);
+
+                    return <div>{name}</div>;
+                };
+
+                const { getByText, rerender } = render(
+                    <QueryCacheProvider>
+                        <GetStubComponent key="first" />
+                    </QueryCacheProvider>
+                );
+                await waitFor(() => {
+                    expect(getByText(stale.name!)).toBeInTheDocument();
+                });
+
+                // Act
+                rerender(
+                    <QueryCacheProvider>
+                        <GetStubComponent key="first" />
+                        <GetStubComponent key="second" />
+                    </QueryCacheProvider>
+                );
+
+                // Assert
+                await waitFor(() => {
+                    expect(
+                        document.body.textContent!.split(fresh.name!)
+                    ).toHaveLength(3);
+                });
+            });
         });
     });
 
@@ -530,11 +1108,12 @@ describe("ServiceHookFactory", () => {
 
         /**
          * Test ensures service hook factory in fact protects against a react error
-         * when the component is unmounted before the promise resolves.
+         * when the component is unmounted before the promise resolves, rejecting with
+         * a cancellation error instead.
          *
          * See ServiceFactory.test.tsx for test that verifies react error thrown
          */
-        it("when unmounted before resolution, promise is cancelled successfully", async () => {
+        it("when unmounted before resolution, promise is rejected with cancellation error", async () => {
             // Arrange
             const consoleErrorSpy = jest.spyOn(console, "error");
 
@@ -547,6 +1126,7 @@ describe("ServiceHookFactory", () => {
             );
             MockAxios.getSuccess(record, cancellationTestsApiDelay);
             let isUnmounted = false;
+            let rejection: any;
 
             const ListStubComponent = () => {
                 const { list } = useList();
@@ -560,7 +1140,7 @@ describe("ServiceHookFactory", () => {
                         setRecords(result.resultObjects!);
                     }
 
-                    listUsers();
+                    listUsers().catch((error) => (rejection = error));
 
                     return () => {
                         isUnmounted = true;
@@ -583,6 +1163,7 @@ describe("ServiceHookFactory", () => {
             // Assert
             expect(isUnmounted).toBeTrue();
             expect(consoleErrorSpy).not.toHaveBeenCalled();
+            expect(axios.isCancel(rejection)).toBeTrue();
         });
     });
 
@@ -637,11 +1218,12 @@ describe("ServiceHookFactory", () => {
 
         /**
          * Test ensures service hook factory in fact protects against a react error
-         * when the component is unmounted before the promise resolves.
+         * when the component is unmounted before the promise resolves, rejecting with
+         * a cancellation error instead.
          *
          * See ServiceFactory.test.tsx for test that verifies react error thrown
          */
-        it("when unmounted before resolution, promise is cancelled successfully", async () => {
+        it("when unmounted before resolution, promise is rejected with cancellation error", async () => {
             // Arrange
             const consoleErrorSpy = jest.spyOn(console, "error");
 
@@ -656,6 +1238,7 @@ describe("ServiceHookFactory", () => {
             MockAxios.postSuccess(record, cancellationTestsApiDelay);
 
             let isUnmounted = false;
+            let rejection: any;
 
             const NestedCreateStubComponent = () => {
                 const { create } = useCreate();
@@ -671,7 +1254,7 @@ describe("ServiceHookFactory", () => {
                         setRecord(result.resultObject!);
                     }
 
-                    createRecord();
+                    createRecord().catch((error) => (rejection = error));
 
                     return () => {
                         isUnmounted = true;
@@ -692,6 +1275,7 @@ describe("ServiceHookFactory", () => {
             // Assert
             expect(isUnmounted).toBeTrue();
             expect(consoleErrorSpy).not.toHaveBeenCalled();
+            expect(axios.isCancel(rejection)).toBeTrue();
         });
     });
 
@@ -754,11 +1338,12 @@ describe("ServiceHookFactory", () => {
 
         /**
          * Test ensures service hook factory in fact protects against a react error
-         * when the component is unmounted before the promise resolves.
+         * when the component is unmounted before the promise resolves, rejecting with
+         * a cancellation error instead.
          *
          * See ServiceFactory.test.tsx for test that verifies react error thrown
          */
-        it("when unmounted before resolution, promise is cancelled successfully", async () => {
+        it("when unmounted before resolution, promise is rejected with cancellation error", async () => {
             // Arrange
             const consoleErrorSpy = jest.spyOn(console, "error");
 
@@ -775,6 +1360,7 @@ describe("ServiceHookFactory", () => {
             MockAxios.getSuccess(records, cancellationTestsApiDelay);
 
             let isUnmounted = false;
+            let rejection: any;
 
             const NestedListStubComponent = () => {
                 const { list } = useList();
@@ -788,7 +1374,7 @@ describe("ServiceHookFactory", () => {
                         setRecords(result.resultObjects!);
                     }
 
-                    listUsers();
+                    listUsers().catch((error) => (rejection = error));
 
                     return () => {
                         isUnmounted = true;
@@ -811,11 +1397,166 @@ describe("ServiceHookFactory", () => {
             // Assert
             expect(isUnmounted).toBeTrue();
             expect(consoleErrorSpy).not.toHaveBeenCalled();
+            expect(axios.isCancel(rejection)).toBeTrue();
         });
     });
 
     // #endregion useNestedList
 
+    // ---------------------------------------------------------------------------------------------
+    // #region usePatch
+    // ---------------------------------------------------------------------------------------------
+
+    describe("usePatch", () => {
+        itReturnsFunction(sut.usePatch, resourceEndpoint);
+
+        it("when not-cancelled, resolves successfully", async () => {
+            // Arrange
+            const usePatch = sut.usePatch(StubResourceRecord, resourceEndpoint);
+            const expectedStubRecord = Factory.build<StubResourceRecord>(
+                AndcultureCodeFactoryType.StubResourceRecord,
+                { id: 10 }
+            );
+
+            (axios.patch as jest.Mock).mockResolvedValue({
+                data: { resultObject: expectedStubRecord.toJS() },
+            });
+
+            const PatchStubComponent = () => {
+                const { patch } = usePatch();
+                const [record, setRecord] = useState<StubResourceRecord>(
+                    null as any
+                );
+
+                useEffect(() => {
+                    patch({ name: expectedStubRecord.name }, undefined, {
+                        id: expectedStubRecord.id,
+                    }).then((result) => setRecord(result.resultObject!));
+                }, []);
+
+                return <div>{record != null && record!.name}</div>;
+            };
+
+            // Act
+            const { getByText } = render(<PatchStubComponent />);
+
+            // Assert
+            await waitFor(() => {
+                expect(getByText(expectedStubRecord.name!)).toBeInTheDocument();
+            });
+        });
+    });
+
+    // #endregion usePatch
+
+    // ---------------------------------------------------------------------------------------------
+    // #region useResource
+    // ---------------------------------------------------------------------------------------------
+
+    describe("useResource", () => {
+        it("returns hook returning every service function", async () => {
+            // Arrange
+            const useResource = sut.useResource(StubResourceRecord, {
+                baseEndpoint,
+                resourceEndpoint,
+            });
+            const expectedStubRecord = Factory.build<StubResourceRecord>(
+                AndcultureCodeFactoryType.StubResourceRecord,
+                { id: 10 }
+            );
+            MockAxios.getSuccess(expectedStubRecord);
+            let services: any;
+
+            const ResourceStubComponent = () => {
+                const resource = useResource();
+                const [record, setRecord] = useState<StubResourceRecord>();
+                services = resource;
+
+                useEffect(() => {
+                    resource
+                        .get({ id: expectedStubRecord.id })
+                        .then((result) => setRecord(result.resultObject));
+                }, []);
+
+                return <div>{record?.name}</div>;
+            };
+
+            // Act
+            const { getByText } = render(<ResourceStubComponent />);
+
+            // Assert
+            await waitFor(() => {
+                expect(getByText(expectedStubRecord.name!)).toBeInTheDocument();
+            });
+            expect(Object.keys(services)).toIncludeSameMembers([
+                "bulkUpdate",
+                "create",
+                "delete",
+                "get",
+                "list",
+                "patch",
+                "update",
+            ]);
+        });
+
+        it("when scoped to a client, does not share cache entries with other clients", async () => {
+            // Arrange
+            const record = Factory.build<StubResourceRecord>(
+                AndcultureCodeFactoryType.StubResourceRecord,
+                { id: 10 }
+            );
+            const createClient = (baseURL: string) => ({
+                defaults: { baseURL },
+                get: jest.fn(() =>
+                    Promise.resolve({
+                        data: { resultObject: record.toJS() },
+                    })
+                ),
+            });
+            const firstClient = createClient("https://first.example.com");
+            const secondClient = createClient("https://second.example.com");
+            const definition = { baseEndpoint, resourceEndpoint };
+            const useFirstResource = sut
+                .withClient(firstClient as any)
+                .useResource(StubResourceRecord, definition, { cache: true });
+            const useSecondResource = sut
+                .withClient(secondClient as any)
+                .useResource(StubResourceRecord, definition, { cache: true });
+
+            const ResourceStubComponent = (props: {
+                useResource: typeof useFirstResource;
+            }) => {
+                const { get } = props.useResource();
+                const [name, setName] = useState<string>();
+
+                useEffect(() => {
+                    get({ id: record.id! }).then((result) =>
+                        setName(result.resultObject!.name)
+                    );
+                }, [get]);
+
+                return <div>{name}</div>;
+            };
+
+            // Act
+            const { getAllByText } = render(
+                <QueryCacheProvider>
+                    <ResourceStubComponent useResource={useFirstResource} />
+                    <ResourceStubComponent useResource={useSecondResource} />
+                </QueryCacheProvider>
+            );
+
+            // Assert
+            await waitFor(() => {
+                expect(getAllByText(record.name!)).toHaveLength(2);
+            });
+            expect(firstClient.get).toHaveBeenCalledTimes(1);
+            expect(secondClient.get).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    // #endregion useResource
+
     // ---------------------------------------------------------------------------------------------
     // #region useUpdate
     // ---------------------------------------------------------------------------------------------
@@ -864,11 +1605,12 @@ describe("ServiceHookFactory", () => {
 
         /**
          * Test ensures service hook factory in fact protects against a react error
-         * when the component is unmounted before the promise resolves.
+         * when the component is unmounted before the promise resolves, rejecting with
+         * a cancellation error instead.
          *
          * See ServiceFactory.test.tsx for test that verifies react error thrown
          */
-        it("when unmounted before resolution, promise is cancelled successfully", async () => {
+        it("when unmounted before resolution, promise is rejected with cancellation error", async () => {
             // Arrange
             const consoleErrorSpy = jest.spyOn(console, "error");
 
@@ -883,6 +1625,7 @@ describe("ServiceHookFactory", () => {
             MockAxios.putSuccess(record, cancellationTestsApiDelay);
 
             let isUnmounted = false;
+            let rejection: any;
 
             const UpdateStubComponent = () => {
                 const { update } = useUpdate();
@@ -896,7 +1639,7 @@ describe("ServiceHookFactory", () => {
                         setRecord(result.resultObject!);
                     }
 
-                    updateUser();
+                    updateUser().catch((error) => (rejection = error));
 
                     return () => {
                         isUnmounted = true;
@@ -917,10 +1660,295 @@ describe("ServiceHookFactory", () => {
             // Assert
             expect(isUnmounted).toBeTrue();
             expect(consoleErrorSpy).not.toHaveBeenCalled();
+            expect(axios.isCancel(rejection)).toBeTrue();
+        });
+
+        describe("when optimisticUpdate is supplied", () => {
+            const renderOptimisticUpdate = (client: any) => {
+                const original = Factory.build<StubResourceRecord>(
+                    AndcultureCodeFactoryType.StubResourceRecord,
+                    { id: 10 }
+                );
+                const updated = Factory.build<StubResourceRecord>(
+                    AndcultureCodeFactoryType.StubResourceRecord,
+                    { id: 10, name: `${original.name} (updated)` }
+                );
+                const useUpdate = sut
+                    .withClient(client)
+                    .useUpdate(StubResourceRecord, resourceEndpoint);
+
+                const UpdateStubComponent = () => {
+                    const [record, setRecord] = useState(original);
+                    const { update } = useUpdate({
+                        optimisticUpdate: (changed: StubResourceRecord) => {
+                            const snapshot = record;
+                            setRecord(changed);
+                            return () => setRecord(snapshot);
+                        },
+                    });
+
+                    useEffect(() => {
+                        update(updated, { id: updated.id }).catch(() => {});
+                    }, [update]);
+
+                    return <div>{record.name}</div>;
+                };
+
+                return {
+                    original,
+                    updated,
+                    ...render(<UpdateStubComponent />),
+                };
+            };
+
+            it("applies the update before the request resolves", async () => {
+                // Arrange
+                const client = { put: jest.fn(() => new Promise(() => {})) };
+
+                // Act
+                const { getByText, updated } = renderOptimisticUpdate(client);
+
+                // Assert
+                expect(getByText(updated.name!)).toBeInTheDocument();
+            });
+
+            it("when request fails, rolls back to the previous snapshot", async () => {
+                // Arrange
+                const client = {
+                    put: jest.fn(() =>
+                        Promise.reject({
+                            response: {
+                                data: {
+                                    errors: [{ key: "Error", message: "" }],
+                                },
+                            },
+                        })
+                    ),
+                };
+
+                // Act
+                const { getByText, original } = renderOptimisticUpdate(client);
+
+                // Assert
+                await waitFor(() => {
+                    expect(getByText(original.name!)).toBeInTheDocument();
+                });
+            });
+
+            it("when result contains errors, rolls back to the previous snapshot", async () => {
+                // Arrange
+                const client = {
+                    put: jest.fn(() =>
+                        Promise.resolve({
+                            data: { errors: [{ key: "Error", message: "" }] },
+                        })
+                    ),
+                };
+
+                // Act
+                const { getByText, original } = renderOptimisticUpdate(client);
+
+                // Assert
+                await waitFor(() => {
+                    expect(getByText(original.name!)).toBeInTheDocument();
+                });
+            });
+
+            it("when unmounted before resolution, rolls back the update", async () => {
+                // Arrange
+                const client = {
+                    put: jest.fn(
+                        (url: string, record: any, config: any) =>
+                            new Promise((resolve, reject) =>
+                                config.cancelToken.promise.then(reject)
+                            )
+                    ),
+                };
+                const rollback = jest.fn();
+                const useUpdate = sut
+                    .withClient(client as any)
+                    .useUpdate(StubResourceRecord, resourceEndpoint);
+
+                const UpdateStubComponent = () => {
+                    const { update } = useUpdate({
+                        optimisticUpdate: () => rollback,
+                    });
+
+                    useEffect(() => {
+                        update(
+                            new StubResourceRecord({ id: 10 })
+                        ).catch(() => {});
+                    }, [update]);
+
+                    return <div></div>;
+                };
+
+                // Act
+                await act(async () => {
+                    const { unmount } = render(<UpdateStubComponent />);
+                    unmount();
+                    await CoreUtils.sleep(cancellationTestsAssertionDelay);
+                });
+
+                // Assert
+                expect(rollback).toHaveBeenCalledTimes(1);
+            });
+
+            it("when request succeeds, keeps the update", async () => {
+                // Arrange
+                const client = {
+                    put: jest.fn((url: string, record: any) =>
+                        Promise.resolve({ data: { resultObject: record } })
+                    ),
+                };
+
+                // Act
+                const { getByText, updated } = renderOptimisticUpdate(client);
+                await act(async () => {
+                    await CoreUtils.sleep(cancellationTestsAssertionDelay);
+                });
+
+                // Assert
+                expect(getByText(updated.name!)).toBeInTheDocument();
+                expect(client.put).toHaveBeenCalled();
+            });
         });
     });
 
     // #endregion useUpdate
+
+    // ---------------------------------------------------------------------------------------------
+    // #region useUpload
+    // ---------------------------------------------------------------------------------------------
+
+    describe("useUpload", () => {
+        itReturnsFunction(sut.useUpload, baseEndpoint);
+
+        it("tracks upload progress", async () => {
+            // Arrange
+            const useUpload = sut.useUpload(StubResourceRecord, baseEndpoint);
+            const onUploadProgress = jest.fn();
+            let sendChunk: (response: any) => void = () => {};
+
+            (MockAxios.post as jest.Mock).mockImplementation(
+                (url: string, data: FormData, config: any) => {
+                    config.onUploadProgress({ loaded: 5 });
+                    return new Promise((resolve) => (sendChunk = resolve));
+                }
+            );
+
+            const { result } = renderHook(() => useUpload());
+
+            // Act
+            let upload: Promise<any>;
+            act(() => {
+                upload = result.current.upload(
+                    new Blob(["0123456789"]),
+                    undefined,
+                    undefined,
+                    { onUploadProgress }
+                );
+            });
+
+            // Assert
+            expect(result.current.progress).toEqual({
+                loaded: 5,
+                percent: 50,
+                resumeFrom: 0,
+                total: 10,
+            });
+            expect(onUploadProgress).toHaveBeenCalledWith(
+                result.current.progress
+            );
+
+            await act(async () => {
+                sendChunk({ data: {}, status: 200 });
+                await upload;
+            });
+
+            expect(result.current.progress!.percent).toBe(100);
+        });
+
+        it("when cancelled, rejects with cancellation error", async () => {
+            // Arrange
+            const useUpload = sut.useUpload(StubResourceRecord, baseEndpoint);
+            (MockAxios.post as jest.Mock).mockReturnValue(
+                new Promise(() => {})
+            );
+
+            const { result } = renderHook(() => useUpload());
+
+            // Act
+            let rejection: any;
+            await act(async () => {
+                const upload = result.current.upload(new Blob(["contents"]));
+                result.current.cancel();
+                rejection = await upload.catch((error) => error);
+            });
+
+            // Assert
+            const {
+                cancelToken,
+            } = (MockAxios.post as jest.Mock).mock.calls[0][2];
+            expect(axios.isCancel(rejection)).toBeTrue();
+            expect(cancelToken.reason).toBeDefined();
+        });
+    });
+
+    // #endregion useUpload
+
+    // ---------------------------------------------------------------------------------------------
+    // #region withClient
+    // ---------------------------------------------------------------------------------------------
+
+    describe("withClient", () => {
+        it("returns hook factory whose hooks use the supplied client", async () => {
+            // Arrange
+            const expectedStubRecord = Factory.build<StubResourceRecord>(
+                AndcultureCodeFactoryType.StubResourceRecord
+            );
+            const client = {
+                post: jest.fn(() =>
+                    Promise.resolve({
+                        data: { resultObject: expectedStubRecord.toJS() },
+                    })
+                ),
+            };
+            const useCreate = sut
+                .withClient(client as any)
+                .useCreate(StubResourceRecord, baseEndpoint);
+
+            const CreateStubComponent = () => {
+                const { create } = useCreate();
+                const [record, setRecord] = useState<StubResourceRecord>(
+                    null as any
+                );
+
+                useEffect(() => {
+                    async function createRecord() {
+                        const result = await create(new StubResourceRecord());
+                        setRecord(result.resultObject!);
+                    }
+
+                    createRecord();
+                }, []);
+
+                return <div>{record != null && record!.name}</div>;
+            };
+
+            // Act
+            const { getByText } = render(<CreateStubComponent />);
+
+            // Assert
+            await waitFor(() => {
+                expect(getByText(expectedStubRecord.name!)).toBeInTheDocument();
+            });
+            expect(client.post).toHaveBeenCalled();
+            expect(MockAxios.post).not.toHaveBeenCalled();
+        });
+    });
+
+    // #endregion withClient
 });
 
 // #endregion Tests
@@ -3,51 +3,165 @@
  * and thinks we are calling it
  */
 /* eslint-disable react-hooks/rules-of-hooks */
-import { useCallback } from "react";
-import { ServiceFactory } from "./service-factory";
-import { ServiceResponse } from "andculturecode-javascript-core";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ScopedServiceFactory, ServiceFactory } from "./service-factory";
+import axios, { AxiosInstance, CancelTokenSource } from "axios";
+import { RouteUtils, ServiceResponse } from "andculturecode-javascript-core";
 import { useCancellablePromise } from "../hooks/use-cancellable-promise";
+import { useQueryCache } from "../hooks/use-query-cache";
+import {
+    ignoreServiceError,
+    useServiceErrorHandler,
+} from "../hooks/use-service-error-handler";
+import { DownloadProgress } from "../interfaces/download-progress";
+import { DownloadRequestConfig } from "../interfaces/download-request-config";
+import { DownloadResponse } from "../interfaces/download-response";
+import { MutationServiceHookOptions } from "../interfaces/mutation-service-hook-options";
+import { OfflineQueue } from "../interfaces/offline-queue";
+import { OptimisticUpdateOptions } from "../interfaces/optimistic-update-options";
+import { QueryCache } from "../interfaces/query-cache";
+import { QueryCacheOptions } from "../interfaces/query-cache-options";
+import { QueryServiceHookOptions } from "../interfaces/query-service-hook-options";
+import { ResourceDefinition } from "../interfaces/resource-definition";
+import { ServiceHookOptions } from "../interfaces/service-hook-options";
+import { ServiceMiddleware } from "../interfaces/service-middleware";
+import { ServiceRequestConfig } from "../interfaces/service-request-config";
+import { UploadProgress } from "../interfaces/upload-progress";
+import { UploadRequestConfig } from "../interfaces/upload-request-config";
+import { UploadServiceHookOptions } from "../interfaces/upload-service-hook-options";
 import { BulkUpdateServiceHook } from "../types/bulk-update-service-hook-type";
 import { CreateServiceHook } from "../types/create-service-hook-type";
 import { DeleteServiceHook } from "../types/delete-service-hook-type";
+import { DeleteService } from "../types/delete-service-type";
+import { DownloadServiceHook } from "../types/download-service-hook-type";
 import { GetServiceHook } from "../types/get-service-hook-type";
 import { ListServiceHook } from "../types/list-service-hook-type";
 import { NestedCreateServiceHook } from "../types/nested-create-service-hook-type";
 import { NestedListServiceHook } from "../types/nested-list-service-hook-type";
+import { NestedResourceServiceHook } from "../types/nested-resource-service-hook-type";
+import { PatchServiceHook } from "../types/patch-service-hook-type";
+import { PatchService } from "../types/patch-service-type";
+import { RecordIdentifier } from "../types/record-identifier-type";
+import { ResourceServiceHook } from "../types/resource-service-hook-type";
 import { UpdateServiceHook } from "../types/update-service-hook-type";
+import { UpdateService } from "../types/update-service-type";
+import { UploadServiceHook } from "../types/upload-service-hook-type";
+import { FileUtils } from "../utilities/file-utils";
+
+// ---------------------------------------------------------------------------------------------
+// #region Interfaces
+// ---------------------------------------------------------------------------------------------
+
+/**
+ * Hook factory bound to a specific `ScopedServiceFactory`
+ */
+interface ScopedServiceHookFactory
+    extends ReturnType<typeof _buildServiceHookFactory> {}
+
+/**
+ * Signatures of `ServiceHookFactory.useResource`, which uses nested `create` and `list` hooks
+ * when the resource definition is nested
+ */
+interface ResourceServiceHookBuilder {
+    <
+        TRecord,
+        TPathParams = any,
+        TNestedPathParams = any,
+        TQueryParams = any,
+        TId extends RecordIdentifier = number
+    >(
+        recordType: { new (): TRecord },
+        definition: ResourceDefinition & { nested: true },
+        options?: QueryServiceHookOptions & MutationServiceHookOptions
+    ): NestedResourceServiceHook<
+        TRecord,
+        TPathParams,
+        TNestedPathParams,
+        TQueryParams,
+        TId
+    >;
+    <
+        TRecord,
+        TPathParams = any,
+        TQueryParams = any,
+        TId extends RecordIdentifier = number
+    >(
+        recordType: { new (): TRecord },
+        definition: ResourceDefinition,
+        options?: QueryServiceHookOptions & MutationServiceHookOptions
+    ): ResourceServiceHook<TRecord, TPathParams, TQueryParams, TId>;
+}
+
+// #endregion Interfaces
 
 // ---------------------------------------------------------------------------------------------
 // #region Functions
 // ---------------------------------------------------------------------------------------------
 
 /**
- * Factory to encapsulate common service function logic
+ * Builds a factory to encapsulate common service hook logic for the supplied service factory
+ * @param serviceFactory
+ * @param client Client the service factory is bound to, whose base url scopes the cache keys
  */
-const ServiceHookFactory = {
+const _buildServiceHookFactory = (
+    serviceFactory: ScopedServiceFactory,
+    client?: AxiosInstance
+) => ({
     /**
      * Creates conventional hook for using service update function for an array of the supplied resource type.
      * Automatically handles cancellation tokens internally.
+     * Locally held records can be updated before the request completes by supplying an
+     * `optimisticUpdate` when calling the hook.
      * @param recordType
      * @param resourceEndpoint
+     * @param options
      */
     useBulkUpdate<TRecord, TPathParams>(
         recordType: { new (): TRecord },
-        resourceEndpoint: string
+        resourceEndpoint: string,
+        options?: MutationServiceHookOptions
     ): BulkUpdateServiceHook<TRecord, TPathParams> {
-        return () => {
-            const { cancellablePromise } = useCancellablePromise();
+        return (
+            hookOptions?: OptimisticUpdateOptions<[TRecord[], TPathParams]>
+        ) => {
+            const { cancellablePromise } = _useCancellableServiceRequest(
+                options
+            );
+            const cache = useQueryCache();
+            const optimisticUpdate = useRef(hookOptions?.optimisticUpdate);
+            optimisticUpdate.current = hookOptions?.optimisticUpdate;
 
-            const serviceUpdate = ServiceFactory.bulkUpdate(
+            const serviceUpdate = serviceFactory.bulkUpdate(
                 recordType,
-                resourceEndpoint
+                resourceEndpoint,
+                options
             );
 
             function update(
                 records: Array<TRecord>,
-                pathParams: TPathParams
+                pathParams: TPathParams,
+                config?: ServiceRequestConfig
             ): Promise<ServiceResponse<TRecord>> {
+                const rollback = optimisticUpdate.current?.(
+                    records,
+                    pathParams
+                );
+
+                const cancelTokenSource = axios.CancelToken.source();
+                const request = _invalidateQueries(
+                    cache,
+                    client,
+                    serviceUpdate(
+                        records,
+                        pathParams,
+                        _withCancelToken(cancelTokenSource, config)
+                    ),
+                    options
+                );
+
                 return cancellablePromise(
-                    serviceUpdate(records, pathParams)
+                    _rollbackOnError(request, rollback),
+                    cancelTokenSource
                 ) as Promise<ServiceResponse<TRecord>>;
             }
 
@@ -64,25 +178,42 @@ const ServiceHookFactory = {
      *
      * @param recordType
      * @param baseEndpoint
+     * @param options
      */
     useCreate<TRecord extends any>(
         recordType: { new (): TRecord },
-        baseEndpoint: string
+        baseEndpoint: string,
+        options?: MutationServiceHookOptions
     ): CreateServiceHook<TRecord> {
         return () => {
-            const { cancellablePromise } = useCancellablePromise();
+            const { cancellablePromise } = _useCancellableServiceRequest(
+                options
+            );
+            const cache = useQueryCache();
 
-            const serviceCreate = ServiceFactory.create(
+            const serviceCreate = serviceFactory.create(
                 recordType,
-                baseEndpoint
+                baseEndpoint,
+                options
             );
 
             function create(
-                record?: TRecord
+                record?: TRecord,
+                config?: ServiceRequestConfig
             ): Promise<ServiceResponse<TRecord>> {
-                return cancellablePromise(serviceCreate(record)) as Promise<
-                    ServiceResponse<TRecord>
-                >;
+                const cancelTokenSource = axios.CancelToken.source();
+                return cancellablePromise(
+                    _invalidateQueries(
+                        cache,
+                        client,
+                        serviceCreate(
+                            record,
+                            _withCancelToken(cancelTokenSource, config)
+                        ),
+                        options
+                    ),
+                    cancelTokenSource
+                ) as Promise<ServiceResponse<TRecord>>;
             }
 
             return { create: useCallback(create, []) };
@@ -92,91 +223,276 @@ const ServiceHookFactory = {
     /**
      * Creates conventional hook for using service delete function for the supplied resource type.
      * Automatically handles cancellation tokens internally.
+     * Locally held records can be updated before the request completes by supplying an
+     * `optimisticUpdate` when calling the hook.
      * @param recordType
      * @param baseEndpoint
+     * @param options
      */
-    useDelete(resourceEndpoint: string): DeleteServiceHook {
-        return () => {
-            const { cancellablePromise } = useCancellablePromise();
+    useDelete<TId extends RecordIdentifier = number, TPathParams = any>(
+        resourceEndpoint: string,
+        options?: MutationServiceHookOptions
+    ): DeleteServiceHook<TId, TPathParams> {
+        return (hookOptions?: OptimisticUpdateOptions<[TId, TPathParams?]>) => {
+            const { cancellablePromise } = _useCancellableServiceRequest(
+                options
+            );
+            const cache = useQueryCache();
+            const optimisticUpdate = useRef(hookOptions?.optimisticUpdate);
+            optimisticUpdate.current = hookOptions?.optimisticUpdate;
 
-            const serviceDelete = ServiceFactory.delete(resourceEndpoint);
+            const serviceDelete = serviceFactory.delete<TId, any>(
+                resourceEndpoint,
+                options
+            );
 
             function _delete(
-                id: number,
-                pathParams?: any
+                id: TId,
+                pathParams?: TPathParams,
+                config?: ServiceRequestConfig
             ): Promise<ServiceResponse<Boolean>> {
+                const rollback = optimisticUpdate.current?.(id, pathParams);
+
+                const cancelTokenSource = axios.CancelToken.source();
+                const request = _invalidateQueries(
+                    cache,
+                    client,
+                    serviceDelete(
+                        id,
+                        pathParams,
+                        _withCancelToken(cancelTokenSource, config)
+                    ),
+                    options
+                );
+
                 return cancellablePromise(
-                    serviceDelete(id, pathParams)
+                    _rollbackOnError(request, rollback),
+                    cancelTokenSource
                 ) as Promise<ServiceResponse<Boolean>>;
             }
 
-            return { delete: useCallback(_delete, []) };
+            return {
+                delete: useCallback(_delete, []) as DeleteService<
+                    TId,
+                    TPathParams
+                >,
+            };
+        };
+    },
+
+    /**
+     * Creates hook for downloading a file and prompting the browser to save it. Tracks the
+     * download's progress and automatically handles cancellation tokens internally.
+     * @param resourceEndpoint
+     * @param options
+     */
+    useDownload<TPathParams = any, TQueryParams = any>(
+        resourceEndpoint: string,
+        options?: ServiceHookOptions
+    ): DownloadServiceHook<TPathParams, TQueryParams> {
+        return () => {
+            const {
+                cancelAll,
+                cancellablePromise,
+            } = _useCancellableServiceRequest(options);
+            const [progress, setProgress] = useState<DownloadProgress>();
+
+            const serviceDownload = serviceFactory.download<
+                TPathParams,
+                TQueryParams
+            >(resourceEndpoint, options);
+
+            function download(
+                pathParams?: TPathParams,
+                queryParams?: TQueryParams,
+                config?: DownloadRequestConfig
+            ): Promise<DownloadResponse> {
+                const cancelTokenSource = axios.CancelToken.source();
+                const onDownloadProgress = (
+                    downloadProgress: DownloadProgress
+                ) => {
+                    setProgress(downloadProgress);
+                    config?.onDownloadProgress?.(downloadProgress);
+                };
+
+                setProgress(undefined);
+
+                return cancellablePromise(
+                    serviceDownload(pathParams, queryParams, {
+                        ..._withCancelToken(cancelTokenSource, config),
+                        onDownloadProgress,
+                    }),
+                    cancelTokenSource
+                ).then((response: DownloadResponse) => {
+                    FileUtils.save(response.blob, response.fileName);
+                    return response;
+                });
+            }
+
+            return {
+                cancel: cancelAll,
+                download: useCallback(download, []),
+                progress,
+            };
         };
     },
 
     /**
      * Creates conventional hook for using service get function for the supplied resource type.
-     * Automatically handles cancellation tokens internally.
+     * Automatically handles cancellation tokens internally, aborting any request still in
+     * flight from a previous call.
      * @param recordType
      * @param resourceEndpoint
+     * @param options
      */
     useGet<TRecord, TPathParams, TQueryParams = undefined>(
         recordType: { new (): TRecord },
-        resourceEndpoint: string
+        resourceEndpoint: string,
+        options?: QueryServiceHookOptions
     ): GetServiceHook<TRecord, TPathParams, TQueryParams> {
-        return () => {
-            const { cancellablePromise } = useCancellablePromise();
+        const cacheOptions = _getCacheOptions(options);
 
-            const serviceGet = ServiceFactory.get<
-                TRecord,
-                TPathParams,
-                TQueryParams
-            >(recordType, resourceEndpoint);
+        // Created once so every component using the hook shares its batch loaders
+        const serviceGet = serviceFactory.get<
+            TRecord,
+            TPathParams,
+            TQueryParams
+        >(recordType, resourceEndpoint, options);
+
+        return () => {
+            const {
+                cancelAll,
+                cancellablePromise,
+            } = _useCancellableServiceRequest(options);
+            const { cache, keys, version } = _useQueryCacheSubscription(
+                cacheOptions != null
+            );
 
             function get(
                 pathParams: TPathParams,
-                queryParams?: TQueryParams
+                queryParams?: TQueryParams,
+                config?: ServiceRequestConfig
             ): Promise<ServiceResponse<TRecord>> {
+                // Supersede any request still in flight from a previous call
+                cancelAll();
+
+                if (cacheOptions != null) {
+                    const key = _toCacheKey(
+                        client,
+                        RouteUtils.getUrlFromPath(
+                            resourceEndpoint,
+                            pathParams,
+                            queryParams
+                        )
+                    );
+                    keys.add(key);
+
+                    // Cached requests are shared between callers, so only this caller's
+                    // promise is cancelled rather than the underlying request
+                    return cancellablePromise(
+                        cache.fetch(
+                            key,
+                            () => serviceGet(pathParams, queryParams, config),
+                            cacheOptions
+                        )
+                    );
+                }
+
+                // Batched requests are shared between callers, so are only cancelled when
+                // the caller supplies their own cancel token
+                if (options?.batch != null) {
+                    return cancellablePromise(
+                        serviceGet(pathParams, queryParams, config)
+                    );
+                }
+
+                const cancelTokenSource = axios.CancelToken.source();
                 return cancellablePromise(
-                    serviceGet(pathParams, queryParams)
+                    serviceGet(
+                        pathParams,
+                        queryParams,
+                        _withCancelToken(cancelTokenSource, config)
+                    ),
+                    cancelTokenSource
                 ) as Promise<ServiceResponse<TRecord>>;
             }
 
-            return { get: useCallback(get, []) };
+            return { get: useCallback(get, [version]) };
         };
     },
 
     /**
      * Creates conventional hook for using service list function for the supplied resource type.
-     * Automatically handles cancellation tokens internally.
+     * Automatically handles cancellation tokens internally, aborting any request still in
+     * flight from a previous call.
      *
      * ### Recommendation
      * Use `useNestedList` when route is nested!
      *
      * @param recordType
      * @param baseEndpoint
+     * @param options
      */
     useList<TRecord, TQueryParams>(
         recordType: { new (): TRecord },
-        baseEndpoint: string
+        baseEndpoint: string,
+        options?: QueryServiceHookOptions
     ): ListServiceHook<TRecord, TQueryParams> {
+        const cacheOptions = _getCacheOptions(options);
+
         return () => {
-            const { cancellablePromise } = useCancellablePromise();
+            const {
+                cancelAll,
+                cancellablePromise,
+            } = _useCancellableServiceRequest(options);
+            const { cache, keys, version } = _useQueryCacheSubscription(
+                cacheOptions != null
+            );
 
-            const serviceList = ServiceFactory.list<TRecord, TQueryParams>(
+            const serviceList = serviceFactory.list<TRecord, TQueryParams>(
                 recordType,
-                baseEndpoint
+                baseEndpoint,
+                options
             );
 
             function list(
-                queryParams?: TQueryParams
+                queryParams?: TQueryParams,
+                config?: ServiceRequestConfig
             ): Promise<ServiceResponse<TRecord>> {
-                return cancellablePromise(serviceList(queryParams)) as Promise<
-                    ServiceResponse<TRecord>
-                >;
+                // Supersede any request still in flight from a previous call
+                cancelAll();
+
+                if (cacheOptions != null) {
+                    const key = _toCacheKey(
+                        client,
+                        RouteUtils.getUrlFromPath(
+                            baseEndpoint,
+                            undefined,
+                            queryParams
+                        )
+                    );
+                    keys.add(key);
+
+                    return cancellablePromise(
+                        cache.fetch(
+                            key,
+                            () => serviceList(queryParams, config),
+                            cacheOptions
+                        )
+                    );
+                }
+
+                const cancelTokenSource = axios.CancelToken.source();
+                return cancellablePromise(
+                    serviceList(
+                        queryParams,
+                        _withCancelToken(cancelTokenSource, config)
+                    ),
+                    cancelTokenSource
+                ) as Promise<ServiceResponse<TRecord>>;
             }
 
-            return { list: useCallback(list, []) };
+            return { list: useCallback(list, [version]) };
         };
     },
 
@@ -185,25 +501,42 @@ const ServiceHookFactory = {
      * Automatically handles cancellation tokens internally.
      * @param recordType
      * @param baseEndpoint
+     * @param options
      */
     useNestedCreate<TRecord extends any, TPathParams>(
         recordType: { new (): TRecord },
-        baseEndpoint: string
+        baseEndpoint: string,
+        options?: MutationServiceHookOptions
     ): NestedCreateServiceHook<TRecord, TPathParams> {
         return () => {
-            const { cancellablePromise } = useCancellablePromise();
+            const { cancellablePromise } = _useCancellableServiceRequest(
+                options
+            );
+            const cache = useQueryCache();
 
-            const serviceCreate = ServiceFactory.nestedCreate<
+            const serviceCreate = serviceFactory.nestedCreate<
                 TRecord,
                 TPathParams
-            >(recordType, baseEndpoint);
+            >(recordType, baseEndpoint, options);
 
             function create(
                 record: TRecord,
-                pathParams: TPathParams
+                pathParams: TPathParams,
+                config?: ServiceRequestConfig
             ): Promise<ServiceResponse<TRecord>> {
+                const cancelTokenSource = axios.CancelToken.source();
                 return cancellablePromise(
-                    serviceCreate(record, pathParams)
+                    _invalidateQueries(
+                        cache,
+                        client,
+                        serviceCreate(
+                            record,
+                            pathParams,
+                            _withCancelToken(cancelTokenSource, config)
+                        ),
+                        options
+                    ),
+                    cancelTokenSource
                 ) as Promise<ServiceResponse<TRecord>>;
             }
 
@@ -213,74 +546,541 @@ const ServiceHookFactory = {
 
     /**
      * Creates conventional hook for using service nested list function for the supplied resource type.
-     * Automatically handles cancellation tokens internally.
+     * Automatically handles cancellation tokens internally, aborting any request still in
+     * flight from a previous call.
      * @param recordType
      * @param baseEndpoint
+     * @param options
      */
     useNestedList<TRecord, TPathParams, TQueryParams>(
         recordType: { new (): TRecord },
-        baseEndpoint: string
+        baseEndpoint: string,
+        options?: QueryServiceHookOptions
     ): NestedListServiceHook<TRecord, TPathParams, TQueryParams> {
+        const cacheOptions = _getCacheOptions(options);
+
         return () => {
-            const { cancellablePromise } = useCancellablePromise();
+            const {
+                cancelAll,
+                cancellablePromise,
+            } = _useCancellableServiceRequest(options);
+            const { cache, keys, version } = _useQueryCacheSubscription(
+                cacheOptions != null
+            );
 
-            const serviceList = ServiceFactory.nestedList<
+            const serviceList = serviceFactory.nestedList<
                 TRecord,
                 TPathParams,
                 TQueryParams
-            >(recordType, baseEndpoint);
+            >(recordType, baseEndpoint, options);
 
             function list(
                 pathParams: TPathParams,
-                queryParams?: TQueryParams
+                queryParams?: TQueryParams,
+                config?: ServiceRequestConfig
             ): Promise<ServiceResponse<TRecord>> {
+                // Supersede any request still in flight from a previous call
+                cancelAll();
+
+                if (cacheOptions != null) {
+                    const key = _toCacheKey(
+                        client,
+                        RouteUtils.getUrlFromPath(
+                            baseEndpoint,
+                            pathParams,
+                            queryParams
+                        )
+                    );
+                    keys.add(key);
+
+                    return cancellablePromise(
+                        cache.fetch(
+                            key,
+                            () => serviceList(pathParams, queryParams, config),
+                            cacheOptions
+                        )
+                    );
+                }
+
+                const cancelTokenSource = axios.CancelToken.source();
                 return cancellablePromise(
-                    serviceList(pathParams, queryParams)
+                    serviceList(
+                        pathParams,
+                        queryParams,
+                        _withCancelToken(cancelTokenSource, config)
+                    ),
+                    cancelTokenSource
                 ) as Promise<ServiceResponse<TRecord>>;
             }
 
-            return { list: useCallback(list, []) };
+            return { list: useCallback(list, [version]) };
         };
     },
 
+    /**
+     * Creates conventional hook for using service patch function for the supplied resource type.
+     * Automatically handles cancellation tokens internally.
+     * Locally held records can be updated before the request completes by supplying an
+     * `optimisticUpdate` when calling the hook.
+     * @param recordType
+     * @param resourceEndpoint
+     * @param options
+     */
+    usePatch<TRecord, TPathParams>(
+        recordType: { new (): TRecord },
+        resourceEndpoint: string,
+        options?: MutationServiceHookOptions
+    ): PatchServiceHook<TRecord, TPathParams> {
+        return (
+            hookOptions?: OptimisticUpdateOptions<
+                [TRecord | Partial<TRecord>, TRecord?, TPathParams?]
+            >
+        ) => {
+            const { cancellablePromise } = _useCancellableServiceRequest(
+                options
+            );
+            const cache = useQueryCache();
+            const optimisticUpdate = useRef(hookOptions?.optimisticUpdate);
+            optimisticUpdate.current = hookOptions?.optimisticUpdate;
+
+            const servicePatch = serviceFactory.patch<TRecord, any>(
+                recordType,
+                resourceEndpoint,
+                options
+            );
+
+            function patch(
+                record: TRecord | Partial<TRecord>,
+                original?: TRecord,
+                pathParams?: TPathParams,
+                config?: ServiceRequestConfig
+            ): Promise<ServiceResponse<TRecord>> {
+                const rollback = optimisticUpdate.current?.(
+                    record,
+                    original,
+                    pathParams
+                );
+
+                const cancelTokenSource = axios.CancelToken.source();
+                const request = _invalidateQueries(
+                    cache,
+                    client,
+                    servicePatch(
+                        record,
+                        original,
+                        pathParams,
+                        _withCancelToken(cancelTokenSource, config)
+                    ),
+                    options
+                );
+
+                return cancellablePromise(
+                    _rollbackOnError(request, rollback),
+                    cancelTokenSource
+                ) as Promise<ServiceResponse<TRecord>>;
+            }
+
+            return {
+                patch: useCallback(patch, []) as PatchService<
+                    TRecord,
+                    TPathParams
+                >,
+            };
+        };
+    },
+
+    /**
+     * Creates a hook returning every conventional service function for the supplied resource
+     * type at once. Automatically handles cancellation tokens internally.
+     * @param recordType
+     * @param definition
+     * @param options
+     */
+    useResource: ((
+        recordType: { new (): any },
+        definition: ResourceDefinition,
+        options?: QueryServiceHookOptions & MutationServiceHookOptions
+    ): ResourceServiceHook<any> | NestedResourceServiceHook<any> =>
+        _buildResourceHook(
+            _buildServiceHookFactory(serviceFactory, client),
+            recordType,
+            definition,
+            options
+        )) as ResourceServiceHookBuilder,
+
     /**
      * Creates conventional hook for using service update function for the supplied resource type.
      * Automatically handles cancellation tokens internally.
+     * Locally held records can be updated before the request completes by supplying an
+     * `optimisticUpdate` when calling the hook.
      * @param recordType
      * @param baseEndpoint
+     * @param options
      */
     useUpdate<TRecord, TPathParams>(
         recordType: { new (): TRecord },
-        resourceEndpoint: string
+        resourceEndpoint: string,
+        options?: MutationServiceHookOptions
     ): UpdateServiceHook<TRecord, TPathParams> {
-        return () => {
-            const { cancellablePromise } = useCancellablePromise();
+        return (
+            hookOptions?: OptimisticUpdateOptions<[TRecord, TPathParams?]>
+        ) => {
+            const { cancellablePromise } = _useCancellableServiceRequest(
+                options
+            );
+            const cache = useQueryCache();
+            const optimisticUpdate = useRef(hookOptions?.optimisticUpdate);
+            optimisticUpdate.current = hookOptions?.optimisticUpdate;
 
-            const serviceUpdate = ServiceFactory.update(
+            const serviceUpdate = serviceFactory.update<TRecord, any>(
                 recordType,
-                resourceEndpoint
+                resourceEndpoint,
+                options
             );
 
             function update(
                 record: TRecord,
-                pathParams?: TPathParams
+                pathParams?: TPathParams,
+                config?: ServiceRequestConfig
             ): Promise<ServiceResponse<TRecord>> {
+                const rollback = optimisticUpdate.current?.(record, pathParams);
+
+                const cancelTokenSource = axios.CancelToken.source();
+                const request = _invalidateQueries(
+                    cache,
+                    client,
+                    serviceUpdate(
+                        record,
+                        pathParams,
+                        _withCancelToken(cancelTokenSource, config)
+                    ),
+                    options
+                );
+
                 return cancellablePromise(
-                    serviceUpdate(record, pathParams)
+                    _rollbackOnError(request, rollback),
+                    cancelTokenSource
                 ) as Promise<ServiceResponse<TRecord>>;
             }
 
-            return { update: useCallback(update, []) };
+            return {
+                update: useCallback(update, []) as UpdateService<
+                    TRecord,
+                    TPathParams
+                >,
+            };
         };
     },
-};
+
+    /**
+     * Creates hook for uploading a file along with the fields of the supplied resource type.
+     * Tracks the upload's progress and automatically handles cancellation tokens internally.
+     * @param recordType
+     * @param resourceEndpoint
+     * @param options
+     */
+    useUpload<TRecord extends any, TPathParams = any>(
+        recordType: { new (): TRecord },
+        resourceEndpoint: string,
+        options?: UploadServiceHookOptions
+    ): UploadServiceHook<TRecord, TPathParams> {
+        return () => {
+            const {
+                cancelAll,
+                cancellablePromise,
+            } = _useCancellableServiceRequest(options);
+            const cache = useQueryCache();
+            const [progress, setProgress] = useState<UploadProgress>();
+
+            const serviceUpload = serviceFactory.upload<TRecord, TPathParams>(
+                recordType,
+                resourceEndpoint,
+                options
+            );
+
+            function upload(
+                file: Blob,
+                record?: TRecord,
+                pathParams?: TPathParams,
+                config?: UploadRequestConfig
+            ): Promise<ServiceResponse<TRecord>> {
+                const cancelTokenSource = axios.CancelToken.source();
+                const onUploadProgress = (uploadProgress: UploadProgress) => {
+                    setProgress(uploadProgress);
+                    config?.onUploadProgress?.(uploadProgress);
+                };
+
+                setProgress(undefined);
+
+                return cancellablePromise(
+                    _invalidateQueries(
+                        cache,
+                        client,
+                        serviceUpload(file, record, pathParams, {
+                            ..._withCancelToken(cancelTokenSource, config),
+                            onUploadProgress,
+                        }),
+                        options
+                    ),
+                    cancelTokenSource
+                ) as Promise<ServiceResponse<TRecord>>;
+            }
+
+            return {
+                cancel: cancelAll,
+                progress,
+                upload: useCallback(upload, []),
+            };
+        };
+    },
+
+    /**
+     * Creates a new hook factory whose hooks make requests through the supplied client
+     * instead of the global `axios` instance
+     * @param client
+     */
+    withClient(client: AxiosInstance): ScopedServiceHookFactory {
+        return _buildServiceHookFactory(
+            serviceFactory.withClient(client),
+            client
+        );
+    },
+
+    /**
+     * Creates a new hook factory whose hooks run the supplied middleware, in addition to any
+     * middleware already registered on the underlying service factory
+     * @param middleware
+     */
+    withMiddleware(
+        ...middleware: Array<ServiceMiddleware>
+    ): ScopedServiceHookFactory {
+        return _buildServiceHookFactory(
+            serviceFactory.withMiddleware(...middleware),
+            client
+        );
+    },
+
+    /**
+     * Creates a new hook factory whose hooks add mutations made while offline to the supplied
+     * queue, to be replayed once back online
+     * @param offlineQueue
+     */
+    withOfflineQueue(offlineQueue: OfflineQueue): ScopedServiceHookFactory {
+        return _buildServiceHookFactory(
+            serviceFactory.withOfflineQueue(offlineQueue),
+            client
+        );
+    },
+});
+
+/**
+ * Factory to encapsulate common service function logic
+ */
+const ServiceHookFactory = _buildServiceHookFactory(ServiceFactory);
 
 // #endregion Functions
 
+// ---------------------------------------------------------------------------------------------
+// #region Private Functions
+// ---------------------------------------------------------------------------------------------
+
+/**
+ * Builds a hook which calls every conventional service hook for the resource definition
+ */
+const _buildResourceHook = (
+    hookFactory: ScopedServiceHookFactory,
+    recordType: { new (): any },
+    definition: ResourceDefinition,
+    options?: QueryServiceHookOptions & MutationServiceHookOptions
+): ResourceServiceHook<any> | NestedResourceServiceHook<any> => {
+    const { baseEndpoint, nested, resourceEndpoint } = definition;
+
+    const useBulkUpdate = hookFactory.useBulkUpdate(
+        recordType,
+        baseEndpoint,
+        options
+    );
+    const useCreate = nested
+        ? hookFactory.useNestedCreate(recordType, baseEndpoint, options)
+        : hookFactory.useCreate(recordType, baseEndpoint, options);
+    const useDelete = hookFactory.useDelete(resourceEndpoint, options);
+    const useGet = hookFactory.useGet(recordType, resourceEndpoint, options);
+    const useList = nested
+        ? hookFactory.useNestedList(recordType, baseEndpoint, options)
+        : hookFactory.useList(recordType, baseEndpoint, options);
+    const usePatch = hookFactory.usePatch(
+        recordType,
+        resourceEndpoint,
+        options
+    );
+    const useUpdate = hookFactory.useUpdate(
+        recordType,
+        resourceEndpoint,
+        options
+    );
+
+    return () => ({
+        bulkUpdate: useBulkUpdate().update,
+        create: useCreate().create,
+        delete: useDelete().delete,
+        get: useGet().get,
+        list: useList().list,
+        patch: usePatch().patch,
+        update: useUpdate().update,
+    });
+};
+
+/**
+ * Resolves the query cache options for a hook, or `undefined` when caching is disabled
+ */
+const _getCacheOptions = (
+    options?: QueryServiceHookOptions
+): QueryCacheOptions | undefined => {
+    if (options?.cache == null || options.cache === false) {
+        return undefined;
+    }
+
+    return options.cache === true ? {} : options.cache;
+};
+
+/**
+ * Invalidates the cached queries declared by the mutation hook options once the request succeeds
+ */
+const _invalidateQueries = <T>(
+    cache: QueryCache,
+    client: AxiosInstance | undefined,
+    request: Promise<T>,
+    options?: MutationServiceHookOptions
+): Promise<T> =>
+    request.then((result: T) => {
+        options?.invalidates?.forEach((pattern: string) =>
+            cache.invalidate(_toCacheKey(client, pattern))
+        );
+        return result;
+    });
+
+/**
+ * Calls the optimistic update's rollback, if any, when the request fails or its result
+ * contains errors. Cancelled requests (ie. aborted on unmount) are rolled back as well, since
+ * the change may never have reached the server.
+ */
+const _rollbackOnError = <T extends ServiceResponse<any>>(
+    request: Promise<T>,
+    rollback?: (() => void) | void
+): Promise<T> => {
+    if (rollback == null) {
+        return request;
+    }
+
+    return request.then(
+        (response: T) => {
+            if (
+                response?.result?.hasErrors() ||
+                response?.results?.hasErrors()
+            ) {
+                rollback();
+            }
+
+            return response;
+        },
+        (error: any) => {
+            rollback();
+            throw error;
+        }
+    );
+};
+
+/**
+ * Prefixes the url with the base url of the client, if any, so hook factories bound to
+ * different APIs through `withClient` don't share cache entries
+ */
+const _toCacheKey = (
+    client: AxiosInstance | undefined,
+    url: string
+): string => {
+    const baseURL = client?.defaults?.baseURL;
+
+    if (baseURL == null || baseURL === "") {
+        return url;
+    }
+
+    return `${baseURL.replace(/\/+$/, "")}/${url.replace(/^\/+/, "")}`;
+};
+
+/**
+ * Tracks cancellable requests like `useCancellablePromise`, rejecting cancelled requests with an
+ * `axios.Cancel` and passing any other failure to the nearest `ServiceErrorProvider` (unless
+ * `handleErrors` says otherwise) before the returned promise rejects
+ */
+const _useCancellableServiceRequest = (options?: ServiceHookOptions) => {
+    const { cancelAll, cancellablePromise } = useCancellablePromise(true);
+    const handleServiceError = useServiceErrorHandler();
+
+    const cancellableServiceRequest = <T>(
+        promise: Promise<T>,
+        cancelTokenSource?: CancelTokenSource
+    ): Promise<T> =>
+        cancellablePromise(promise, cancelTokenSource).catch((error: any) => {
+            const { handleErrors = true } = options ?? {};
+            const shouldHandle =
+                typeof handleErrors === "function"
+                    ? handleErrors(error)
+                    : handleErrors;
+
+            if (shouldHandle) {
+                handleServiceError(error);
+            } else {
+                ignoreServiceError(error);
+            }
+
+            throw error;
+        });
+
+    return { cancelAll, cancellablePromise: cancellableServiceRequest };
+};
+
+/**
+ * Tracks the cache keys requested by a hook instance and increments `version` whenever one
+ * of them is revalidated with a new value, so dependent callbacks are recreated
+ */
+const _useQueryCacheSubscription = (enabled: boolean) => {
+    const cache = useQueryCache();
+    const keys = useRef(new Set<string>());
+    const [version, setVersion] = useState(0);
+
+    useEffect(() => {
+        if (!enabled) {
+            return;
+        }
+
+        return cache.subscribe((key: string) => {
+            if (keys.current.has(key)) {
+                setVersion((previous: number) => previous + 1);
+            }
+        });
+    }, [cache, enabled]);
+
+    return { cache, keys: keys.current, version };
+};
+
+/**
+ * Merges the supplied cancel token into the request configuration, unless the caller
+ * provided their own
+ */
+const _withCancelToken = (
+    cancelTokenSource: CancelTokenSource,
+    config?: ServiceRequestConfig
+): ServiceRequestConfig => ({
+    ...config,
+    cancelToken: config?.cancelToken ?? cancelTokenSource.token,
+});
+
+// #endregion Private Functions
+
 // ---------------------------------------------------------------------------------------------
 // #region Exports
 // ---------------------------------------------------------------------------------------------
 
-export { ServiceHookFactory };
+export { ScopedServiceHookFactory, ServiceHookFactory };
 
 // #endregion Exports
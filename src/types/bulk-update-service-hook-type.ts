@@ -1,8 +1,11 @@
+import { OptimisticUpdateOptions } from "../interfaces/optimistic-update-options";
 import { BulkUpdateService } from "./bulk-update-service-type";
 
 /**
  * Type defining the return object from calling `useBulkUpdate()`
  */
-export type BulkUpdateServiceHook<TRecord, TPathParams> = () => {
+export type BulkUpdateServiceHook<TRecord, TPathParams> = (
+    options?: OptimisticUpdateOptions<[TRecord[], TPathParams]>
+) => {
     update: BulkUpdateService<TRecord, TPathParams>;
 };
@@ -1,12 +1,15 @@
 import { ServiceResponse } from "andculturecode-javascript-core";
+import { ServiceRequestConfig } from "../interfaces/service-request-config";
 
 /**
  * Type defining the service function for bulk updating the supplied resource type
  *
  * @param records Records to be updated
  * @param pathParams Object with path parameters to be replaced in the endpoint route
+ * @param config Optional request configuration (ie. cancel token)
  */
 export type BulkUpdateService<TRecord, TPathParams> = (
     records: TRecord[],
-    pathParams: TPathParams
+    pathParams: TPathParams,
+    config?: ServiceRequestConfig
 ) => Promise<ServiceResponse<TRecord>>;
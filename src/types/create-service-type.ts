@@ -1,10 +1,13 @@
 import { ServiceResponse } from "andculturecode-javascript-core";
+import { ServiceRequestConfig } from "../interfaces/service-request-config";
 
 /**
  * Type defining the service function for creating the supplied resource type
  *
  * @param record Record to be created
+ * @param config Optional request configuration (ie. cancel token)
  */
 export type CreateService<TRecord> = (
-    record?: TRecord
+    record?: TRecord,
+    config?: ServiceRequestConfig
 ) => Promise<ServiceResponse<TRecord>>;
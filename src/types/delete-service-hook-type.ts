@@ -1,8 +1,15 @@
+import { OptimisticUpdateOptions } from "../interfaces/optimistic-update-options";
 import { DeleteService } from "./delete-service-type";
+import { RecordIdentifier } from "./record-identifier-type";
 
 /**
  * Type defining the return object from calling `useDelete()`
  */
-export type DeleteServiceHook = () => {
-    delete: DeleteService;
+export type DeleteServiceHook<
+    TId extends RecordIdentifier = number,
+    TPathParams = any
+> = (
+    options?: OptimisticUpdateOptions<[TId, TPathParams?]>
+) => {
+    delete: DeleteService<TId, TPathParams>;
 };
@@ -1,12 +1,27 @@
 import { ServiceResponse } from "andculturecode-javascript-core";
+import { ServiceRequestConfig } from "../interfaces/service-request-config";
+import { RecordIdentifier } from "./record-identifier-type";
 
 /**
- * Type defining the service function for deleting the supplied resource
+ * Type defining the service function for deleting the supplied resource. `pathParams` is
+ * required when `TPathParams` is supplied and does not allow `undefined`.
  *
- * @param id Id of the record to be deleted
- * @param pathParams Object with path parameters to be replaced in the endpoint route
+ * @param id Identifier of the record to be deleted
+ * @param pathParams Object with path parameters to be replaced in the endpoint route, other
+ * than the id
+ * @param config Optional request configuration (ie. cancel token)
  */
-export type DeleteService = (
-    id: number,
-    pathParams?: any
-) => Promise<ServiceResponse<Boolean>>;
+export type DeleteService<
+    TId extends RecordIdentifier = number,
+    TPathParams = any
+> = undefined extends TPathParams
+    ? (
+          id: TId,
+          pathParams?: TPathParams,
+          config?: ServiceRequestConfig
+      ) => Promise<ServiceResponse<Boolean>>
+    : (
+          id: TId,
+          pathParams: TPathParams,
+          config?: ServiceRequestConfig
+      ) => Promise<ServiceResponse<Boolean>>;
@@ -0,0 +1,11 @@
+import { DownloadProgress } from "../interfaces/download-progress";
+import { DownloadService } from "./download-service-type";
+
+/**
+ * Type defining the return object from calling `useDownload()`
+ */
+export type DownloadServiceHook<TPathParams = any, TQueryParams = any> = () => {
+    cancel: () => void;
+    download: DownloadService<TPathParams, TQueryParams>;
+    progress?: DownloadProgress;
+};
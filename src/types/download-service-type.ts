@@ -0,0 +1,15 @@
+import { DownloadRequestConfig } from "../interfaces/download-request-config";
+import { DownloadResponse } from "../interfaces/download-response";
+
+/**
+ * Type defining the service function for downloading a file
+ *
+ * @param pathParams Optional object with path parameters to be replaced in the endpoint route
+ * @param queryParams Optional object with query parameters to be appended to the url
+ * @param config Optional request configuration (ie. cancel token, progress callback)
+ */
+export type DownloadService<TPathParams = any, TQueryParams = any> = (
+    pathParams?: TPathParams,
+    queryParams?: TQueryParams,
+    config?: DownloadRequestConfig
+) => Promise<DownloadResponse>;
@@ -0,0 +1,10 @@
+import { ErrorInfo } from "react";
+
+/**
+ * Type defining a function which reports errors caught by an `ErrorBoundary` (ie. to the
+ * console or a logging service)
+ *
+ * @param error Error which was thrown or rejected
+ * @param errorInfo Component stack, when the error was thrown while rendering
+ */
+export type ErrorReporter = (error: any, errorInfo?: ErrorInfo) => void;
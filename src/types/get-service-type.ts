@@ -1,12 +1,15 @@
 import { ServiceResponse } from "andculturecode-javascript-core";
+import { ServiceRequestConfig } from "../interfaces/service-request-config";
 
 /**
  * Type defining the service function for getting the supplied resource type
  *
  * @param pathParams Object with path parameters to be replaced in the endpoint route
  * @param queryParams Object with query parameters to be appended to the endpoint route
+ * @param config Optional request configuration (ie. cancel token)
  */
 export type GetService<TRecord, TPathParams, TQueryParams = undefined> = (
     pathParams: TPathParams,
-    queryParams?: TQueryParams
+    queryParams?: TQueryParams,
+    config?: ServiceRequestConfig
 ) => Promise<ServiceResponse<TRecord>>;
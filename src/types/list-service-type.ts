@@ -1,10 +1,13 @@
 import { ServiceResponse } from "andculturecode-javascript-core";
+import { ServiceRequestConfig } from "../interfaces/service-request-config";
 
 /**
  * Type defining the service function for listing resources by supplied type
  *
  * @param queryParams Object with query parameters to be appended to the endpoint route
+ * @param config Optional request configuration (ie. cancel token)
  */
 export type ListService<TRecord, TQueryParams> = (
-    queryParams?: TQueryParams
+    queryParams?: TQueryParams,
+    config?: ServiceRequestConfig
 ) => Promise<ServiceResponse<TRecord>>;
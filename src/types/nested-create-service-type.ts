@@ -1,12 +1,15 @@
 import { ServiceResponse } from "andculturecode-javascript-core";
+import { ServiceRequestConfig } from "../interfaces/service-request-config";
 
 /**
  * Type defining the service function for creating the supplied resource type when resource is nested
  *
  * @param record Record to be created
  * @param pathParams Object with path parameters to be replaced in the endpoint route
+ * @param config Optional request configuration (ie. cancel token)
  */
 export type NestedCreateService<TRecord, TPathParams> = (
     record: TRecord,
-    pathParams: TPathParams
+    pathParams: TPathParams,
+    config?: ServiceRequestConfig
 ) => Promise<ServiceResponse<TRecord>>;
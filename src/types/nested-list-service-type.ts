@@ -1,12 +1,15 @@
 import { ServiceResponse } from "andculturecode-javascript-core";
+import { ServiceRequestConfig } from "../interfaces/service-request-config";
 
 /**
  * Type defining the service function for listing resources by supplied type when resource is nested
  *
  * @param pathParams Object with path parameters to be replaced in the endpoint route
  * @param queryParams Object with query parameters to be appended to the endpoint route
+ * @param config Optional request configuration (ie. cancel token)
  */
 export type NestedListService<TRecord, TPathParams, TQueryParams> = (
     pathParams: TPathParams,
-    queryParams?: TQueryParams
+    queryParams?: TQueryParams,
+    config?: ServiceRequestConfig
 ) => Promise<ServiceResponse<TRecord>>;
@@ -0,0 +1,19 @@
+import { NestedResourceService } from "./nested-resource-service-type";
+import { RecordIdentifier } from "./record-identifier-type";
+
+/**
+ * Type defining the return object from calling `useResource()` when the resource is nested
+ */
+export type NestedResourceServiceHook<
+    TRecord,
+    TPathParams = any,
+    TNestedPathParams = any,
+    TQueryParams = any,
+    TId extends RecordIdentifier = number
+> = () => NestedResourceService<
+    TRecord,
+    TPathParams,
+    TNestedPathParams,
+    TQueryParams,
+    TId
+>;
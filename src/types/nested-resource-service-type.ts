@@ -0,0 +1,31 @@
+import { BulkUpdateService } from "./bulk-update-service-type";
+import { DeleteService } from "./delete-service-type";
+import { GetService } from "./get-service-type";
+import { NestedCreateService } from "./nested-create-service-type";
+import { NestedListService } from "./nested-list-service-type";
+import { PatchService } from "./patch-service-type";
+import { RecordIdentifier } from "./record-identifier-type";
+import { UpdateService } from "./update-service-type";
+
+/**
+ * Type defining every service function generated by `ServiceFactory.resource()` when the
+ * resource is nested
+ *
+ * @param TPathParams Path parameters of the resource endpoint
+ * @param TNestedPathParams Path parameters of the base endpoint
+ */
+export type NestedResourceService<
+    TRecord,
+    TPathParams = any,
+    TNestedPathParams = any,
+    TQueryParams = any,
+    TId extends RecordIdentifier = number
+> = {
+    bulkUpdate: BulkUpdateService<TRecord, TNestedPathParams>;
+    create: NestedCreateService<TRecord, TNestedPathParams>;
+    delete: DeleteService<TId, TPathParams>;
+    get: GetService<TRecord, TPathParams, TQueryParams>;
+    list: NestedListService<TRecord, TNestedPathParams, TQueryParams>;
+    patch: PatchService<TRecord, TPathParams>;
+    update: UpdateService<TRecord, TPathParams>;
+};
@@ -0,0 +1,11 @@
+/**
+ * Type defining a callback which immediately applies the changes of a mutation to locally held
+ * records, before the request completes
+ *
+ * @param params Arguments supplied to the mutation service function
+ * @returns Optional function restoring the previous snapshot of the records, called when the
+ * request fails or its result contains errors
+ */
+export type OptimisticUpdate<TParams extends any[]> = (
+    ...params: TParams
+) => (() => void) | void;
@@ -0,0 +1,13 @@
+import { OptimisticUpdateOptions } from "../interfaces/optimistic-update-options";
+import { PatchService } from "./patch-service-type";
+
+/**
+ * Type defining the return object from calling `usePatch()`
+ */
+export type PatchServiceHook<TRecord, TPathParams> = (
+    options?: OptimisticUpdateOptions<
+        [TRecord | Partial<TRecord>, TRecord?, TPathParams?]
+    >
+) => {
+    patch: PatchService<TRecord, TPathParams>;
+};
@@ -0,0 +1,27 @@
+import { ServiceResponse } from "andculturecode-javascript-core";
+import { ServiceRequestConfig } from "../interfaces/service-request-config";
+
+/**
+ * Type defining the service function for partially updating the supplied resource type.
+ * `pathParams` is required when `TPathParams` is supplied and does not allow `undefined`.
+ *
+ * @param record Updated record, or an explicit partial of the changed properties
+ * @param original Record before any changes were made. When supplied, only the properties
+ * which differ from it are sent
+ * @param pathParams Object with path parameters to be replaced in the endpoint route, other
+ * than the record's id
+ * @param config Optional request configuration (ie. cancel token)
+ */
+export type PatchService<TRecord, TPathParams> = undefined extends TPathParams
+    ? (
+          record: TRecord | Partial<TRecord>,
+          original?: TRecord,
+          pathParams?: TPathParams,
+          config?: ServiceRequestConfig
+      ) => Promise<ServiceResponse<TRecord>>
+    : (
+          record: TRecord | Partial<TRecord>,
+          original: TRecord | undefined,
+          pathParams: TPathParams,
+          config?: ServiceRequestConfig
+      ) => Promise<ServiceResponse<TRecord>>;
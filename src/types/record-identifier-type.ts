@@ -0,0 +1,4 @@
+/**
+ * Type defining the identifier of a record, such as a numeric id, GUID or slug
+ */
+export type RecordIdentifier = number | string;
@@ -0,0 +1,12 @@
+import { RecordIdentifier } from "./record-identifier-type";
+import { ResourceService } from "./resource-service-type";
+
+/**
+ * Type defining the return object from calling `useResource()`
+ */
+export type ResourceServiceHook<
+    TRecord,
+    TPathParams = any,
+    TQueryParams = any,
+    TId extends RecordIdentifier = number
+> = () => ResourceService<TRecord, TPathParams, TQueryParams, TId>;
@@ -0,0 +1,26 @@
+import { BulkUpdateService } from "./bulk-update-service-type";
+import { CreateService } from "./create-service-type";
+import { DeleteService } from "./delete-service-type";
+import { GetService } from "./get-service-type";
+import { ListService } from "./list-service-type";
+import { PatchService } from "./patch-service-type";
+import { RecordIdentifier } from "./record-identifier-type";
+import { UpdateService } from "./update-service-type";
+
+/**
+ * Type defining every service function generated by `ServiceFactory.resource()`
+ */
+export type ResourceService<
+    TRecord,
+    TPathParams = any,
+    TQueryParams = any,
+    TId extends RecordIdentifier = number
+> = {
+    bulkUpdate: BulkUpdateService<TRecord, TPathParams>;
+    create: CreateService<TRecord>;
+    delete: DeleteService<TId, TPathParams>;
+    get: GetService<TRecord, TPathParams, TQueryParams>;
+    list: ListService<TRecord, TQueryParams>;
+    patch: PatchService<TRecord, TPathParams>;
+    update: UpdateService<TRecord, TPathParams>;
+};
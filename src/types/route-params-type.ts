@@ -0,0 +1,13 @@
+import { RecordIdentifier } from "./record-identifier-type";
+
+/**
+ * Type defining the path parameters of an endpoint route from the names of its parameters,
+ * so a missing parameter is a compile error. Update, patch and delete fill the `id` from the
+ * record or argument, so it is left out of their parameters
+ *
+ * @example
+ * // users/:userId/posts/:id
+ * ServiceFactory.get<PostRecord, RouteParams<"userId" | "id">>(PostRecord, endpoint);
+ * ServiceFactory.update<PostRecord, RouteParams<"userId">>(PostRecord, endpoint);
+ */
+export type RouteParams<TKeys extends string> = Record<TKeys, RecordIdentifier>;
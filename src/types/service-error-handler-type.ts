@@ -0,0 +1,6 @@
+/**
+ * Type defining a function which handles an error from a service request
+ *
+ * @param error Error the request failed with (ie. an `AxiosError`)
+ */
+export type ServiceErrorHandler = (error: any) => void;
@@ -1,8 +1,11 @@
+import { OptimisticUpdateOptions } from "../interfaces/optimistic-update-options";
 import { UpdateService } from "./update-service-type";
 
 /**
  * Type defining the return object from calling `useUpdate()`
  */
-export type UpdateServiceHook<TRecord, TPathParams> = () => {
+export type UpdateServiceHook<TRecord, TPathParams> = (
+    options?: OptimisticUpdateOptions<[TRecord, TPathParams?]>
+) => {
     update: UpdateService<TRecord, TPathParams>;
 };
@@ -1,12 +1,23 @@
 import { ServiceResponse } from "andculturecode-javascript-core";
+import { ServiceRequestConfig } from "../interfaces/service-request-config";
 
 /**
- * Type defining the service function for updating the supplied resource type
+ * Type defining the service function for updating the supplied resource type. `pathParams` is
+ * required when `TPathParams` is supplied and does not allow `undefined`.
  *
  * @param record Record to be created
- * @param pathParams Object with path parameters to be replaced in the endpoint route
+ * @param pathParams Object with path parameters to be replaced in the endpoint route, other
+ * than the record's id
+ * @param config Optional request configuration (ie. cancel token)
  */
-export type UpdateService<TRecord, TPathParams> = (
-    record: TRecord,
-    pathParams?: TPathParams
-) => Promise<ServiceResponse<TRecord>>;
+export type UpdateService<TRecord, TPathParams> = undefined extends TPathParams
+    ? (
+          record: TRecord,
+          pathParams?: TPathParams,
+          config?: ServiceRequestConfig
+      ) => Promise<ServiceResponse<TRecord>>
+    : (
+          record: TRecord,
+          pathParams: TPathParams,
+          config?: ServiceRequestConfig
+      ) => Promise<ServiceResponse<TRecord>>;
@@ -0,0 +1,11 @@
+import { UploadProgress } from "../interfaces/upload-progress";
+import { UploadService } from "./upload-service-type";
+
+/**
+ * Type defining the return object from calling `useUpload()`
+ */
+export type UploadServiceHook<TRecord, TPathParams = any> = () => {
+    cancel: () => void;
+    progress?: UploadProgress;
+    upload: UploadService<TRecord, TPathParams>;
+};
@@ -0,0 +1,18 @@
+import { ServiceResponse } from "andculturecode-javascript-core";
+import { UploadRequestConfig } from "../interfaces/upload-request-config";
+
+/**
+ * Type defining the service function for uploading a file, along with the fields of the
+ * supplied resource type, as multipart form data
+ *
+ * @param file File to be uploaded
+ * @param record Optional record whose fields are sent alongside the file
+ * @param pathParams Optional object with path parameters to be replaced in the endpoint route
+ * @param config Optional request configuration (ie. cancel token, progress callback)
+ */
+export type UploadService<TRecord, TPathParams = any> = (
+    file: Blob,
+    record?: TRecord,
+    pathParams?: TPathParams,
+    config?: UploadRequestConfig
+) => Promise<ServiceResponse<TRecord>>;
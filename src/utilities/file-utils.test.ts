@@ -0,0 +1,132 @@
+import { FileUtils } from "./file-utils";
+
+describe("FileUtils", () => {
+    // -----------------------------------------------------------------------------------------
+    // #region getFileName
+    // -----------------------------------------------------------------------------------------
+
+    describe("getFileName", () => {
+        test("when content disposition is undefined, returns undefined", () => {
+            // Arrange & Act
+            const result = FileUtils.getFileName(undefined);
+
+            // Assert
+            expect(result).toBeUndefined();
+        });
+
+        test("when content disposition has no file name, returns undefined", () => {
+            // Arrange & Act
+            const result = FileUtils.getFileName("inline");
+
+            // Assert
+            expect(result).toBeUndefined();
+        });
+
+        test.each([
+            ['attachment; filename="report.csv"', "report.csv"],
+            ["attachment; filename=report.csv", "report.csv"],
+            [
+                'attachment; filename="monthly \\"final\\".pdf"',
+                'monthly "final".pdf',
+            ],
+            ["attachment; filename=report.csv; size=100", "report.csv"],
+        ])("given %p, returns %p", (contentDisposition, expected) => {
+            // Arrange & Act
+            const result = FileUtils.getFileName(contentDisposition);
+
+            // Assert
+            expect(result).toEqual(expected);
+        });
+
+        test("when encoded file name is supplied, returns it over plain file name", () => {
+            // Arrange
+            const contentDisposition =
+                "attachment; filename=\"report.csv\"; filename*=UTF-8''r%C3%A9sum%C3%A9.csv";
+
+            // Act
+            const result = FileUtils.getFileName(contentDisposition);
+
+            // Assert
+            expect(result).toEqual("résumé.csv");
+        });
+
+        test("when encoded file name is malformed, returns plain file name", () => {
+            // Arrange
+            const contentDisposition =
+                "attachment; filename*=UTF-8''%E0%A4%A.csv; filename=\"report.csv\"";
+
+            // Act
+            const result = FileUtils.getFileName(contentDisposition);
+
+            // Assert
+            expect(result).toEqual("report.csv");
+        });
+    });
+
+    // #endregion getFileName
+
+    // -----------------------------------------------------------------------------------------
+    // #region save
+    // -----------------------------------------------------------------------------------------
+
+    describe("save", () => {
+        const createObjectURL = URL.createObjectURL;
+        const revokeObjectURL = URL.revokeObjectURL;
+
+        beforeEach(() => {
+            jest.useFakeTimers();
+            URL.createObjectURL = jest.fn(() => "blob:url");
+            URL.revokeObjectURL = jest.fn();
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+            URL.createObjectURL = createObjectURL;
+            URL.revokeObjectURL = revokeObjectURL;
+        });
+
+        test("clicks link to the file with the supplied file name, then revokes its url", () => {
+            // Arrange
+            const blob = new Blob(["contents"]);
+            let clicked: HTMLAnchorElement | undefined;
+            const clickSpy = jest
+                .spyOn(HTMLAnchorElement.prototype, "click")
+                .mockImplementation(function(this: HTMLAnchorElement) {
+                    clicked = this;
+                });
+
+            // Act
+            FileUtils.save(blob, "report.csv");
+            jest.runAllTimers();
+
+            // Assert
+            expect(URL.createObjectURL).toHaveBeenCalledWith(blob);
+            expect(clicked!.download).toEqual("report.csv");
+            expect(clicked!.href).toEqual("blob:url");
+            expect(document.body.contains(clicked!)).toBeFalse();
+            expect(URL.revokeObjectURL).toHaveBeenCalledWith("blob:url");
+
+            clickSpy.mockRestore();
+        });
+
+        test("when file name is not supplied, saves as download", () => {
+            // Arrange
+            let clicked: HTMLAnchorElement | undefined;
+            const clickSpy = jest
+                .spyOn(HTMLAnchorElement.prototype, "click")
+                .mockImplementation(function(this: HTMLAnchorElement) {
+                    clicked = this;
+                });
+
+            // Act
+            FileUtils.save(new Blob(["contents"]));
+
+            // Assert
+            expect(clicked!.download).toEqual("download");
+
+            clickSpy.mockRestore();
+        });
+    });
+
+    // #endregion save
+});
@@ -0,0 +1,99 @@
+// -----------------------------------------------------------------------------------------
+// #region Constants
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Name a file is saved as when none is supplied
+ */
+const DEFAULT_FILE_NAME = "download";
+
+// #endregion Constants
+
+// -----------------------------------------------------------------------------------------
+// #region Public Methods
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Reads the file name from a `Content-Disposition` header, preferring the RFC 5987 encoded
+ * `filename*` parameter over `filename`
+ * @param contentDisposition Value of the header (ie. `attachment; filename="report.csv"`)
+ */
+const getFileName = (contentDisposition?: string): string | undefined => {
+    if (contentDisposition == null) {
+        return undefined;
+    }
+
+    const encoded = /filename\*\s*=\s*([^']*)'[^']*'([^;]+)/i.exec(
+        contentDisposition
+    );
+    if (encoded != null) {
+        try {
+            return decodeURIComponent(_unquote(encoded[2]));
+        } catch {
+            // Fall through to the plain file name when the encoding is malformed
+        }
+    }
+
+    const plain = /filename\s*=\s*("(?:\\.|[^"])*"|[^;]+)/i.exec(
+        contentDisposition
+    );
+    if (plain == null) {
+        return undefined;
+    }
+
+    return _unquote(plain[1]);
+};
+
+/**
+ * Prompts the browser to save the supplied file
+ * @param blob Contents of the file
+ * @param fileName Name to save the file as. Defaults to `download`.
+ */
+const save = (blob: Blob, fileName: string = DEFAULT_FILE_NAME) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+
+    link.href = url;
+    link.download = fileName;
+    link.style.display = "none";
+
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    // Revoked after the click has been handled so the download isn't cancelled
+    window.setTimeout(() => URL.revokeObjectURL(url));
+};
+
+// #endregion Public Methods
+
+// -----------------------------------------------------------------------------------------
+// #region Private Methods
+// -----------------------------------------------------------------------------------------
+
+const _unquote = (value: string) => {
+    const trimmed = value.trim();
+
+    if (
+        trimmed.length < 2 ||
+        !trimmed.startsWith('"') ||
+        !trimmed.endsWith('"')
+    ) {
+        return trimmed;
+    }
+
+    return trimmed.slice(1, -1).replace(/\\(.)/g, "$1");
+};
+
+// #endregion Private Methods
+
+// -----------------------------------------------------------------------------------------
+// #region Exports
+// -----------------------------------------------------------------------------------------
+
+export const FileUtils = {
+    getFileName,
+    save,
+};
+
+// #endregion Exports
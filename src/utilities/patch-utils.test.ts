@@ -0,0 +1,151 @@
+import { PatchUtils } from "./patch-utils";
+
+describe("PatchUtils", () => {
+    const toRecord = (values: any) => ({ toJS: () => values });
+
+    // -----------------------------------------------------------------------------------------
+    // #region toJsonPatch
+    // -----------------------------------------------------------------------------------------
+
+    describe("toJsonPatch", () => {
+        test("when original is not supplied, returns replace operation for every property", () => {
+            // Arrange
+            const updated = { name: "updated", "a/b": 1 };
+
+            // Act
+            const result = PatchUtils.toJsonPatch(updated);
+
+            // Assert
+            expect(result).toEqual([
+                { op: "replace", path: "/name", value: "updated" },
+                { op: "replace", path: "/a~1b", value: 1 },
+            ]);
+        });
+
+        test("when original is supplied, returns operations for changed properties only", () => {
+            // Arrange
+            const original = {
+                address: { city: "Erie", zip: "16501" },
+                id: 1,
+                name: "original",
+                nickname: "orig",
+            };
+            const updated = {
+                address: { city: "Pittsburgh", zip: "16501" },
+                email: "test@example.com",
+                id: 1,
+                name: "updated",
+            };
+
+            // Act
+            const result = PatchUtils.toJsonPatch(
+                toRecord(updated),
+                toRecord(original)
+            );
+
+            // Assert
+            expect(result).toIncludeSameMembers([
+                { op: "replace", path: "/address/city", value: "Pittsburgh" },
+                { op: "add", path: "/email", value: "test@example.com" },
+                { op: "replace", path: "/name", value: "updated" },
+                { op: "remove", path: "/nickname" },
+            ]);
+        });
+
+        test("when supplied immutable records, diffs their plain values", () => {
+            // Act
+            const result = PatchUtils.toJsonPatch(
+                toRecord({ id: 1, name: "updated" }),
+                toRecord({ id: 1, name: "original" })
+            );
+
+            // Assert
+            expect(result).toEqual([
+                { op: "replace", path: "/name", value: "updated" },
+            ]);
+        });
+
+        test("when updated is a partial, ignores properties it does not contain", () => {
+            // Arrange
+            const original = toRecord({
+                address: { city: "Erie", zip: "16501" },
+                email: "a@b.c",
+                id: 1,
+                name: "old",
+            });
+            const updated = { address: { city: "Pittsburgh" }, name: "new" };
+
+            // Act
+            const result = PatchUtils.toJsonPatch(updated, original);
+
+            // Assert
+            expect(result).toIncludeSameMembers([
+                { op: "replace", path: "/address/city", value: "Pittsburgh" },
+                { op: "replace", path: "/name", value: "new" },
+            ]);
+        });
+    });
+
+    // #endregion toJsonPatch
+
+    // -----------------------------------------------------------------------------------------
+    // #region toMergePatch
+    // -----------------------------------------------------------------------------------------
+
+    describe("toMergePatch", () => {
+        test("when original is not supplied, returns updated values", () => {
+            // Arrange
+            const updated = { name: "updated" };
+
+            // Act
+            const result = PatchUtils.toMergePatch(updated);
+
+            // Assert
+            expect(result).toEqual(updated);
+        });
+
+        test("when original is supplied, returns changed properties only", () => {
+            // Arrange
+            const original = {
+                address: { city: "Erie", zip: "16501" },
+                id: 1,
+                name: "original",
+                nickname: "orig",
+                tags: ["a"],
+            };
+            const updated = {
+                address: { city: "Pittsburgh", zip: "16501" },
+                id: 1,
+                name: "updated",
+                tags: ["a", "b"],
+            };
+
+            // Act
+            const result = PatchUtils.toMergePatch(
+                toRecord(updated),
+                toRecord(original)
+            );
+
+            // Assert
+            expect(result).toEqual({
+                address: { city: "Pittsburgh" },
+                name: "updated",
+                nickname: null,
+                tags: ["a", "b"],
+            });
+        });
+
+        test("when updated is a partial, ignores properties it does not contain", () => {
+            // Arrange
+            const original = toRecord({ email: "a@b.c", id: 1, name: "old" });
+
+            // Act
+            const result = PatchUtils.toMergePatch({ name: "new" }, original);
+
+            // Assert
+            expect(result).toEqual({ name: "new" });
+        });
+    });
+
+    // #endregion toMergePatch
+});
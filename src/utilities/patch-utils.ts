@@ -0,0 +1,173 @@
+import { JsonPatchOperation } from "../interfaces/json-patch-operation";
+
+// -----------------------------------------------------------------------------------------
+// #region Public Methods
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Builds a JSON Patch (RFC 6902) document of the changes between the original and updated
+ * records. When no original is supplied, every property of `updated` is replaced. When
+ * `updated` is a partial rather than a record, properties it does not contain are left as-is.
+ * @param updated Updated record, or an explicit partial of the changed properties
+ * @param original Record before any changes were made
+ */
+const toJsonPatch = (
+    updated: any,
+    original?: any
+): Array<JsonPatchOperation> => {
+    const updatedValues = _toPlainObject(updated);
+
+    if (original == null) {
+        return Object.keys(updatedValues).map((key: string) => ({
+            op: "replace",
+            path: `/${_escapePathSegment(key)}`,
+            value: updatedValues[key],
+        }));
+    }
+
+    return _diffJsonPatch(
+        _toPlainObject(original),
+        updatedValues,
+        "",
+        !_isRecord(updated)
+    );
+};
+
+/**
+ * Builds a JSON Merge Patch (RFC 7396) document of the changes between the original and
+ * updated records. When no original is supplied, `updated` is sent as-is. When `updated` is a
+ * partial rather than a record, properties it does not contain are left as-is.
+ * @param updated Updated record, or an explicit partial of the changed properties
+ * @param original Record before any changes were made
+ */
+const toMergePatch = (updated: any, original?: any): any => {
+    const updatedValues = _toPlainObject(updated);
+
+    if (original == null) {
+        return updatedValues;
+    }
+
+    return _diffMergePatch(
+        _toPlainObject(original),
+        updatedValues,
+        !_isRecord(updated)
+    );
+};
+
+// #endregion Public Methods
+
+// -----------------------------------------------------------------------------------------
+// #region Private Methods
+// -----------------------------------------------------------------------------------------
+
+const _diffJsonPatch = (
+    original: any,
+    updated: any,
+    basePath: string,
+    isPartial: boolean
+): Array<JsonPatchOperation> => {
+    const operations: Array<JsonPatchOperation> = [];
+
+    _keysOf(original, updated, isPartial).forEach((key: string) => {
+        const path = `${basePath}/${_escapePathSegment(key)}`;
+        const originalValue = original[key];
+        const updatedValue = updated[key];
+
+        if (_isEqual(originalValue, updatedValue)) {
+            return;
+        }
+
+        if (updatedValue === undefined) {
+            operations.push({ op: "remove", path });
+            return;
+        }
+
+        if (originalValue === undefined) {
+            operations.push({ op: "add", path, value: updatedValue });
+            return;
+        }
+
+        if (_isPlainObject(originalValue) && _isPlainObject(updatedValue)) {
+            operations.push(
+                ..._diffJsonPatch(originalValue, updatedValue, path, isPartial)
+            );
+            return;
+        }
+
+        operations.push({ op: "replace", path, value: updatedValue });
+    });
+
+    return operations;
+};
+
+const _diffMergePatch = (
+    original: any,
+    updated: any,
+    isPartial: boolean
+): any => {
+    const patch: any = {};
+
+    _keysOf(original, updated, isPartial).forEach((key: string) => {
+        const originalValue = original[key];
+        const updatedValue = updated[key];
+
+        if (_isEqual(originalValue, updatedValue)) {
+            return;
+        }
+
+        if (updatedValue === undefined) {
+            patch[key] = null;
+            return;
+        }
+
+        patch[key] =
+            _isPlainObject(originalValue) && _isPlainObject(updatedValue)
+                ? _diffMergePatch(originalValue, updatedValue, isPartial)
+                : updatedValue;
+    });
+
+    return patch;
+};
+
+/**
+ * Escapes a property name for use as a JSON Pointer (RFC 6901) segment
+ */
+const _escapePathSegment = (key: string) =>
+    key.replace(/~/g, "~0").replace(/\//g, "~1");
+
+const _isEqual = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+
+const _isPlainObject = (value: any) =>
+    value != null && typeof value === "object" && !Array.isArray(value);
+
+const _isRecord = (value: any) => typeof value?.toJS === "function";
+
+/**
+ * Returns the keys to diff. A partial only describes the properties it contains, so keys
+ * missing from it are not treated as removed.
+ */
+const _keysOf = (original: any, updated: any, isPartial: boolean) =>
+    isPartial
+        ? Object.keys(updated)
+        : Array.from(
+              new Set([...Object.keys(original), ...Object.keys(updated)])
+          );
+
+/**
+ * Converts immutable records to plain objects, leaving any other value as-is
+ */
+const _toPlainObject = (value: any) =>
+    _isRecord(value) ? value.toJS() : value;
+
+// #endregion Private Methods
+
+// -----------------------------------------------------------------------------------------
+// #region Exports
+// -----------------------------------------------------------------------------------------
+
+export const PatchUtils = {
+    toJsonPatch,
+    toMergePatch,
+};
+
+// #endregion Exports
@@ -0,0 +1,160 @@
+import axios from "axios";
+import { BackoffStrategy } from "../enumerations/backoff-strategy";
+import { RetryUtils } from "./retry-utils";
+
+// -----------------------------------------------------------------------------------------
+// #region Functions
+// -----------------------------------------------------------------------------------------
+
+const buildResponseError = (status: number) => ({
+    isAxiosError: true,
+    response: { status },
+});
+
+// #endregion Functions
+
+describe("RetryUtils", () => {
+    // -----------------------------------------------------------------------------------------
+    // #region getDelay
+    // -----------------------------------------------------------------------------------------
+
+    describe("getDelay", () => {
+        test.each`
+            backoff                         | attempt | expected
+            ${BackoffStrategy.Constant}     | ${3}    | ${100}
+            ${BackoffStrategy.Linear}       | ${3}    | ${300}
+            ${BackoffStrategy.Exponential}  | ${3}    | ${400}
+            ${(attempt: number) => attempt} | ${3}    | ${3}
+        `(
+            "when backoff is $backoff and attempt is $attempt, returns $expected",
+            ({ backoff, attempt, expected }) => {
+                // Arrange
+                const policy = { backoff, baseDelay: 100, jitter: false };
+
+                // Act
+                const result = RetryUtils.getDelay(policy, attempt);
+
+                // Assert
+                expect(result).toBe(expected);
+            }
+        );
+
+        test("when delay exceeds maxDelay, returns maxDelay", () => {
+            // Arrange
+            const policy = { baseDelay: 100, jitter: false, maxDelay: 150 };
+
+            // Act
+            const result = RetryUtils.getDelay(policy, 5);
+
+            // Assert
+            expect(result).toBe(150);
+        });
+
+        test("when jitter is enabled, returns value between half and full delay", () => {
+            // Arrange
+            const policy = {
+                backoff: BackoffStrategy.Constant,
+                baseDelay: 100,
+            };
+
+            // Act
+            const result = RetryUtils.getDelay(policy, 1);
+
+            // Assert
+            expect(result).toBeGreaterThanOrEqual(50);
+            expect(result).toBeLessThanOrEqual(100);
+        });
+    });
+
+    // #endregion getDelay
+
+    // -----------------------------------------------------------------------------------------
+    // #region isRetryable
+    // -----------------------------------------------------------------------------------------
+
+    describe("isRetryable", () => {
+        test("when status code is retryable, returns true", () => {
+            expect(
+                RetryUtils.isRetryable({}, buildResponseError(503))
+            ).toBeTrue();
+        });
+
+        test("when status code is not retryable, returns false", () => {
+            expect(
+                RetryUtils.isRetryable({}, buildResponseError(400))
+            ).toBeFalse();
+        });
+
+        test("when network error and retryOnNetworkError is false, returns false", () => {
+            expect(
+                RetryUtils.isRetryable(
+                    { retryOnNetworkError: false },
+                    { isAxiosError: true }
+                )
+            ).toBeFalse();
+        });
+
+        test("when error is a cancellation, returns false", () => {
+            expect(
+                RetryUtils.isRetryable({}, new axios.Cancel("cancelled"))
+            ).toBeFalse();
+        });
+    });
+
+    // #endregion isRetryable
+
+    // -----------------------------------------------------------------------------------------
+    // #region retry
+    // -----------------------------------------------------------------------------------------
+
+    describe("retry", () => {
+        test("when workload eventually succeeds, resolves with its result", async () => {
+            // Arrange
+            const workload = jest
+                .fn()
+                .mockRejectedValueOnce(buildResponseError(502))
+                .mockResolvedValueOnce("result");
+
+            // Act
+            const result = await RetryUtils.retry(workload, { baseDelay: 0 });
+
+            // Assert
+            expect(result).toBe("result");
+            expect(workload).toHaveBeenCalledTimes(2);
+        });
+
+        test("when attempts are exhausted, rejects with last error", async () => {
+            // Arrange
+            const error = buildResponseError(503);
+            const workload = jest.fn().mockRejectedValue(error);
+
+            // Act & Assert
+            await expect(
+                RetryUtils.retry(workload, { baseDelay: 0, maxAttempts: 2 })
+            ).rejects.toBe(error);
+            expect(workload).toHaveBeenCalledTimes(2);
+        });
+
+        test("when cancelled while waiting, rejects with cancellation and stops retrying", async () => {
+            // Arrange
+            const cancelTokenSource = axios.CancelToken.source();
+            const workload = jest
+                .fn()
+                .mockRejectedValue(buildResponseError(503));
+
+            // Act
+            const result = RetryUtils.retry(
+                workload,
+                { baseDelay: 1000, jitter: false },
+                cancelTokenSource.token
+            );
+            cancelTokenSource.cancel("cancelled");
+
+            // Assert
+            await expect(result).rejects.toBeInstanceOf(axios.Cancel);
+            expect(workload).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    // #endregion retry
+});
@@ -0,0 +1,145 @@
+import axios, { CancelToken } from "axios";
+import { BackoffStrategy } from "../enumerations/backoff-strategy";
+import { RetryPolicy } from "../interfaces/retry-policy";
+
+// -----------------------------------------------------------------------------------------
+// #region Constants
+// -----------------------------------------------------------------------------------------
+
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+    backoff: BackoffStrategy.Exponential,
+    baseDelay: 300,
+    jitter: true,
+    maxAttempts: 3,
+    maxDelay: 5000,
+    retryOnNetworkError: true,
+    retryableStatusCodes: [408, 429, 502, 503, 504],
+};
+
+// #endregion Constants
+
+// -----------------------------------------------------------------------------------------
+// #region Public Methods
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Calculates the delay in milliseconds before the supplied (1-based) retry attempt
+ * @param policy
+ * @param attempt number of the attempt which just failed
+ */
+const getDelay = (policy: RetryPolicy, attempt: number): number => {
+    const { backoff, baseDelay, jitter, maxDelay } = withDefaults(policy);
+
+    let delay: number;
+    if (typeof backoff === "function") {
+        delay = backoff(attempt);
+    } else if (backoff === BackoffStrategy.Constant) {
+        delay = baseDelay;
+    } else if (backoff === BackoffStrategy.Linear) {
+        delay = baseDelay * attempt;
+    } else {
+        delay = baseDelay * Math.pow(2, attempt - 1);
+    }
+
+    delay = Math.min(delay, maxDelay);
+
+    if (jitter) {
+        delay = delay / 2 + (Math.random() * delay) / 2;
+    }
+
+    return delay;
+};
+
+/**
+ * Determines whether the supplied error may be retried according to the policy. Cancelled
+ * requests are never retried.
+ * @param policy
+ * @param error
+ */
+const isRetryable = (policy: RetryPolicy, error: any): boolean => {
+    const { retryableStatusCodes, retryOnNetworkError } = withDefaults(policy);
+
+    if (error == null || axios.isCancel(error)) {
+        return false;
+    }
+
+    if (error.response != null) {
+        return retryableStatusCodes.includes(error.response.status);
+    }
+
+    return retryOnNetworkError && error.isAxiosError === true;
+};
+
+/**
+ * Runs the supplied workload, retrying failures according to the policy. Waiting between
+ * attempts stops (and rejects with the cancellation) as soon as the cancel token is cancelled.
+ * @param workload
+ * @param policy
+ * @param cancelToken
+ */
+const retry = async <T>(
+    workload: () => Promise<T>,
+    policy: RetryPolicy,
+    cancelToken?: CancelToken
+): Promise<T> => {
+    const { maxAttempts } = withDefaults(policy);
+
+    let attempt = 1;
+    while (true) {
+        try {
+            return await workload();
+        } catch (error) {
+            if (attempt >= maxAttempts || !isRetryable(policy, error)) {
+                throw error;
+            }
+        }
+
+        await _delay(getDelay(policy, attempt), cancelToken);
+        attempt++;
+    }
+};
+
+/**
+ * Returns a complete policy, filling in any values not supplied from the default policy
+ * @param policy
+ */
+const withDefaults = (policy?: RetryPolicy): Required<RetryPolicy> => ({
+    ...DEFAULT_RETRY_POLICY,
+    ...policy,
+});
+
+// #endregion Public Methods
+
+// -----------------------------------------------------------------------------------------
+// #region Private Methods
+// -----------------------------------------------------------------------------------------
+
+const _delay = (milliseconds: number, cancelToken?: CancelToken) =>
+    new Promise<void>((resolve, reject) => {
+        if (cancelToken?.reason != null) {
+            reject(cancelToken.reason);
+            return;
+        }
+
+        const timeout = setTimeout(resolve, milliseconds);
+
+        cancelToken?.promise.then((reason) => {
+            clearTimeout(timeout);
+            reject(reason);
+        });
+    });
+
+// #endregion Private Methods
+
+// -----------------------------------------------------------------------------------------
+// #region Exports
+// -----------------------------------------------------------------------------------------
+
+export const RetryUtils = {
+    getDelay,
+    isRetryable,
+    retry,
+    withDefaults,
+};
+
+// #endregion Exports
@@ -0,0 +1,61 @@
+import { ServiceMiddlewareUtils } from "./service-middleware-utils";
+
+describe("ServiceMiddlewareUtils", () => {
+    afterEach(() => {
+        ServiceMiddlewareUtils.clear();
+    });
+
+    // -----------------------------------------------------------------------------------------
+    // #region register
+    // -----------------------------------------------------------------------------------------
+
+    describe("register", () => {
+        test("when registered, list returns middleware in registration order", () => {
+            // Arrange
+            const first = { onRequest: jest.fn() };
+            const second = { onResponse: jest.fn() };
+
+            // Act
+            ServiceMiddlewareUtils.register(first);
+            ServiceMiddlewareUtils.register(second);
+
+            // Assert
+            expect(ServiceMiddlewareUtils.list()).toEqual([first, second]);
+        });
+
+        test("when returned function is called, middleware is unregistered", () => {
+            // Arrange
+            const first = { onRequest: jest.fn() };
+            const second = { onResponse: jest.fn() };
+            const unregister = ServiceMiddlewareUtils.register(first);
+            ServiceMiddlewareUtils.register(second);
+
+            // Act
+            unregister();
+
+            // Assert
+            expect(ServiceMiddlewareUtils.list()).toEqual([second]);
+        });
+    });
+
+    // #endregion register
+
+    // -----------------------------------------------------------------------------------------
+    // #region clear
+    // -----------------------------------------------------------------------------------------
+
+    describe("clear", () => {
+        test("when executed, list returns empty array", () => {
+            // Arrange
+            ServiceMiddlewareUtils.register({ onRequest: jest.fn() });
+
+            // Act
+            ServiceMiddlewareUtils.clear();
+
+            // Assert
+            expect(ServiceMiddlewareUtils.list()).toBeEmpty();
+        });
+    });
+
+    // #endregion clear
+});
@@ -0,0 +1,55 @@
+import { ServiceMiddleware } from "../interfaces/service-middleware";
+
+// -----------------------------------------------------------------------------------------
+// #region Variables
+// -----------------------------------------------------------------------------------------
+
+let _globalMiddleware: Array<ServiceMiddleware> = [];
+
+// #endregion Variables
+
+// -----------------------------------------------------------------------------------------
+// #region Public Methods
+// -----------------------------------------------------------------------------------------
+
+/**
+ * Removes all globally registered middleware
+ */
+const clear = () => {
+    _globalMiddleware = [];
+};
+
+/**
+ * Returns globally registered middleware, in the order they run
+ */
+const list = (): Array<ServiceMiddleware> => [..._globalMiddleware];
+
+/**
+ * Registers middleware which runs for every service function generated by any factory,
+ * before middleware registered on the factory itself
+ * @param middleware
+ * @returns function to unregister the supplied middleware
+ */
+const register = (...middleware: Array<ServiceMiddleware>) => {
+    _globalMiddleware = [..._globalMiddleware, ...middleware];
+
+    return () => {
+        _globalMiddleware = _globalMiddleware.filter(
+            (m: ServiceMiddleware) => !middleware.includes(m)
+        );
+    };
+};
+
+// #endregion Public Methods
+
+// -----------------------------------------------------------------------------------------
+// #region Exports
+// -----------------------------------------------------------------------------------------
+
+export const ServiceMiddlewareUtils = {
+    clear,
+    list,
+    register,
+};
+
+// #endregion Exports